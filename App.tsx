@@ -1,28 +1,356 @@
-import React, { useState } from 'react';
-import { ComicPanel, GenerationMode, LoadingState, ComicStyle, PanelSplitLayout, ComicImage, GridLayout, GutterSize, Character } from './types';
+import React, { useState, useEffect, useRef, useReducer, useSyncExternalStore } from 'react';
+import { ComicPanel, GenerationMode, PanelSplitLayout, ComicImage, GridLayout, GutterSize, Character, ComicProject, ProjectSummary, ImageVersionSource, Balloon, BalloonType, StylePreset, PromptRecord, PanelGeometry } from './types';
 import { PanelCard } from './components/PanelCard';
 import { Toolbox } from './components/Toolbox';
-import { generateComicImage, editComicImage, generateNarrativeElement, generateImageFromSketch } from './services/geminiService';
+import { ProjectSwitcher, SaveStatus } from './components/ProjectSwitcher';
+import { PageNavigator } from './components/PageNavigator';
+import { HistoryControls } from './components/HistoryControls';
+import { ExportDialog } from './components/ExportDialog';
+import { JobsPanel } from './components/JobsPanel';
+import { BatchFillDialog } from './components/BatchFillDialog';
+import { ScriptDialog } from './components/ScriptDialog';
+import { StyleLibraryDialog } from './components/StyleLibraryDialog';
+import { PromptInspector } from './components/PromptInspector';
+import { LayoutEditor } from './components/LayoutEditor';
+import { CandidatePicker } from './components/CandidatePicker';
+import { OuttakesTray } from './components/OuttakesTray';
+import { ProviderSwitcher } from './components/ProviderSwitcher';
+import { generateComicImage, editComicImage, generateNarrativeElement, generateImageFromSketch, planShots, writeScript, ImageAspectRatio, ScriptPage } from './services/aiService';
+import { downloadProjectFile, parseProjectFile, ProjectFileError } from './services/projectFileService';
+import { readFileAsText } from './services/fileService';
+import { importCbz, createChapterFromComic } from './services/cbzService';
+import { parseScriptFile, createChapterFromScript, downloadComicScript, ScriptFileError } from './services/scriptFileService';
+import { getPageLocations, countPanels, updatePage, updateChapter, addPage, addChapter, removePage, removeChapter, movePanelToPage, getLastPanelPromptBefore, findPanel, updateImageSlot } from './services/pageService';
+import { createEmptyImage, activateImageVersion, getVersionNumber } from './services/imageVersionService';
+import { countSlots, getSlotAspectRatio, getSlotCount, getSlotImageAspectRatio, gridColumns } from './services/layoutService';
+import { createSavedLayout, getInitialSlotSources, SlotSources } from './services/geometryService';
+import { findEmptySlots, buildShotPlanRequest, EmptySlot } from './services/shotPlanService';
+import { insertScriptPages } from './services/scriptService';
+import { applyGenerationResult, chooseCandidate, placeOuttake, removeOuttake } from './services/candidateService';
+import { addCharacterReference, buildReferenceSheetPrompt, getCharacterReferences } from './services/characterService';
+import { StyleId, resolveStyle, getStylePrompt, createStylePreset, duplicateStylePreset, updateStylePreset, buildStyleSamplePrompt } from './services/styleService';
+import { EditMask, createEditMask, hasMaskStrokes, renderEditMask, compositeMaskedEdit } from './services/maskService';
+import { SketchStroke } from './services/sketchService';
+import { PanelSide, movePanel, movePanelNextTo, insertPanel, duplicatePanel, swapSlotImages, fitSlotImages, arrangeSlotImages, countDroppedImages } from './services/panelService';
+import { ExtendDirection, extendDirectionPhrases, prepareExtendedImage } from './services/outpaintService';
+import { composeGenerationPrompt, composeSketchPrompt, composeEditPrompt, composeExtendPrompt, createPromptRecord, addPromptRecord, PromptDraft } from './services/promptService';
+import { addBalloon, updateBalloon, moveBalloon, removeBalloon, balloonTypeLabels } from './services/balloonService';
+import { historyReducer, initialHistoryState } from './services/historyService';
+import { jobQueue, isAbortError, Job, JobTarget } from './services/jobService';
+import { createProject, listProjects, loadProject, saveProject, deleteProject, getLastProjectId, setLastProjectId } from './services/storageService';
 import { v4 as uuidv4 } from 'uuid';
 
+const AUTOSAVE_DELAY_MS = 600;
+
 const App: React.FC = () => {
-  const [panels, setPanels] = useState<ComicPanel[]>([]);
+  const [history, dispatchHistory] = useReducer(historyReducer, initialHistoryState);
+  const project = history.present;
+  const [projectList, setProjectList] = useState<ProjectSummary[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('SAVED');
+  const [activePageId, setActivePageId] = useState<string | null>(null);
   const [selectedPanelId, setSelectedPanelId] = useState<string | null>(null);
   const [activeSlotId, setActiveSlotId] = useState<string | null>(null); 
   const [mode, setMode] = useState<GenerationMode>(GenerationMode.CREATE);
-  const [gridLayout, setGridLayout] = useState<GridLayout>(GridLayout.STANDARD);
-  const [gutterSize, setGutterSize] = useState<GutterSize>('MEDIUM');
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [loadingState, setLoadingState] = useState<LoadingState>({ isLoading: false, message: '' });
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [candidateSlot, setCandidateSlot] = useState<JobTarget | null>(null);
+  const [batchFill, setBatchFill] = useState<{ scope: 'PANEL' | 'PAGE'; style: StyleId; slots: EmptySlot[] } | null>(null);
+  const [scriptPremise, setScriptPremise] = useState<string | null>(null); // Set while the script writer is open
+  const [styleLibraryBase, setStyleLibraryBase] = useState<StyleId | null>(null); // Style picked when the library was opened
+  const [inspectedPrompt, setInspectedPrompt] = useState<{ draft: PromptDraft; text: string } | null>(null); // Set while the prompt inspector is open
+  const [editMask, setEditMask] = useState<EditMask | null>(null); // Mask being painted for a masked edit
+  const [layoutEditorPanelId, setLayoutEditorPanelId] = useState<string | null>(null); // Set while the layout editor is open
+  const [styleSampleJobs, setStyleSampleJobs] = useState<Record<string, string>>({}); // Latest sample job id by preset id
+  const jobs = useSyncExternalStore(jobQueue.subscribe, jobQueue.getJobs);
+  const hasRestoredRef = useRef(false);
+  // Jobs finish after the render that queued them; they check the latest project through this
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  const pageLocations = project ? getPageLocations(project) : [];
+  const activeLocation = pageLocations.find(loc => loc.page.id === activePageId) ?? pageLocations[0];
+  const activePage = activeLocation?.page;
+
+  const panels = activePage?.panels ?? [];
+  const characters = project?.characters ?? [];
+  const stylePresets = project?.stylePresets ?? [];
+  const customLayouts = project?.customLayouts ?? [];
+  const gridLayout = activePage?.gridLayout ?? GridLayout.STANDARD;
+  const gutterSize = activePage?.gutterSize ?? 'MEDIUM';
+
+  // Every edit goes through here as a labelled, undoable command.
+  // Edits sharing a mergeKey in quick succession (like typing) become one history entry.
+  const updateProject = (label: string, updater: (project: ComicProject) => ComicProject, mergeKey?: string) => {
+    dispatchHistory({ type: 'COMMIT', label, updater, mergeKey });
+  };
+
+  // Panel edits always target the page that is open in the grid
+  const setPanels = (label: string, updater: (panels: ComicPanel[]) => ComicPanel[], mergeKey?: string) => {
+    if (!activePage) return;
+    updateProject(label, p => updatePage(p, activePage.id, page => ({ ...page, panels: updater(page.panels) })), mergeKey);
+  };
+
+  // Works on any page, so results of background jobs land where they were requested
+  const updatePanelImage = (label: string, panelId: string, imageId: string, updater: (image: ComicImage) => ComicImage) => {
+    updateProject(label, p => updateImageSlot(p, panelId, imageId, updater));
+  };
+
+  const setCharacters = (newCharacters: Character[]) => {
+    updateProject('Edit characters', p => ({ ...p, characters: newCharacters }), 'characters');
+  };
+
+  const setGridLayout = (layout: GridLayout) => {
+    if (!activePage) return;
+    updateProject('Change grid layout', p => updatePage(p, activePage.id, page => ({ ...page, gridLayout: layout })));
+  };
+
+  const setGutterSize = (size: GutterSize) => {
+    if (!activePage) return;
+    updateProject('Change gutter size', p => updatePage(p, activePage.id, page => ({ ...page, gutterSize: size })));
+  };
+
+  const handleUndo = () => dispatchHistory({ type: 'UNDO' });
+  const handleRedo = () => dispatchHistory({ type: 'REDO' });
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatchHistory({ type: 'UNDO' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatchHistory({ type: 'REDO' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const refreshProjectList = async () => {
+    try {
+      setProjectList(await listProjects());
+    } catch (error) {
+      console.error('Failed to list projects:', error);
+    }
+  };
+
+  const openProject = (next: ComicProject) => {
+    dispatchHistory({ type: 'LOAD', project: next });
+    setLastProjectId(next.id);
+    setActivePageId(getPageLocations(next)[0]?.page.id ?? null);
+    setSelectedPanelId(null);
+    setActiveSlotId(null);
+  };
+
+  // Restore the last open project (or start a fresh one) on first load
+  useEffect(() => {
+    if (hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+
+    const restore = async () => {
+      try {
+        const summaries = await listProjects();
+        const lastId = getLastProjectId();
+        const targetId = summaries.find(s => s.id === lastId)?.id ?? summaries[0]?.id;
+        const restored = targetId ? await loadProject(targetId) : null;
+        openProject(restored ?? createProject('Untitled Comic'));
+        setProjectList(summaries);
+      } catch (error) {
+        console.error('Failed to restore project:', error);
+        openProject(createProject('Untitled Comic'));
+      }
+    };
+    restore();
+  }, []);
+
+  // Debounced autosave of the open project
+  useEffect(() => {
+    if (!project) return;
+    setSaveStatus('SAVING');
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(project);
+        setSaveStatus('SAVED');
+        refreshProjectList();
+      } catch (error) {
+        console.error('Autosave failed:', error);
+        setSaveStatus('ERROR');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project]);
+
+  // Writes the current project immediately, before switching away from it
+  const flushSave = async () => {
+    if (!project) return;
+    try {
+      await saveProject(project);
+    } catch (error) {
+      console.error('Failed to save project:', error);
+    }
+  };
+
+  const handleSwitchProject = async (id: string) => {
+    if (id === project?.id) return;
+    await flushSave();
+    try {
+      const next = await loadProject(id);
+      if (!next) {
+        alert('That project could not be found.');
+        await refreshProjectList();
+        return;
+      }
+      openProject(next);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to open project.');
+    }
+  };
+
+  const handleCreateProject = async () => {
+    await flushSave();
+    const next = createProject(`Untitled Comic ${projectList.length + 1}`);
+    openProject(next);
+  };
+
+  const handleRenameProject = (name: string) => {
+    updateProject('Rename project', p => ({ ...p, name }));
+  };
+
+  const handleDuplicateProject = async () => {
+    if (!project) return;
+    await flushSave();
+    const now = Date.now();
+    const copy: ComicProject = {
+      ...project,
+      id: uuidv4(),
+      name: `${project.name} (Copy)`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    openProject(copy);
+  };
+
+  const handleDeleteProject = async () => {
+    if (!project) return;
+    try {
+      await deleteProject(project.id);
+      const remaining = await listProjects();
+      const fallback = remaining[0] ? await loadProject(remaining[0].id) : null;
+      openProject(fallback ?? createProject('Untitled Comic'));
+      setProjectList(remaining);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to delete project.');
+    }
+  };
+
+  const handleExportProject = () => {
+    if (!project) return;
+    try {
+      downloadProjectFile(project);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to export project.');
+    }
+  };
+
+  // Project and script files list every problem they found, with line numbers for scripts
+  const alertImportError = (file: File, error: unknown) => {
+    if (error instanceof ProjectFileError || error instanceof ScriptFileError) {
+      const details = error.issues.slice(0, 10).join('\n');
+      const more = error.issues.length > 10 ? `\n...and ${error.issues.length - 10} more` : '';
+      alert(`Could not import "${file.name}".\n${error.message}${details ? `\n\n${details}${more}` : ''}`);
+    } else {
+      alert(`Could not import "${file.name}".`);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await readFileAsText(file));
+      await flushSave();
+      await saveProject(imported);
+      openProject(imported);
+      await refreshProjectList();
+    } catch (error) {
+      console.error(error);
+      alertImportError(file, error);
+    }
+  };
+
+  const handleExportScript = () => {
+    if (!project) return;
+    try {
+      downloadComicScript(project);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to export script.');
+    }
+  };
+
+  const handleImportScript = async (file: File) => {
+    if (!project) return;
+    try {
+      const parsed = parseScriptFile(await readFileAsText(file), file.name, project.characters.map(c => c.name));
+      const { chapter, characters } = createChapterFromScript(parsed, project.characters, file.name.replace(/\.[^.]+$/, ''));
+      updateProject(`Import script "${chapter.title}" (${chapter.pages.length} pages)`, p => ({ ...p, characters, chapters: [...p.chapters, chapter] }));
+      handleSelectPage(chapter.pages[0].id);
+    } catch (error) {
+      console.error(error);
+      alertImportError(file, error);
+    }
+  };
+
+  const handleImportCbz = async (file: File) => {
+    if (!project) return;
+    const { promise } = jobQueue.enqueue({
+      kind: 'IMPORT',
+      label: `Import ${file.name}`,
+      run: () => importCbz(file),
+      onSuccess: comic => {
+        const chapter = createChapterFromComic(comic);
+        updateProject(`Import "${chapter.title}" (${chapter.pages.length} pages)`, p => ({ ...p, chapters: [...p.chapters, chapter] }));
+        handleSelectPage(chapter.pages[0].id);
+      },
+    });
+    try {
+      await promise;
+    } catch (error) {
+      if (isAbortError(error)) return;
+      alert(`Could not import "${file.name}".${error instanceof Error ? `\n${error.message}` : ''}`);
+    }
+  };
 
   const selectedPanel = panels.find(p => p.id === selectedPanelId);
+  const layoutEditorPanel = layoutEditorPanelId ? panels.find(p => p.id === layoutEditorPanelId) : undefined;
+  const candidateImage = project && candidateSlot
+    ? findPanel(project, candidateSlot.panelId)?.images.find(img => img.id === candidateSlot.imageId)
+    : undefined;
+
+  // Unfinished jobs by the slot they will fill, for the per-slot spinners
+  const slotJobs: Record<string, Job> = {};
+  for (const job of jobs) {
+    if (job.target && (job.status === 'PENDING' || job.status === 'RUNNING' || job.status === 'RETRYING')) {
+      slotJobs[job.target.imageId] = job;
+    }
+  }
   
-  const getLastPanelPrompt = () => {
-    if (panels.length === 0) return '';
-    const lastPanel = panels[panels.length - 1];
-    const reversedImages = [...lastPanel.images].reverse();
-    const lastImageWithPrompt = reversedImages.find(img => img.prompt && img.prompt.trim().length > 0);
-    return lastImageWithPrompt ? lastImageWithPrompt.prompt : '';
+  // Story assist continues from the last prompted panel, looking back across page turns
+  const lastPanelContext = project && activePage ? getLastPanelPromptBefore(project, activePage.id) : null;
+
+  const getPageContextString = () => {
+    if (!activeLocation) return '';
+    if (!lastPanelContext) return `The next panel opens page ${activeLocation.pageNumber}.`;
+    if (lastPanelContext.isPageTurn) {
+      return `The previous panel was the last panel of page ${lastPanelContext.pageNumber}. The next panel is the first panel of page ${activeLocation.pageNumber}, right after a page turn.`;
+    }
+    return `The next panel is panel ${panels.length + 1} on page ${activeLocation.pageNumber}.`;
   };
   
   const getCharacterContextString = () => {
@@ -40,122 +368,439 @@ const App: React.FC = () => {
     }, 100);
   };
 
-  const getStylePrompt = (style: ComicStyle) => {
-     const stylePrompts: Record<ComicStyle, string> = {
-        'MODERN': 'modern comic book style, crisp lines, vibrant colors, digital art',
-        'SUPERHERO': 'classic american superhero comic style, marvel style, dynamic action poses, bold colors, detailed muscle anatomy, cinematic composition',
-        'MANGA': 'manga style, anime aesthetic, expressive characters, detailed ink lines, screentones',
-        'GHIBLI': 'studio ghibli style, hayao miyazaki art style, beautiful painted backgrounds, whimsical, soft colors, highly detailed nature',
-        'NOIR': 'film noir style, high contrast black and white comic, dramatic shadows, mysterious atmosphere, frank miller style',
-        'RETRO': 'vintage 1950s comic style, halftone dots, retro color palette, aged paper texture, golden age comics',
-        'CYBERPUNK': 'cyberpunk style, neon lights, futuristic city, high tech, rain-slicked streets, vibrant neon colors',
-        'FANTASY': 'fantasy comic style, oil painting aesthetic, epic lighting, dungeons and dragons art style',
-        'HORROR': 'horror comic style, junji ito style, eerie atmosphere, dark gritty details, high contrast',
-        'SKETCH': 'rough sketch comic style, pencil textures, loose lines, charcoal, artistic unfinished look',
-        'WATERCOLOR': 'watercolor comic style, artistic, soft edges, bleeding colors, dreamlike atmosphere'
-      };
-      return stylePrompts[style];
-  };
-
-  const handleGenerate = async (prompt: string, style: ComicStyle, sketchBase64?: string) => {
-    const stylePrompt = getStylePrompt(style);
-    const characterContext = getCharacterContextString();
-    
-    const fullPrompt = `
-      Art Style: ${stylePrompt}.
-      ${characterContext ? `Defined Characters (MUST MATCH EXACTLY): ${characterContext}.` : ''}
-      Scene Description: ${prompt}.
-      (Ensure consistent character details). high quality masterpiece.
-    `.trim();
-    
-    setLoadingState({ isLoading: true, message: sketchBase64 ? 'Transforming sketch...' : `Generating ${style.toLowerCase().replace('_', ' ')} art...` });
+  // Lands a finished job in its slot; fails the job if the slot was deleted in the meantime
+  const applyJobResult = (label: string, target: JobTarget, updater: (image: ComicImage) => ComicImage) => {
+    const panel = projectRef.current ? findPanel(projectRef.current, target.panelId) : undefined;
+    if (!panel?.images.some(img => img.id === target.imageId)) {
+      throw new Error('The slot was removed before the result arrived.');
+    }
+    updatePanelImage(label, target.panelId, target.imageId, updater);
+  };
 
-    try {
-      let imageUrl = '';
-      if (sketchBase64) {
-        imageUrl = await generateImageFromSketch(sketchBase64, fullPrompt);
-      } else {
-        imageUrl = await generateComicImage(fullPrompt, '1:1');
-      }
+  // Several results wait on the slot for a pick; the picker opens unless another one is already showing.
+  // The prompt that produced them goes into the slot's history in the same step, and a sketch stays on the slot.
+  const applyCandidates = (label: string, target: JobTarget, urls: string[], prompt: string, source: ImageVersionSource, record: PromptRecord) => {
+    applyJobResult(label, target, img => {
+      const updated = addPromptRecord(applyGenerationResult(img, urls, prompt, source), record);
+      return record.sketchUrl ? { ...updated, sketchUrl: record.sketchUrl } : updated;
+    });
+    if (urls.length > 1) setCandidateSlot(prev => prev ?? target);
+  };
 
-      if (selectedPanelId && activeSlotId) {
-        const panel = panels.find(p => p.id === selectedPanelId);
-        if (panel) {
-          const updatedImages = panel.images.map(img => {
-            if (img.id === activeSlotId) {
-              return { ...img, url: imageUrl, prompt: prompt };
-            }
-            return img;
-          });
-
-          setPanels(prev => prev.map(p => p.id === selectedPanelId ? { ...p, images: updatedImages } : p));
-        }
-      } else {
-        const newPanel: ComicPanel = {
-          id: uuidv4(),
-          images: [{ id: uuidv4(), url: imageUrl, prompt: prompt }],
-          splitLayout: 'SINGLE',
-          caption: '',
-          aspectRatio: '1:1', 
-          overlayType: 'NONE',
-          colSpan: 1
-        };
-
-        setPanels(prev => [...prev, newPanel]);
-        scrollToBottom();
-      }
+  // Panels added by a generation, or inserted empty, start as a single square slot
+  const createGenerationPanel = (prompt: string): ComicPanel => ({
+    id: uuidv4(),
+    images: [createEmptyImage(prompt)],
+    splitLayout: 'SINGLE',
+    balloons: [],
+    aspectRatio: '1:1',
+    colSpan: 1
+  });
 
-    } catch (error) {
-      console.error(error);
-      alert('Failed to generate image. Please try again.');
-    } finally {
-      setLoadingState({ isLoading: false, message: '' });
+  const draftImageGeneration = (target: JobTarget | null, aspectRatio: ImageAspectRatio, prompt: string, style: StyleId, sketchBase64?: string, count: number = 1): PromptDraft => {
+    const resolvedStyle = resolveStyle(style, stylePresets);
+    const stylePrompt = getStylePrompt(resolvedStyle);
+    const characterContext = getCharacterContextString();
+    return {
+      source: sketchBase64 ? 'SKETCH' : 'GENERATE',
+      prompt,
+      composedPrompt: sketchBase64
+        ? composeSketchPrompt(prompt, stylePrompt, characterContext)
+        : composeGenerationPrompt(prompt, stylePrompt, characterContext),
+      target,
+      aspectRatio,
+      count,
+      references: [
+        ...(resolvedStyle.reference ? [resolvedStyle.reference] : []),
+        ...(sketchBase64 ? getCharacterReferences(characters, prompt) : []),
+      ],
+      styleId: style,
+      sketch: sketchBase64,
+    };
+  };
+
+  // Generations go to the selected slot, or to a new panel
+  const draftGeneration = (prompt: string, style: StyleId, sketchBase64?: string, count: number = 1) => {
+    if (selectedPanel && activeSlotId) {
+      const aspectRatio = getSlotImageAspectRatio(selectedPanel, selectedPanel.images.findIndex(img => img.id === activeSlotId));
+      return draftImageGeneration({ panelId: selectedPanel.id, imageId: activeSlotId }, aspectRatio, prompt, style, sketchBase64, count);
     }
+    return draftImageGeneration(null, getSlotImageAspectRatio(createGenerationPanel(prompt), 0), prompt, style, sketchBase64, count);
   };
 
-  const handleEdit = async (editPrompt: string) => {
-    if (!selectedPanel || !activeSlotId) return;
+  const draftEdit = (editPrompt: string, count: number = 1): PromptDraft | null => {
+    if (!selectedPanel || !activeSlotId) return null;
 
-    const activeImage = selectedPanel.images.find(img => img.id === activeSlotId);
+    const slotIndex = selectedPanel.images.findIndex(img => img.id === activeSlotId);
+    const activeImage = selectedPanel.images[slotIndex];
     if (!activeImage || !activeImage.url) {
       alert("Please select a slot with an image to edit.");
-      return;
+      return null;
     }
 
-    setLoadingState({ isLoading: true, message: 'Editing panel...' });
-    try {
-      const characterContext = getCharacterContextString();
-      const fullEditPrompt = characterContext ? `Edit Instruction: ${editPrompt}. (Maintain character consistency: ${characterContext})` : editPrompt;
-      const newImageUrl = await editComicImage(activeImage.url, fullEditPrompt);
-      
-      const updatedImages = selectedPanel.images.map(img => {
-        if (img.id === activeSlotId) {
-          return { ...img, url: newImageUrl };
+    return {
+      source: 'EDIT',
+      prompt: editPrompt,
+      composedPrompt: composeEditPrompt(editPrompt, getCharacterContextString()),
+      target: { panelId: selectedPanel.id, imageId: activeSlotId },
+      aspectRatio: getSlotImageAspectRatio(selectedPanel, slotIndex),
+      count,
+      // The edit instruction alone often just says "her" or "him", so look in the scene description too
+      references: getCharacterReferences(characters, `${activeImage.prompt} ${editPrompt}`),
+      image: activeImage.url,
+      mask: hasMaskStrokes(editMask) && editMask.imageId === activeSlotId
+        ? { url: renderEditMask(editMask), feather: editMask.feather }
+        : undefined,
+    };
+  };
+
+  const imageJobLabels: Record<PromptDraft['source'], string> = {
+    'GENERATE': 'Generate image',
+    'SKETCH': 'Transform sketch',
+    'EDIT': 'Edit image',
+  };
+
+  // Queues a draft with its composed prompt, or with the text from the inspector for this run only.
+  // The result lands in the slot as a new version (or as candidates to pick from).
+  const sendPromptDraft = (draft: PromptDraft, sentPrompt: string = draft.composedPrompt) => {
+    let target = draft.target;
+    if (!target) {
+      // The new panel goes in right away with an empty slot that shows the job's progress
+      const newPanel = createGenerationPanel(draft.prompt);
+      setPanels('Add panel', prev => [...prev, newPanel]);
+      scrollToBottom();
+      target = { panelId: newPanel.id, imageId: newPanel.images[0].id };
+    }
+
+    const slot = target;
+    const { source, prompt, count, references } = draft;
+    const label = imageJobLabels[source];
+    const record = createPromptRecord(draft, sentPrompt);
+    const { image, mask } = draft;
+    jobQueue.enqueue({
+      kind: source,
+      label: `${label}: ${prompt}${count > 1 ? ` (${count} candidates)` : ''}${mask ? ' (masked)' : ''}${record.overridden ? ' (custom prompt)' : ''}`,
+      target: slot,
+      run: async signal => {
+        if (source === 'EDIT') {
+          const imageUrls = await editComicImage(image!, sentPrompt, { signal, count, references, mask: mask?.url });
+          // The model may touch pixels outside the mask, so they're put back from the original
+          return mask ? Promise.all(imageUrls.map(url => compositeMaskedEdit(image!, url, mask))) : imageUrls;
         }
-        return img;
-      });
+        if (source === 'SKETCH') return generateImageFromSketch(draft.sketch!, sentPrompt, { signal, count, references });
+        return generateComicImage(sentPrompt, draft.aspectRatio, { signal, count, references });
+      },
+      onSuccess: imageUrls => applyCandidates(label, slot, imageUrls, prompt, source, record),
+    });
+  };
+
+  const handleGenerate = (prompt: string, style: StyleId, sketchBase64?: string, count: number = 1) => {
+    sendPromptDraft(draftGeneration(prompt, style, sketchBase64, count));
+  };
+
+  // "Panel 2, slot 3" for the inspector, or where a new panel will go
+  const describePromptTarget = (draft: PromptDraft) => {
+    if (!draft.target) return 'New panel';
+    const { panelId, imageId } = draft.target;
+    const panelIndex = panels.findIndex(p => p.id === panelId);
+    const panel = panels[panelIndex];
+    if (!panel) return 'Removed slot';
+    const slotIndex = panel.images.findIndex(img => img.id === imageId);
+    return `Panel ${panelIndex + 1}${panel.images.length > 1 ? `, slot ${slotIndex + 1}` : ''}`;
+  };
+
+  const handleInspectGenerate = (prompt: string, style: StyleId, sketchBase64?: string, count: number = 1) => {
+    const draft = draftGeneration(prompt, style, sketchBase64, count);
+    setInspectedPrompt({ draft, text: draft.composedPrompt });
+  };
+
+  const busySlotIds = Object.keys(slotJobs);
+  const busyStylePresetIds = Object.keys(styleSampleJobs).filter(presetId =>
+    jobs.some(job => job.id === styleSampleJobs[presetId] && (job.status === 'PENDING' || job.status === 'RUNNING' || job.status === 'RETRYING'))
+  );
+  const emptySlotCounts = {
+    panel: selectedPanelId ? findEmptySlots(panels, selectedPanelId, busySlotIds).length : 0,
+    page: findEmptySlots(panels, undefined, busySlotIds).length,
+  };
+
+  const handleFillEmptySlots = (scope: 'PANEL' | 'PAGE', style: StyleId) => {
+    const panelId = scope === 'PANEL' ? selectedPanelId ?? undefined : undefined;
+    // Slots that already have a generation on the way are left alone
+    const slots = findEmptySlots(panels, panelId, busySlotIds);
+    if (slots.length === 0) return;
+    setBatchFill({ scope, style, slots });
+  };
+
+  const handlePlanShots = (slots: EmptySlot[]) => {
+    const previousPagePrompt = lastPanelContext?.isPageTurn ? lastPanelContext.prompt : '';
+    const request = buildShotPlanRequest(panels, slots, getCharacterContextString(), previousPagePrompt);
+    return jobQueue.enqueue({
+      kind: 'TEXT',
+      label: `Plan shots for ${slots.length} empty slot${slots.length === 1 ? '' : 's'}`,
+      run: signal => planShots(request, { signal }),
+    }).promise;
+  };
+
+  const handleQueueBatch = (items: { slot: EmptySlot; prompt: string }[]) => {
+    if (!batchFill) return;
+    items.forEach(({ slot, prompt }) => {
+      const panel = panels.find(p => p.id === slot.panelId);
+      if (!panel) return;
+      const aspectRatio = getSlotImageAspectRatio(panel, panel.images.findIndex(img => img.id === slot.imageId));
+      sendPromptDraft(draftImageGeneration({ panelId: slot.panelId, imageId: slot.imageId }, aspectRatio, prompt, batchFill.style));
+    });
+    setBatchFill(null);
+  };
 
-      setPanels(prev => prev.map(p => p.id === selectedPanel.id ? { ...p, images: updatedImages } : p));
+  const handleWriteScript = (premise: string, pageCount: number) => {
+    const request = {
+      premise,
+      pageCount,
+      characters: characters.filter(c => c.name.trim()).map(c => ({ name: c.name.trim(), description: c.description.trim() })),
+      columns: gridColumns[gridLayout],
+      // The script follows the open page, or takes its place if it's still empty
+      previousPanel: panels.length > 0 ? panels[panels.length - 1].images.find(img => img.prompt)?.prompt : lastPanelContext?.prompt,
+    };
+    return jobQueue.enqueue({
+      kind: 'TEXT',
+      label: `Write ${pageCount} page${pageCount === 1 ? '' : 's'}: ${premise}`,
+      run: signal => writeScript(request, { signal }),
+    }).promise;
+  };
+
+  const handleAcceptScript = (script: ScriptPage[]) => {
+    if (!project || !activePage) return;
+    const { project: next, pageIds } = insertScriptPages(project, activePage.id, script, characters);
+    updateProject(`Create ${script.length} page${script.length === 1 ? '' : 's'} from script`, () => next);
+    if (pageIds[0]) handleSelectPage(pageIds[0]);
+    setScriptPremise(null);
+  };
+
+  const handleEdit = (editPrompt: string, count: number = 1) => {
+    const draft = draftEdit(editPrompt, count);
+    if (draft) sendPromptDraft(draft);
+  };
+
+  const handleInspectEdit = (editPrompt: string, count: number = 1) => {
+    const draft = draftEdit(editPrompt, count);
+    if (draft) setInspectedPrompt({ draft, text: draft.composedPrompt });
+  };
+
+  // Sends a prompt from a slot's history again, exactly as it was sent, to the same slot
+  const handleRerunPrompt = (panelId: string, imageId: string, recordId: string, inspect: boolean = false) => {
+    const panel = panels.find(p => p.id === panelId);
+    const slotIndex = panel ? panel.images.findIndex(img => img.id === imageId) : -1;
+    const image = panel?.images[slotIndex];
+    const record = image?.promptHistory?.find(r => r.id === recordId);
+    if (!panel || !image || !record) return;
+    if (record.source === 'EDIT' && !image.url) {
+      alert("This slot has no image to edit.");
+      return;
+    }
+    // The extend mask only fits the padded image it was made with, so pad the current image again
+    if (record.extend) {
+      handleExtendCanvas(panelId, imageId, record.extend, 1, { composedPrompt: record.sentPrompt, inspect });
+      return;
+    }
+
+    const style = record.styleId ? resolveStyle(record.styleId, stylePresets) : undefined;
+    const draft: PromptDraft = {
+      source: record.source,
+      prompt: record.prompt,
+      composedPrompt: record.sentPrompt,
+      target: { panelId, imageId },
+      aspectRatio: getSlotImageAspectRatio(panel, slotIndex),
+      count: 1,
+      references: record.source === 'EDIT'
+        ? getCharacterReferences(characters, `${image.prompt} ${record.prompt}`)
+        : [
+          ...(style?.reference ? [style.reference] : []),
+          ...(record.source === 'SKETCH' ? getCharacterReferences(characters, record.prompt) : []),
+        ],
+      styleId: record.styleId,
+      sketch: record.sketchUrl,
+      image: record.source === 'EDIT' ? image.url : undefined,
+      mask: record.mask,
+    };
+    if (inspect) {
+      setInspectedPrompt({ draft, text: record.sentPrompt });
+    } else {
+      sendPromptDraft(draft);
+    }
+  };
+
+  // Pads the slot's image out to the slot's shape and has the model fill the new area, as an edit.
+  // A re-run passes the prompt that was sent last time.
+  const handleExtendCanvas = async (
+    panelId: string, imageId: string, direction: ExtendDirection, count: number = 1,
+    { composedPrompt, inspect = false }: { composedPrompt?: string; inspect?: boolean } = {},
+  ) => {
+    const panel = panels.find(p => p.id === panelId);
+    const slotIndex = panel ? panel.images.findIndex(img => img.id === imageId) : -1;
+    const image = panel?.images[slotIndex];
+    if (!panel || !image?.url) return;
+
+    let extended: Awaited<ReturnType<typeof prepareExtendedImage>>;
+    try {
+      extended = await prepareExtendedImage(image.url, getSlotAspectRatio(panel, slotIndex), direction);
     } catch (error) {
       console.error(error);
-      alert('Failed to edit image. Make sure your prompt is clear.');
-    } finally {
-      setLoadingState({ isLoading: false, message: '' });
+      alert("Couldn't read this slot's image to extend it.");
+      return;
     }
+    const draft: PromptDraft = {
+      source: 'EDIT',
+      prompt: `Extend canvas ${extendDirectionPhrases[direction]}`,
+      composedPrompt: composedPrompt ?? composeExtendPrompt(image.prompt, direction, getCharacterContextString()),
+      target: { panelId, imageId },
+      aspectRatio: getSlotImageAspectRatio(panel, slotIndex),
+      count,
+      references: getCharacterReferences(characters, image.prompt),
+      image: extended.image,
+      mask: extended.mask,
+      extend: direction,
+    };
+    if (inspect) {
+      setInspectedPrompt({ draft, text: draft.composedPrompt });
+    } else {
+      sendPromptDraft(draft);
+    }
+  };
+
+  // Painting a mask on another slot starts a new one
+  const handleToggleMaskPainting = () => {
+    if (!selectedPanelId || !activeSlotId) return;
+    setEditMask(prev => prev?.imageId === activeSlotId
+      ? { ...prev, painting: !prev.painting }
+      : createEditMask(selectedPanelId, activeSlotId));
+  };
+
+  const handlePaintMask = (stroke: SketchStroke, size: { width: number; height: number }) => {
+    setEditMask(prev => prev && {
+      ...prev,
+      width: prev.width || size.width,
+      height: prev.height || size.height,
+      strokes: [...prev.strokes, stroke],
+    });
+  };
+
+  const handleForgetSketch = (panelId: string, imageId: string) => {
+    updatePanelImage('Remove saved sketch', panelId, imageId, img => {
+      const { sketchUrl: _, ...rest } = img;
+      return rest;
+    });
+  };
+
+  // Applied to the latest characters, since the files finish reading after the upload started
+  const handleAddCharacterReferences = (characterId: string, urls: string[]) => {
+    updateProject('Add reference images', p => ({
+      ...p,
+      characters: p.characters.map(c => c.id === characterId ? urls.reduce((char, url) => addCharacterReference(char, url, 'UPLOAD'), c) : c),
+    }));
+  };
+
+  const handleGenerateReferenceSheet = (characterId: string, style: StyleId) => {
+    const character = characters.find(c => c.id === characterId);
+    if (!character || !character.description.trim()) return;
+    const name = character.name.trim() || 'Unnamed character';
+    const resolvedStyle = resolveStyle(style, stylePresets);
+    const references = resolvedStyle.reference ? [resolvedStyle.reference] : [];
+    jobQueue.enqueue({
+      kind: 'REFERENCE',
+      label: `Reference sheet: ${name}`,
+      run: signal => generateComicImage(buildReferenceSheetPrompt(character, getStylePrompt(resolvedStyle)), '16:9', { signal, references }),
+      onSuccess: ([sheetUrl]) => {
+        if (!projectRef.current?.characters.some(c => c.id === characterId)) {
+          throw new Error('The character was removed before the sheet arrived.');
+        }
+        updateProject('Add reference sheet', p => ({
+          ...p,
+          characters: p.characters.map(c => c.id === characterId ? addCharacterReference(c, sheetUrl, 'GENERATE') : c),
+        }));
+      },
+    });
+  };
+
+  // --- Style presets ---
+
+  const setStylePresets = (label: string, updater: (presets: StylePreset[]) => StylePreset[], mergeKey?: string) => {
+    updateProject(label, p => ({ ...p, stylePresets: updater(p.stylePresets ?? []) }), mergeKey);
+  };
+
+  const handleCreateStylePreset = (from: StyleId) => {
+    const preset = createStylePreset(resolveStyle(from, stylePresets));
+    setStylePresets('Add style', prev => [...prev, preset]);
+    return preset.id;
+  };
+
+  const handleDuplicateStylePreset = (id: string) => {
+    const preset = stylePresets.find(p => p.id === id);
+    if (!preset) return null;
+    const copy = duplicateStylePreset(preset);
+    setStylePresets('Duplicate style', prev => [...prev, copy]);
+    return copy.id;
+  };
+
+  const handleUpdateStylePreset = (id: string, changes: Partial<Omit<StylePreset, 'id'>>) => {
+    // Typing in the name, prompt or avoid list becomes one undo step per field
+    const field = Object.keys(changes).join(',');
+    setStylePresets('Edit style', prev => updateStylePreset(prev, id, changes), `style:${id}:${field}`);
+  };
+
+  const handleDeleteStylePreset = (id: string) => {
+    setStylePresets('Delete style', prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleGenerateStyleThumbnail = (id: string) => {
+    const preset = stylePresets.find(p => p.id === id);
+    if (!preset) return;
+    const resolvedStyle = resolveStyle(id, stylePresets);
+    const { id: jobId } = jobQueue.enqueue({
+      kind: 'STYLE',
+      label: `Style sample: ${preset.name}`,
+      run: signal => generateComicImage(buildStyleSamplePrompt(resolvedStyle), '1:1', { signal, references: resolvedStyle.reference ? [resolvedStyle.reference] : [] }),
+      onSuccess: ([thumbnailUrl]) => {
+        if (!projectRef.current?.stylePresets?.some(p => p.id === id)) {
+          throw new Error('The style was removed before the sample arrived.');
+        }
+        setStylePresets('Add style sample', prev => updateStylePreset(prev, id, { thumbnailUrl }));
+      },
+    });
+    setStyleSampleJobs(prev => ({ ...prev, [id]: jobId }));
+  };
+
+  const handleChooseCandidate = (candidateId: string | null) => {
+    if (!candidateSlot) return;
+    const { panelId, imageId } = candidateSlot;
+    updateProject(candidateId ? 'Pick candidate' : 'Discard candidates', p => chooseCandidate(p, panelId, imageId, candidateId));
+    setCandidateSlot(null);
+  };
+
+  const handlePlaceOuttake = (outtakeId: string) => {
+    if (!selectedPanelId || !activeSlotId) return;
+    updateProject('Use outtake', p => placeOuttake(p, outtakeId, selectedPanelId, activeSlotId));
+  };
+
+  const handleDeleteOuttake = (outtakeId: string) => {
+    updateProject('Delete outtake', p => removeOuttake(p, outtakeId));
   };
 
   const handleNarrativeAssist = async (type: 'PLOT' | 'DIALOGUE' | 'NEXT_PANEL', context: string) => {
-    setLoadingState({ isLoading: true, message: 'Consulting AI Storywriter...' });
+    const charContext = getCharacterContextString();
+    const pageContext = type === 'NEXT_PANEL' ? getPageContextString() : '';
+    const labels = { 'PLOT': 'Scene idea', 'DIALOGUE': 'Dialogue', 'NEXT_PANEL': 'Next panel' };
+    const { promise } = jobQueue.enqueue({
+      kind: 'TEXT',
+      label: `Story assist: ${labels[type]}`,
+      run: signal => generateNarrativeElement(type, context, charContext, pageContext, { signal }),
+    });
     try {
-      const charContext = getCharacterContextString();
-      const result = await generateNarrativeElement(type, context, charContext);
-      return result;
+      return await promise;
     } catch (error) {
-      console.error(error);
-      alert('Failed to generate narrative element.');
+      if (!isAbortError(error)) {
+        alert(`Failed to generate narrative element.${error instanceof Error ? `\n${error.message}` : ''}`);
+      }
       return '';
-    } finally {
-      setLoadingState({ isLoading: false, message: '' });
     }
   };
 
@@ -182,48 +827,188 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateCaption = (id: string, caption: string) => {
-    setPanels(prev => prev.map(p => p.id === id ? { ...p, caption } : p));
+  const handleSelectImageVersion = (panelId: string, imageId: string, versionId: string) => {
+    const image = panels.find(p => p.id === panelId)?.images.find(img => img.id === imageId);
+    const versionNumber = image ? getVersionNumber(image, versionId) : 0;
+    updatePanelImage(`Switch to image v${versionNumber}`, panelId, imageId, img => activateImageVersion(img, versionId));
+  };
+
+  const updateBalloons = (label: string, panelId: string, updater: (balloons: Balloon[]) => Balloon[], mergeKey?: string) => {
+    setPanels(label, prev => prev.map(p => p.id === panelId ? { ...p, balloons: updater(p.balloons) } : p), mergeKey);
   };
 
-  const handleToggleOverlay = (id: string, type: any) => {
-    setPanels(prev => prev.map(p => p.id === id ? { ...p, overlayType: type } : p));
+  const handleAddBalloon = (panelId: string, type: BalloonType, text: string = '') => {
+    updateBalloons(`Add ${balloonTypeLabels[type].toLowerCase()} balloon`, panelId, balloons => addBalloon(balloons, type, text));
+  };
+
+  const handleUpdateBalloon = (panelId: string, balloonId: string, changes: Partial<Omit<Balloon, 'id' | 'order'>>) => {
+    // Typing into one balloon collapses into a single history entry
+    const isTyping = changes.text !== undefined;
+    const label = isTyping ? 'Edit balloon text' : 'position' in changes || 'tail' in changes ? 'Move balloon' : 'Edit balloon';
+    updateBalloons(label, panelId, balloons => updateBalloon(balloons, balloonId, changes), isTyping ? `balloon:${balloonId}` : undefined);
+  };
+
+  const handleMoveBalloon = (panelId: string, balloonId: string, delta: -1 | 1) => {
+    updateBalloons('Reorder balloons', panelId, balloons => moveBalloon(balloons, balloonId, delta));
+  };
+
+  const handleDeleteBalloon = (panelId: string, balloonId: string) => {
+    updateBalloons('Delete balloon', panelId, balloons => removeBalloon(balloons, balloonId));
   };
   
   const handleUpdatePanelSpan = (id: string, span: 1 | 2 | 3 | 4 | 5 | 6) => {
-    setPanels(prev => prev.map(p => p.id === id ? { ...p, colSpan: span } : p));
+    setPanels('Resize panel', prev => prev.map(p => p.id === id ? { ...p, colSpan: span } : p));
   }
 
+  const handleChangeAspectRatio = (id: string, aspectRatio: ComicPanel['aspectRatio']) => {
+    setPanels('Change aspect ratio', prev => prev.map(p => p.id === id ? { ...p, aspectRatio } : p));
+  };
+
   const handleDeletePanel = (id: string) => {
-    setPanels(prev => prev.filter(p => p.id !== id));
+    setPanels('Delete panel', prev => prev.filter(p => p.id !== id));
     if (selectedPanelId === id) {
       setSelectedPanelId(null);
       setActiveSlotId(null);
     }
   };
 
+  const handleMovePanel = (panelId: string, targetId: string, side: PanelSide) => {
+    setPanels('Reorder panels', prev => movePanelNextTo(prev, panelId, targetId, side));
+  };
+
+  const handleShiftPanel = (panelId: string, offset: number) => {
+    const index = panels.findIndex(p => p.id === panelId);
+    if (index < 0) return;
+    setPanels('Reorder panels', prev => movePanel(prev, panelId, index + offset));
+  };
+
+  const handleDuplicatePanel = (panelId: string) => {
+    const panel = panels.find(p => p.id === panelId);
+    if (!panel) return;
+    const copy = duplicatePanel(panel);
+    setPanels('Duplicate panel', prev => insertPanel(prev, copy, panelId, 'AFTER'));
+    setSelectedPanelId(copy.id);
+    setActiveSlotId(copy.images[0]?.id ?? null);
+  };
+
+  const handleInsertPanel = (panelId: string, side: PanelSide) => {
+    const panel = createGenerationPanel('');
+    setPanels(`Insert panel ${side === 'BEFORE' ? 'before' : 'after'}`, prev => insertPanel(prev, panel, panelId, side));
+    setSelectedPanelId(panel.id);
+    setActiveSlotId(panel.images[0].id);
+    setMode(GenerationMode.CREATE);
+  };
+
+  const handleSwapSlots = (from: JobTarget, to: JobTarget) => {
+    if (slotJobs[from.imageId] || slotJobs[to.imageId]) return;
+    setPanels('Swap slot images', prev => swapSlotImages(prev, from, to));
+    // The selection, open candidates and mask follow their image to its new slot
+    const retarget = <T extends JobTarget>(target: T): T =>
+      target.imageId === from.imageId ? { ...target, panelId: to.panelId }
+        : target.imageId === to.imageId ? { ...target, panelId: from.panelId }
+        : target;
+    if (activeSlotId === from.imageId) setSelectedPanelId(to.panelId);
+    else if (activeSlotId === to.imageId) setSelectedPanelId(from.panelId);
+    setCandidateSlot(prev => prev && retarget(prev));
+    setEditMask(prev => prev && retarget(prev));
+  };
+
+  const handleSelectPage = (pageId: string) => {
+    setActivePageId(pageId);
+    setSelectedPanelId(null);
+    setActiveSlotId(null);
+  };
+
+  const handleAddPage = (chapterId: string) => {
+    if (!project) return;
+    const { project: next, page } = addPage(project, chapterId, activePage);
+    updateProject('Add page', () => next);
+    handleSelectPage(page.id);
+  };
+
+  const handleAddChapter = () => {
+    if (!project) return;
+    const { project: next, chapter } = addChapter(project);
+    updateProject('Add chapter', () => next);
+    handleSelectPage(chapter.pages[0].id);
+  };
+
+  const handleRenameChapter = (chapterId: string, title: string) => {
+    updateProject('Rename chapter', p => updateChapter(p, chapterId, chapter => ({ ...chapter, title })), `chapter-title:${chapterId}`);
+  };
+
+  const handleDeletePage = (pageId: string) => {
+    if (!project || pageLocations.length <= 1) return;
+    const index = pageLocations.findIndex(loc => loc.page.id === pageId);
+    const neighbour = pageLocations[index + 1] ?? pageLocations[index - 1];
+    updateProject('Delete page', p => removePage(p, pageId));
+    if (pageId === activePage?.id && neighbour) {
+      handleSelectPage(neighbour.page.id);
+    }
+  };
+
+  const handleDeleteChapter = (chapterId: string) => {
+    if (!project || project.chapters.length <= 1) return;
+    const remaining = pageLocations.filter(loc => loc.chapter.id !== chapterId);
+    if (remaining.length === 0) {
+      alert('A project needs at least one page.');
+      return;
+    }
+    updateProject('Delete chapter', p => removeChapter(p, chapterId));
+    if (activeLocation?.chapter.id === chapterId) {
+      handleSelectPage(remaining[0].page.id);
+    }
+  };
+
+  const handleMovePanelToPage = (panelId: string, targetPageId: string) => {
+    const target = pageLocations.find(loc => loc.page.id === targetPageId);
+    updateProject(`Move panel to page ${target?.pageNumber ?? ''}`.trim(), p => movePanelToPage(p, panelId, targetPageId));
+    if (selectedPanelId === panelId) {
+      setSelectedPanelId(null);
+      setActiveSlotId(null);
+    }
+  };
+
+  // Dropped images get a mention in the history so it is easy to undo
+  const describeSlotChange = (label: string, panelId: string, sources: SlotSources) => {
+    const current = panels.find(p => p.id === panelId);
+    const droppedImages = current ? countDroppedImages(current.images, sources) : 0;
+    return droppedImages > 0 ? `${label} (removed ${droppedImages} image${droppedImages === 1 ? '' : 's'})` : label;
+  };
+
   const handleChangeSplitLayout = (panelId: string, newLayout: PanelSplitLayout) => {
-    setPanels(prev => prev.map(panel => {
+    const slotCount = getSlotCount(newLayout);
+    setPanels(describeSlotChange('Change split layout', panelId, getInitialSlotSources(slotCount)), prev => prev.map(panel => {
       if (panel.id !== panelId) return panel;
-      let newImages = [...panel.images];
-      let targetCount = 1;
-      
-      if (['DOUBLE_V', 'DOUBLE_H'].includes(newLayout)) targetCount = 2;
-      if (['TRIPLE_V', 'TRIPLE_H', 'BIG_LEFT', 'BIG_RIGHT', 'BIG_TOP', 'BIG_BOTTOM'].includes(newLayout)) targetCount = 3;
-      if (newLayout === 'QUAD') targetCount = 4;
-
-      if (newImages.length < targetCount) {
-        const needed = targetCount - newImages.length;
-        for (let i = 0; i < needed; i++) {
-          newImages.push({ id: uuidv4(), url: '', prompt: '' });
-        }
-      } else if (newImages.length > targetCount) {
-        newImages = newImages.slice(0, targetCount);
-      }
-      return { ...panel, splitLayout: newLayout, images: newImages };
+      // A preset replaces any custom interior
+      const { geometry: _, ...rest } = panel;
+      return { ...rest, splitLayout: newLayout, images: fitSlotImages(panel.images, slotCount) };
     }));
   };
 
+  // Without sources the images stay in slot order and trailing ones drop off
+  const handleChangePanelGeometry = (panelId: string, geometry: PanelGeometry, sources: SlotSources = getInitialSlotSources(countSlots(geometry))) => {
+    setPanels(describeSlotChange('Change panel layout', panelId, sources), prev => prev.map(panel =>
+      panel.id === panelId ? { ...panel, geometry, images: arrangeSlotImages(panel.images, sources) } : panel
+    ));
+  };
+
+  // --- Saved layouts ---
+
+  const handleSaveLayout = (name: string, geometry: PanelGeometry) => {
+    const layout = createSavedLayout(name, geometry);
+    updateProject('Save layout', p => ({ ...p, customLayouts: [...(p.customLayouts ?? []), layout] }));
+  };
+
+  const handleDeleteLayout = (id: string) => {
+    updateProject('Delete saved layout', p => ({ ...p, customLayouts: (p.customLayouts ?? []).filter(l => l.id !== id) }));
+  };
+
+  const handleApplySavedLayout = (panelId: string, layoutId: string) => {
+    const layout = customLayouts.find(l => l.id === layoutId);
+    if (layout) handleChangePanelGeometry(panelId, layout.geometry);
+  };
+
   const getLayoutClasses = () => {
     const gapClass = {
       'NONE': 'gap-0',
@@ -255,6 +1040,19 @@ const App: React.FC = () => {
   return (
     <div className="flex flex-col lg:flex-row min-h-screen bg-comic-dark text-white overflow-hidden">
       
+      {project && activePage && (
+        <PageNavigator
+          chapters={project.chapters}
+          activePageId={activePage.id}
+          onSelectPage={handleSelectPage}
+          onAddPage={handleAddPage}
+          onAddChapter={handleAddChapter}
+          onRenameChapter={handleRenameChapter}
+          onDeletePage={handleDeletePage}
+          onDeleteChapter={handleDeleteChapter}
+        />
+      )}
+
       <div className="flex-1 flex flex-col h-screen overflow-hidden relative">
         
         <header className="bg-comic-dark border-b border-gray-800 p-4 flex items-center justify-between z-20 shadow-lg">
@@ -268,10 +1066,52 @@ const App: React.FC = () => {
               </h1>
               <span className="text-[10px] text-gray-400 uppercase tracking-widest">AI Graphic Novel Tool</span>
             </div>
+            {project && (
+              <div className="ml-4">
+                <ProjectSwitcher
+                  project={project}
+                  projects={projectList}
+                  saveStatus={saveStatus}
+                  onSwitch={handleSwitchProject}
+                  onCreate={handleCreateProject}
+                  onRename={handleRenameProject}
+                  onDuplicate={handleDuplicateProject}
+                  onDelete={handleDeleteProject}
+                  onExport={handleExportProject}
+                  onImport={handleImportProject}
+                  onImportCbz={handleImportCbz}
+                  onExportScript={handleExportScript}
+                  onImportScript={handleImportScript}
+                />
+              </div>
+            )}
           </div>
           
            <div className="hidden md:flex items-center gap-4 text-sm text-gray-500 border-l border-gray-700 pl-4">
+              <HistoryControls
+                past={history.past}
+                future={history.future}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJump={(entryId) => dispatchHistory({ type: 'JUMP', entryId })}
+              />
+              <ProviderSwitcher />
+              <JobsPanel jobs={jobs} />
+              <OuttakesTray
+                outtakes={project?.outtakes ?? []}
+                canPlace={!!selectedPanelId && !!activeSlotId}
+                onPlace={handlePlaceOuttake}
+                onDelete={handleDeleteOuttake}
+              />
+              {activeLocation && <span>Page {activeLocation.pageNumber} of {pageLocations.length}</span>}
               <span>{panels.length} Panels</span>
+              <button
+                onClick={() => setIsExportOpen(true)}
+                disabled={!project}
+                className="px-3 py-2 rounded-lg bg-comic-accent text-white text-xs font-bold uppercase tracking-wider hover:bg-red-600 disabled:opacity-50 transition-colors"
+              >
+                Export
+              </button>
            </div>
         </header>
 
@@ -279,7 +1119,12 @@ const App: React.FC = () => {
           ref={gridRef}
           className="flex-1 overflow-y-auto bg-[#121212] scroll-smooth"
         >
-          {panels.length === 0 ? (
+          {!project ? (
+            <div className="h-full flex flex-col items-center justify-center text-gray-600 opacity-50">
+               <div className="w-12 h-12 border-4 border-gray-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+               <p className="font-comic text-2xl">Opening your workspace...</p>
+            </div>
+          ) : panels.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-gray-600 opacity-50">
                <svg className="w-32 h-32 mb-4 text-gray-700" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -298,24 +1143,106 @@ const App: React.FC = () => {
                   gridLayout={gridLayout}
                   onSelect={handlePanelSelect}
                   onSelectSlot={handleSlotSelect}
-                  onCaptionChange={handleUpdateCaption}
                   onDelete={handleDeletePanel}
-                  onToggleOverlay={handleToggleOverlay}
+                  slotJobs={slotJobs}
+                  onCancelJob={jobQueue.cancel}
+                  onOpenCandidates={(panelId, imageId) => setCandidateSlot({ panelId, imageId })}
+                  onUpdateBalloon={handleUpdateBalloon}
+                  editMask={mode === GenerationMode.EDIT && editMask?.panelId === panel.id ? editMask : null}
+                  onPaintMask={handlePaintMask}
+                  onMovePanel={handleMovePanel}
+                  onShiftPanel={handleShiftPanel}
+                  onDuplicatePanel={handleDuplicatePanel}
+                  onInsertPanel={handleInsertPanel}
+                  onSwapSlots={handleSwapSlots}
                 />
               ))}
             </div>
           )}
         </main>
 
-        {loadingState.isLoading && (
-          <div className="absolute inset-0 bg-black/80 z-50 flex flex-col items-center justify-center backdrop-blur-sm">
-            <div className="bg-comic-panel p-8 rounded-2xl border-4 border-comic-accent shadow-2xl flex flex-col items-center max-w-sm mx-4 text-center">
-              <div className="w-16 h-16 border-4 border-comic-yellow border-t-transparent rounded-full animate-spin mb-4"></div>
-              <h3 className="font-comic text-2xl text-white mb-2">Creating Magic</h3>
-              <p className="text-gray-300">{loadingState.message}</p>
-            </div>
-          </div>
+        {isExportOpen && project && (
+          <ExportDialog
+            projectName={project.name}
+            pages={pageLocations}
+            activePageId={activePage?.id ?? null}
+            metadata={project.metadata}
+            characters={characters}
+            onUpdateMetadata={(metadata) => updateProject('Edit comic info', p => ({ ...p, metadata }))}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        {candidateImage?.candidates && (
+          <CandidatePicker
+            candidates={candidateImage.candidates}
+            onChoose={handleChooseCandidate}
+            onClose={() => setCandidateSlot(null)}
+          />
+        )}
+
+        {scriptPremise !== null && (
+          <ScriptDialog
+            initialPremise={scriptPremise}
+            characters={characters}
+            columns={gridColumns[gridLayout]}
+            onWrite={handleWriteScript}
+            onAccept={handleAcceptScript}
+            onClose={() => setScriptPremise(null)}
+          />
+        )}
+
+        {styleLibraryBase !== null && (
+          <StyleLibraryDialog
+            presets={stylePresets}
+            baseStyle={styleLibraryBase}
+            busyPresetIds={busyStylePresetIds}
+            onCreate={handleCreateStylePreset}
+            onDuplicate={handleDuplicateStylePreset}
+            onUpdate={handleUpdateStylePreset}
+            onDelete={handleDeleteStylePreset}
+            onGenerateThumbnail={handleGenerateStyleThumbnail}
+            onClose={() => setStyleLibraryBase(null)}
+          />
+        )}
+
+        {inspectedPrompt && (
+          <PromptInspector
+            draft={inspectedPrompt.draft}
+            initialPrompt={inspectedPrompt.text}
+            targetLabel={describePromptTarget(inspectedPrompt.draft)}
+            onSend={(text) => {
+              sendPromptDraft(inspectedPrompt.draft, text);
+              setInspectedPrompt(null);
+            }}
+            onClose={() => setInspectedPrompt(null)}
+          />
+        )}
+
+        {layoutEditorPanel && (
+          <LayoutEditor
+            panel={layoutEditorPanel}
+            savedLayouts={customLayouts}
+            onApply={(geometry, sources) => {
+              handleChangePanelGeometry(layoutEditorPanel.id, geometry, sources);
+              setLayoutEditorPanelId(null);
+            }}
+            onSaveLayout={handleSaveLayout}
+            onDeleteLayout={handleDeleteLayout}
+            onClose={() => setLayoutEditorPanelId(null)}
+          />
+        )}
+
+        {batchFill && (
+          <BatchFillDialog
+            title={batchFill.scope === 'PANEL' ? 'Fill Empty Slots in Panel' : `Fill Empty Slots on Page ${activeLocation?.pageNumber ?? ''}`}
+            slots={batchFill.slots}
+            onPlan={handlePlanShots}
+            onQueue={handleQueueBatch}
+            onClose={() => setBatchFill(null)}
+          />
         )}
+
       </div>
 
       <Toolbox 
@@ -323,20 +1250,45 @@ const App: React.FC = () => {
         setMode={setMode}
         selectedPanel={selectedPanel}
         activeSlotId={activeSlotId}
-        isProcessing={loadingState.isLoading}
         onGenerate={handleGenerate}
         onEdit={handleEdit}
+        onInspectGenerate={handleInspectGenerate}
+        onInspectEdit={handleInspectEdit}
+        onRerunPrompt={handleRerunPrompt}
+        onForgetSketch={handleForgetSketch}
+        editMask={editMask?.imageId === activeSlotId ? editMask : null}
+        onToggleMaskPainting={handleToggleMaskPainting}
+        onExtendCanvas={handleExtendCanvas}
+        onChangeEditMask={(changes) => setEditMask(prev => prev && { ...prev, ...changes })}
+        onClearEditMask={() => setEditMask(null)}
         onNarrativeAssist={handleNarrativeAssist}
-        onUpdateCaption={handleUpdateCaption}
+        onAddBalloon={handleAddBalloon}
+        onUpdateBalloon={handleUpdateBalloon}
+        onMoveBalloon={handleMoveBalloon}
+        onDeleteBalloon={handleDeleteBalloon}
         onChangeSplitLayout={handleChangeSplitLayout}
+        customLayouts={customLayouts}
+        onApplySavedLayout={handleApplySavedLayout}
+        onOpenLayoutEditor={setLayoutEditorPanelId}
         onUpdatePanelSpan={handleUpdatePanelSpan}
-        onToggleOverlay={handleToggleOverlay}
+        onChangeAspectRatio={handleChangeAspectRatio}
+        onSelectImageVersion={handleSelectImageVersion}
         gutterSize={gutterSize}
         setGutterSize={setGutterSize}
-        panelsCount={panels.length}
-        lastPanelPrompt={getLastPanelPrompt()} 
+        panelsCount={project ? countPanels(project) : 0}
+        lastPanelPrompt={lastPanelContext?.prompt ?? ''}
+        pages={pageLocations}
+        activePageId={activePage?.id ?? null}
+        onMovePanelToPage={handleMovePanelToPage}
+        emptySlotCounts={emptySlotCounts}
+        onFillEmptySlots={handleFillEmptySlots}
+        onOpenScriptWriter={setScriptPremise}
         characters={characters}
         onUpdateCharacters={setCharacters}
+        onAddCharacterReferences={handleAddCharacterReferences}
+        onGenerateReferenceSheet={handleGenerateReferenceSheet}
+        stylePresets={stylePresets}
+        onOpenStyleLibrary={setStyleLibraryBase}
         gridLayout={gridLayout}
         setGridLayout={setGridLayout}
       />
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EmptySlot } from '../services/shotPlanService';
+import { isAbortError } from '../services/jobService';
+import { Button } from './Button';
+
+interface BatchFillDialogProps {
+  title: string;
+  slots: EmptySlot[];
+  /** Suggests one description per slot, in the same order */
+  onPlan: (slots: EmptySlot[]) => Promise<string[]>;
+  onQueue: (items: { slot: EmptySlot; prompt: string }[]) => void;
+  onClose: () => void;
+}
+
+interface DraftShot {
+  slot: EmptySlot;
+  prompt: string;
+  included: boolean;
+}
+
+export const BatchFillDialog: React.FC<BatchFillDialogProps> = ({ title, slots, onPlan, onQueue, onClose }) => {
+  const [drafts, setDrafts] = useState<DraftShot[]>(() => slots.map(slot => ({ slot, prompt: slot.prompt, included: true })));
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const isMounted = useRef(true);
+
+  // `keepWritten` leaves slots that already have a shot alone
+  const plan = async (keepWritten: boolean = false) => {
+    setIsPlanning(true);
+    setPlanError(null);
+    try {
+      const prompts = await onPlan(slots);
+      // The dialog may have been closed while the descriptions were being written
+      if (!isMounted.current) return;
+      setDrafts(prev => prev.map((draft, i) => ({ ...draft, prompt: (keepWritten && draft.prompt.trim()) || (prompts[i] ?? draft.prompt) })));
+    } catch (error) {
+      if (!isMounted.current || isAbortError(error)) return;
+      setPlanError('Could not suggest descriptions. Write them yourself or try again.');
+    } finally {
+      if (isMounted.current) setIsPlanning(false);
+    }
+  };
+
+  useEffect(() => {
+    isMounted.current = true;
+    // Slots from a page script come with their shots written; only plan the rest
+    if (slots.some(slot => !slot.prompt)) plan(true);
+    return () => { isMounted.current = false; };
+  }, []);
+
+  const updateDraft = (index: number, changes: Partial<DraftShot>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const ready = drafts.filter(draft => draft.included && draft.prompt.trim());
+
+  const handleQueue = () => {
+    if (ready.length === 0) return;
+    onQueue(ready.map(draft => ({ slot: draft.slot, prompt: draft.prompt.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-lg p-6 space-y-6 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">{title}</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {isPlanning
+              ? `Writing a shot for each of the ${slots.length} empty slot${slots.length === 1 ? '' : 's'}...`
+              : 'Review the descriptions before queueing. Untick a slot to leave it empty.'}
+          </p>
+        </div>
+
+        <div className="space-y-3 overflow-y-auto pr-1">
+          {drafts.map((draft, index) => (
+            <div key={draft.slot.imageId} className={`space-y-1 ${draft.included ? '' : 'opacity-50'}`}>
+              <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.included}
+                  onChange={(e) => updateDraft(index, { included: e.target.checked })}
+                  className="accent-comic-yellow"
+                />
+                {draft.slot.label}
+              </label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => updateDraft(index, { prompt: e.target.value })}
+                disabled={!draft.included}
+                placeholder={isPlanning ? 'Thinking...' : 'Describe the shot...'}
+                className="w-full h-20 bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-comic-yellow outline-none resize-none"
+              />
+            </div>
+          ))}
+        </div>
+
+        {planError && <p className="text-xs text-red-400">{planError}</p>}
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={handleQueue} disabled={ready.length === 0}>
+            Queue {ready.length} Generation{ready.length === 1 ? '' : 's'}
+          </Button>
+          <Button variant="ghost" onClick={() => plan()} isLoading={isPlanning} title="Ask for a fresh set of descriptions">
+            Rewrite Descriptions
+          </Button>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { ImageCandidate } from '../types';
+import { Button } from './Button';
+
+interface CandidatePickerProps {
+  candidates: ImageCandidate[];
+  /** The chosen candidate's id, or null to send them all to the outtakes */
+  onChoose: (candidateId: string | null) => void;
+  onClose: () => void;
+}
+
+export const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onChoose, onClose }) => {
+  const [pickedId, setPickedId] = useState<string>(candidates[0]?.id ?? '');
+  const prompt = candidates[0]?.prompt ?? '';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-3xl p-6 space-y-6 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Pick a Candidate</h3>
+          <p className="text-xs text-gray-500 mt-1 truncate" title={prompt}>{prompt}</p>
+        </div>
+
+        <div className={`grid gap-3 overflow-y-auto ${candidates.length > 2 ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-2'}`}>
+          {candidates.map((candidate, index) => (
+            <button
+              key={candidate.id}
+              type="button"
+              onClick={() => setPickedId(candidate.id)}
+              onDoubleClick={() => onChoose(candidate.id)}
+              className={`relative rounded-lg overflow-hidden border-4 bg-black transition-colors ${pickedId === candidate.id ? 'border-comic-yellow' : 'border-transparent hover:border-gray-500'}`}
+            >
+              <img src={candidate.url} alt={`Candidate ${index + 1}`} className="w-full aspect-square object-cover" />
+              <span className="absolute top-1 left-1 bg-black/70 text-white text-[10px] font-bold px-2 py-0.5 rounded">{index + 1}</span>
+            </button>
+          ))}
+        </div>
+
+        <p className="text-[10px] text-gray-500">The ones you don't pick go to the outtakes tray, where you can still use them later.</p>
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={() => onChoose(pickedId)} disabled={!pickedId}>
+            Use Candidate {candidates.findIndex(c => c.id === pickedId) + 1}
+          </Button>
+          <Button variant="ghost" onClick={() => onChoose(null)}>Keep None</Button>
+          <Button variant="ghost" onClick={onClose} title="Leave the candidates on the slot and decide later">Later</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
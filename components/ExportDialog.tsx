@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { PageLocation } from '../services/pageService';
+import { PAGE_BACKGROUNDS } from '../services/renderService';
+import { exportPagesAsPng, exportPagesAsPdf, exportWebtoonStrip, EXPORT_WIDTHS, WEBTOON_DEFAULTS, WebtoonOptions } from '../services/exportService';
+import { exportCbz, emptyMetadata } from '../services/cbzService';
+import { Character, ComicMetadata, GridLayout } from '../types';
+import { Button } from './Button';
+
+interface ExportDialogProps {
+  projectName: string;
+  pages: PageLocation[];
+  activePageId: string | null;
+  metadata?: ComicMetadata;
+  characters: Character[];
+  onUpdateMetadata: (metadata: ComicMetadata) => void;
+  onClose: () => void;
+}
+
+type ExportFormat = 'PNG' | 'PDF' | 'CBZ' | 'WEBTOON';
+type ExportScope = 'CURRENT' | 'ALL';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ projectName, pages, activePageId, metadata, characters, onUpdateMetadata, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('PDF');
+  const [scope, setScope] = useState<ExportScope>('ALL');
+  const [resolution, setResolution] = useState<keyof typeof EXPORT_WIDTHS>('PRINT');
+  const [background, setBackground] = useState<keyof typeof PAGE_BACKGROUNDS>('PAPER');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [details, setDetails] = useState<ComicMetadata>(metadata ?? emptyMetadata);
+  const [webtoon, setWebtoon] = useState<WebtoonOptions>(WEBTOON_DEFAULTS);
+
+  const scopedPages = scope === 'ALL' ? pages : pages.filter(loc => loc.page.id === activePageId);
+  // The webtoon strip is built from the pages laid out as a vertical scroll
+  const selectedPages = format === 'WEBTOON'
+    ? scopedPages.filter(loc => loc.page.gridLayout === GridLayout.VERTICAL && loc.page.panels.length > 0)
+    : scopedPages;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    if (selectedPages.length === 0) return;
+    const options = { width: EXPORT_WIDTHS[resolution], background: PAGE_BACKGROUNDS[background] };
+    const onProgress = (done: number, total: number) => setProgress({ done, total });
+    setProgress({ done: 0, total: selectedPages.length });
+    try {
+      if (format === 'PNG') {
+        await exportPagesAsPng(selectedPages, projectName, options, onProgress);
+      } else if (format === 'CBZ') {
+        if (JSON.stringify(details) !== JSON.stringify(metadata ?? emptyMetadata)) {
+          onUpdateMetadata(details);
+        }
+        await exportCbz(selectedPages, projectName, details, characters, options, onProgress);
+      } else if (format === 'WEBTOON') {
+        await exportWebtoonStrip(selectedPages, projectName, webtoon, onProgress);
+      } else {
+        await exportPagesAsPdf(selectedPages, projectName, options, onProgress);
+      }
+      onClose();
+    } catch (error) {
+      console.error(error);
+      alert('Failed to export pages.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const renderOption = <T extends string>(value: T, current: T, setter: (value: T) => void, label: string) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => setter(value)}
+      disabled={isExporting}
+      className={`py-3 px-2 text-xs font-bold rounded-lg border transition-colors ${current === value ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderField = (key: Exclude<keyof ComicMetadata, 'summary'>, placeholder: string, className = '') => (
+    <input
+      type="text"
+      value={details[key]}
+      onChange={(e) => setDetails({ ...details, [key]: e.target.value })}
+      disabled={isExporting}
+      placeholder={placeholder}
+      className={`bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-comic-yellow outline-none ${className}`}
+    />
+  );
+
+  const renderNumberField = (key: 'width' | 'maxSliceHeight', label: string, min: number, max: number) => (
+    <label className="block">
+      <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={webtoon[key]}
+        onChange={(e) => setWebtoon({ ...webtoon, [key]: Number(e.target.value) })}
+        onBlur={() => setWebtoon({ ...webtoon, [key]: Math.min(max, Math.max(min, webtoon[key] || min)) })}
+        disabled={isExporting}
+        className="w-full bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-comic-yellow outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={() => !isExporting && onClose()}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-md p-6 space-y-6" onClick={(e) => e.stopPropagation()}>
+        <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Export Pages</h3>
+
+        <div>
+          <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Format</label>
+          <div className="grid grid-cols-2 gap-2">
+            {renderOption<ExportFormat>('PDF', format, setFormat, 'PDF (one file)')}
+            {renderOption<ExportFormat>('PNG', format, setFormat, 'PNG (per page)')}
+            {renderOption<ExportFormat>('CBZ', format, setFormat, 'CBZ (comic apps)')}
+            {renderOption<ExportFormat>('WEBTOON', format, setFormat, 'Webtoon Strip')}
+          </div>
+        </div>
+
+        {format === 'CBZ' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Comic Info</label>
+            <div className="grid grid-cols-3 gap-2">
+              {renderField('series', 'Series', 'col-span-2')}
+              {renderField('issueNumber', 'Issue #')}
+              {renderField('writer', 'Writer', 'col-span-3 sm:col-span-1')}
+              {renderField('artist', 'Artist', 'col-span-3 sm:col-span-2')}
+            </div>
+            <textarea
+              value={details.summary}
+              onChange={(e) => setDetails({ ...details, summary: e.target.value })}
+              disabled={isExporting}
+              placeholder="Summary"
+              className="w-full h-16 bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-comic-yellow outline-none resize-none"
+            />
+            <p className="text-[10px] text-gray-500">
+              Title, page count and character names ({characters.filter(c => c.name.trim()).length}) are filled in automatically.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Pages</label>
+          <div className="grid grid-cols-2 gap-2">
+            {renderOption<ExportScope>('ALL', scope, setScope, `All (${pages.length})`)}
+            {renderOption<ExportScope>('CURRENT', scope, setScope, 'Current Page')}
+          </div>
+        </div>
+
+        {format === 'WEBTOON' ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              {renderNumberField('width', 'Strip Width', 320, 2000)}
+              {renderNumberField('maxSliceHeight', 'Max Slice Height', 400, 20000)}
+              <label className="block">
+                <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Gap Colour</span>
+                <input
+                  type="color"
+                  value={webtoon.background}
+                  onChange={(e) => setWebtoon({ ...webtoon, background: e.target.value })}
+                  disabled={isExporting}
+                  className="w-full h-9 bg-black/30 border border-gray-600 rounded-lg cursor-pointer"
+                />
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {selectedPages.length === 0
+                ? 'No pages in this selection use the Vertical (webtoon) layout.'
+                : `Stitches ${selectedPages.length} vertical page${selectedPages.length === 1 ? '' : 's'} into one strip, cut into slices at the gutters where possible.`}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Resolution</label>
+              <div className="grid grid-cols-2 gap-2">
+                {renderOption<keyof typeof EXPORT_WIDTHS>('PRINT', resolution, setResolution, `Print (${EXPORT_WIDTHS.PRINT}px)`)}
+                {renderOption<keyof typeof EXPORT_WIDTHS>('SCREEN', resolution, setResolution, `Screen (${EXPORT_WIDTHS.SCREEN}px)`)}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Page Background</label>
+              <div className="grid grid-cols-2 gap-2">
+                {renderOption<keyof typeof PAGE_BACKGROUNDS>('PAPER', background, setBackground, 'Paper White')}
+                {renderOption<keyof typeof PAGE_BACKGROUNDS>('SCREEN', background, setBackground, 'Screen Dark')}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={handleExport} isLoading={isExporting} disabled={selectedPages.length === 0}>
+            {isExporting ? `Rendering ${Math.min(progress!.done + 1, progress!.total)} / ${progress!.total}` : 'Export'}
+          </Button>
+          <Button variant="ghost" onClick={onClose} disabled={isExporting}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { ExtendDirection, extendDirectionLabels, fitsAspectRatio, getExtendDirections } from '../services/outpaintService';
+import { loadImage } from '../services/renderService';
+
+interface ExtendCanvasControlsProps {
+  imageUrl: string;
+  slotAspectRatio: number; // Width / height of the slot the image fills
+  onExtend: (direction: ExtendDirection) => void;
+}
+
+const directionIcons: Record<ExtendDirection, string> = {
+  'LEFT': '←',
+  'RIGHT': '→',
+  'UP': '↑',
+  'DOWN': '↓',
+  'ALL': '⤢',
+};
+
+/**
+ * Offers the directions an image can be extended in to fill its slot, once
+ * the image's own size is known
+ */
+export const ExtendCanvasControls: React.FC<ExtendCanvasControlsProps> = ({ imageUrl, slotAspectRatio, onExtend }) => {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageSize(null);
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  if (!imageSize) return null;
+  const { width, height } = imageSize;
+  const fits = fitsAspectRatio(width, height, slotAspectRatio);
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
+        Extend Canvas
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {getExtendDirections(width, height, slotAspectRatio).map(direction => (
+          <button
+            key={direction}
+            type="button"
+            onClick={() => onExtend(direction)}
+            className="flex-1 px-3 py-2 text-xs font-bold rounded-lg border border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5 hover:text-white transition-colors whitespace-nowrap"
+          >
+            {directionIcons[direction]} {extendDirectionLabels[direction]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        {fits
+          ? 'The image fits its slot. Extending zooms out by painting more of the scene around it.'
+          : `The image is ${slotAspectRatio > width / height ? 'narrower' : 'wider'} than its slot and gets cropped. Extending fills the slot's shape; the original pixels are kept.`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { HistoryEntry } from '../services/historyService';
+
+interface HistoryControlsProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (entryId: string | null) => void;
+}
+
+export const HistoryControls: React.FC<HistoryControlsProps> = ({
+  past,
+  future,
+  onUndo,
+  onRedo,
+  onJump
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const lastUndo = past[past.length - 1];
+  const nextRedo = future[0];
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-1">
+      <button
+        onClick={onUndo}
+        disabled={!lastUndo}
+        className="p-2 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title={lastUndo ? `Undo ${lastUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!nextRedo}
+        className="p-2 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3l3 2.7"/></svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1 rounded-lg text-xs font-bold text-gray-400 uppercase tracking-wider hover:bg-white/10 hover:text-gray-200 transition-colors"
+        title="Edit history"
+      >
+        History
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-comic-panel border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden animate-fade-in">
+          <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest border-b border-gray-700">Edit History</div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            {/* Redo-able entries are shown greyed out above the current state, newest on top */}
+            {[...future].reverse().map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => onJump(entry.id)}
+                className="w-full px-3 py-2 text-left flex items-center justify-between gap-2 text-gray-600 hover:bg-white/5 italic"
+              >
+                <span className="text-sm truncate">{entry.label}</span>
+                <span className="text-[10px] whitespace-nowrap">{formatTime(entry.timestamp)}</span>
+              </button>
+            ))}
+            {[...past].reverse().map((entry, index) => (
+              <button
+                key={entry.id}
+                onClick={() => onJump(entry.id)}
+                className={`w-full px-3 py-2 text-left flex items-center justify-between gap-2 hover:bg-white/10 ${index === 0 ? 'text-comic-yellow font-bold' : 'text-gray-300'}`}
+              >
+                <span className="text-sm truncate">{entry.label}</span>
+                <span className="text-[10px] text-gray-500 whitespace-nowrap">{formatTime(entry.timestamp)}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => onJump(null)}
+              className={`w-full px-3 py-2 text-left text-sm hover:bg-white/10 ${past.length === 0 ? 'text-comic-yellow font-bold' : 'text-gray-500'}`}
+            >
+              Opened project
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
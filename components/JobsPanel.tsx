@@ -0,0 +1,131 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Job, JobStatus, jobQueue, setJobConcurrency, MAX_CONCURRENCY } from '../services/jobService';
+
+interface JobsPanelProps {
+  jobs: Job[];
+}
+
+const statusStyles: Record<JobStatus, { label: string; className: string }> = {
+  'RUNNING': { label: 'Running', className: 'text-comic-yellow' },
+  'RETRYING': { label: 'Retrying', className: 'text-orange-400' },
+  'PENDING': { label: 'Queued', className: 'text-gray-400' },
+  'FAILED': { label: 'Failed', className: 'text-red-400' },
+  'CANCELLED': { label: 'Cancelled', className: 'text-gray-500' },
+  'DONE': { label: 'Done', className: 'text-green-400' },
+};
+
+// Active work first, then failures that need attention, then the rest
+const statusOrder: JobStatus[] = ['RUNNING', 'RETRYING', 'PENDING', 'FAILED', 'CANCELLED', 'DONE'];
+
+export const JobsPanel: React.FC<JobsPanelProps> = ({ jobs }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [concurrency, setConcurrency] = useState(jobQueue.getConcurrency());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const activeCount = jobs.filter(j => j.status === 'RUNNING' || j.status === 'RETRYING' || j.status === 'PENDING').length;
+  const failedCount = jobs.filter(j => j.status === 'FAILED').length;
+  const hasFinished = jobs.some(j => j.status === 'DONE' || j.status === 'FAILED' || j.status === 'CANCELLED');
+  const sorted = [...jobs].sort((a, b) =>
+    statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || b.createdAt - a.createdAt
+  );
+
+  const handleConcurrencyChange = (value: number) => {
+    setJobConcurrency(value);
+    setConcurrency(jobQueue.getConcurrency());
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-2 py-1 rounded-lg text-xs font-bold uppercase tracking-wider hover:bg-white/10 transition-colors ${failedCount > 0 ? 'text-red-400' : activeCount > 0 ? 'text-comic-yellow' : 'text-gray-400 hover:text-gray-200'}`}
+        title="Background jobs"
+      >
+        {activeCount > 0 && <span className="w-3 h-3 border-2 border-comic-yellow border-t-transparent rounded-full animate-spin"></span>}
+        Jobs
+        {(activeCount > 0 || failedCount > 0) && (
+          <span className="bg-black/40 px-1.5 rounded">{activeCount > 0 ? activeCount : `${failedCount} failed`}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-comic-panel border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden animate-fade-in">
+          <div className="px-3 py-2 flex items-center justify-between border-b border-gray-700">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Background Jobs</span>
+            <label className="flex items-center gap-1 text-[10px] text-gray-500 uppercase tracking-wider">
+              Run at once
+              <select
+                value={concurrency}
+                onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                className="bg-black/30 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300 outline-none"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto py-1">
+            {sorted.length === 0 ? (
+              <p className="px-3 py-3 text-xs text-gray-500">No jobs yet. Generations and edits run here in the background.</p>
+            ) : (
+              sorted.map(job => {
+                const isActive = job.status === 'RUNNING' || job.status === 'RETRYING' || job.status === 'PENDING';
+                const canRetry = job.status === 'FAILED' || job.status === 'CANCELLED';
+                return (
+                  <div key={job.id} className="px-3 py-2 flex items-start justify-between gap-2 hover:bg-white/5">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-300 truncate" title={job.label}>{job.label}</p>
+                      <p className={`text-[10px] font-bold uppercase tracking-wider ${statusStyles[job.status].className}`}>
+                        {statusStyles[job.status].label}
+                        {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                      </p>
+                      {job.error && job.status !== 'DONE' && (
+                        <p className="text-[10px] text-gray-500 truncate" title={job.error}>{job.error}</p>
+                      )}
+                    </div>
+                    {isActive && (
+                      <button onClick={() => jobQueue.cancel(job.id)} className="text-[10px] font-bold uppercase px-2 py-1 rounded text-gray-400 hover:bg-white/10 hover:text-white">Cancel</button>
+                    )}
+                    {canRetry && (
+                      <button onClick={() => jobQueue.retry(job.id)} className="text-[10px] font-bold uppercase px-2 py-1 rounded text-gray-400 hover:bg-white/10 hover:text-white">Retry</button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {(activeCount > 0 || hasFinished) && (
+            <div className="grid grid-cols-2 gap-1 p-2 border-t border-gray-700">
+              <button
+                onClick={jobQueue.cancelAll}
+                disabled={activeCount === 0}
+                className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 text-left"
+              >
+                Cancel All
+              </button>
+              <button
+                onClick={jobQueue.clearFinished}
+                disabled={!hasFinished}
+                className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 text-left"
+              >
+                Clear Finished
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useState, useRef, useId } from 'react';
+import { ComicPanel, PanelGeometry, PanelSplitLayout, SavedLayout, SplitDirection } from '../types';
+import { aspectRatioValues, countSlots, getGeometrySlots, getPanelGeometry, insetSlot, presetGeometries, splitLayouts, Point } from '../services/layoutService';
+import {
+  SplitHandle, PolygonVertex, getSplitHandles, moveSplitHandle, getPolygonVertices, moveVertex, constrainVertex,
+  splitSlot, removeSlot, toPolygons, slantedStarters, SlotSources, getInitialSlotSources, splitSlotSources,
+  removeSlotSources, fitSlotSources,
+} from '../services/geometryService';
+import { Button } from './Button';
+
+interface LayoutEditorProps {
+  panel: ComicPanel;
+  savedLayouts: SavedLayout[];
+  onApply: (geometry: PanelGeometry, sources: SlotSources) => void;
+  onSaveLayout: (name: string, geometry: PanelGeometry) => void;
+  onDeleteLayout: (id: string) => void;
+  onClose: () => void;
+}
+
+// What's being dragged: a split line, or a corner of the slanted slots
+type LayoutDrag = ({ type: 'HANDLE'; handle: SplitHandle } | { type: 'CORNER'; vertex: PolygonVertex }) & {
+  start: PanelGeometry; // Becomes the undo step if the drag changed anything
+};
+
+// One undo step; drags only change the geometry, but splits and removals move images between slots
+interface EditorStep {
+  geometry: PanelGeometry;
+  sources: SlotSources;
+}
+
+// The preview's height in SVG units; its width follows the panel's aspect ratio
+const VIEW_HEIGHT = 400;
+
+const layoutLabel = (layout: PanelSplitLayout) => layout.replace('_', ' ').toLowerCase();
+
+const chipClasses = 'px-3 py-1.5 text-xs font-bold rounded-lg border border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5 hover:text-white transition-colors capitalize';
+
+/**
+ * Edits a panel's interior: split slots, drag the lines between them, or
+ * slant them and drag their corners. Nothing changes in the project until
+ * the layout is applied.
+ */
+export const LayoutEditor: React.FC<LayoutEditorProps> = ({ panel, savedLayouts, onApply, onSaveLayout, onDeleteLayout, onClose }) => {
+  const [geometry, setGeometry] = useState<PanelGeometry>(() => getPanelGeometry(panel));
+  const [sources, setSources] = useState<SlotSources>(() => getInitialSlotSources(countSlots(getPanelGeometry(panel))));
+  const [past, setPast] = useState<EditorStep[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState(0);
+  const [layoutName, setLayoutName] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<LayoutDrag | null>(null);
+  const clipPrefix = useId();
+
+  const viewWidth = VIEW_HEIGHT * aspectRatioValues[panel.aspectRatio];
+  const slots = getGeometrySlots(geometry);
+  const slotCount = slots.length;
+  const droppedImages = panel.images.filter((img, index) => img.url && !sources.includes(index)).length;
+  const removed = removeSlot(geometry, selectedSlot);
+
+  // Every change can be undone while the editor is open; a drag is one step.
+  // Without new sources the images are taken in slot order.
+  const change = (next: PanelGeometry, nextSources: SlotSources = fitSlotSources(sources, countSlots(next))) => {
+    if (next === geometry) return;
+    setPast(prev => [...prev, { geometry, sources }]);
+    setGeometry(next);
+    setSources(nextSources);
+    setSelectedSlot(index => Math.min(index, countSlots(next) - 1));
+  };
+
+  const undo = () => {
+    const step = past[past.length - 1];
+    if (!step) return;
+    setGeometry(step.geometry);
+    setSources(step.sources);
+    setPast(prev => prev.slice(0, -1));
+    setSelectedSlot(index => Math.min(index, countSlots(step.geometry) - 1));
+  };
+
+  const toFraction = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (e: React.PointerEvent, next: LayoutDrag) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    drag.current = next;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const point = toFraction(e);
+    if (current.type === 'HANDLE') {
+      setGeometry(prev => moveSplitHandle(prev, current.handle, current.handle.direction === 'ROW' ? point.x : point.y));
+      return;
+    }
+    // The corner follows the pointer only while every slot stays usable
+    const next = moveVertex(geometry, current.vertex, point);
+    if (next === geometry) return;
+    drag.current = { ...current, vertex: { ...current.vertex, point: constrainVertex(current.vertex, point) } };
+    setGeometry(next);
+  };
+
+  const handlePointerUp = () => {
+    const start = drag.current?.start;
+    drag.current = null;
+    if (start && start !== geometry) setPast(prev => [...prev, { geometry: start, sources }]);
+  };
+
+  const handleSave = () => {
+    if (!layoutName.trim()) return;
+    onSaveLayout(layoutName, geometry);
+    setLayoutName('');
+  };
+
+  const renderSlot = (index: number) => {
+    const { rect, polygon } = insetSlot(slots[index], viewWidth, VIEW_HEIGHT);
+    const source = sources[index];
+    const image = source === null || source === undefined ? undefined : panel.images[source];
+    const isSelected = index === selectedSlot;
+    const clipId = `${clipPrefix}-slot-${index}`;
+    const shape = polygon
+      ? <polygon points={polygon.map(p => `${p.x},${p.y}`).join(' ')} />
+      : <rect x={rect.x} y={rect.y} width={rect.w} height={rect.h} />;
+    return (
+      <g key={index} onPointerDown={(e) => e.button === 0 && setSelectedSlot(index)} className="cursor-pointer">
+        <clipPath id={clipId}>{shape}</clipPath>
+        <g clipPath={`url(#${clipId})`}>
+          <rect x={rect.x} y={rect.y} width={rect.w} height={rect.h} className={image?.url ? 'fill-white' : 'fill-gray-700'} />
+          {image?.url && (
+            <image href={image.url} x={rect.x} y={rect.y} width={rect.w} height={rect.h} preserveAspectRatio="xMidYMid slice" opacity={0.6} />
+          )}
+          {/* Clipped to the slot, so only the inner half of the stroke shows */}
+          {isSelected && React.cloneElement(shape, { fill: 'none', strokeWidth: 8, className: 'stroke-comic-yellow' })}
+        </g>
+        <text
+          x={rect.x + rect.w / 2}
+          y={rect.y + rect.h / 2}
+          textAnchor="middle"
+          dominantBaseline="central"
+          className={`font-comic text-3xl pointer-events-none ${isSelected ? 'fill-comic-yellow' : 'fill-gray-400'}`}
+        >
+          {index + 1}
+        </text>
+      </g>
+    );
+  };
+
+  const renderHandle = (handle: SplitHandle) => {
+    const { area, position } = handle;
+    const isRow = handle.direction === 'ROW';
+    const line = isRow
+      ? { x1: position * viewWidth, x2: position * viewWidth, y1: area.y * VIEW_HEIGHT, y2: (area.y + area.h) * VIEW_HEIGHT }
+      : { x1: area.x * viewWidth, x2: (area.x + area.w) * viewWidth, y1: position * VIEW_HEIGHT, y2: position * VIEW_HEIGHT };
+    return (
+      <g key={`${handle.path.join('.')}:${handle.boundary}`} className={`group ${isRow ? 'cursor-col-resize' : 'cursor-row-resize'}`} onPointerDown={(e) => startDrag(e, { type: 'HANDLE', handle, start: geometry })}>
+        <line {...line} stroke="transparent" strokeWidth={16} />
+        <line {...line} strokeWidth={3} strokeDasharray="6 4" className="stroke-comic-accent opacity-60 group-hover:opacity-100" />
+      </g>
+    );
+  };
+
+  const renderVertex = (vertex: PolygonVertex, index: number) => (
+    <circle
+      key={index}
+      cx={vertex.point.x * viewWidth}
+      cy={vertex.point.y * VIEW_HEIGHT}
+      r={7}
+      className="fill-comic-accent stroke-white cursor-move"
+      strokeWidth={2}
+      onPointerDown={(e) => startDrag(e, { type: 'CORNER', vertex, start: geometry })}
+    />
+  );
+
+  const splitButton = (direction: SplitDirection, label: string) => (
+    <Button type="button" variant="ghost" className="flex-1 border border-gray-600 text-xs" onClick={() => change(splitSlot(geometry, selectedSlot, direction), splitSlotSources(sources, selectedSlot))}>
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-5xl p-6 max-h-full flex flex-col gap-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Panel Layout</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {geometry.kind === 'SPLITS'
+              ? 'Click a slot to split or remove it, and drag the lines between slots to resize them.'
+              : 'Drag the corners to slant the cuts. Corners on the panel edge slide along it.'}
+          </p>
+        </div>
+
+        <div className="flex gap-6 min-h-0 flex-1">
+          <div className="flex-1 min-w-0 flex items-center justify-center bg-black/30 rounded-xl p-4">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${viewWidth} ${VIEW_HEIGHT}`}
+              className="bg-black touch-none select-none"
+              style={{ aspectRatio: aspectRatioValues[panel.aspectRatio], width: `min(100%, ${60 * aspectRatioValues[panel.aspectRatio]}vh)`, height: 'auto' }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {slots.map((_, index) => renderSlot(index))}
+              {getSplitHandles(geometry).map(renderHandle)}
+              {getPolygonVertices(geometry).map(renderVertex)}
+            </svg>
+          </div>
+
+          <div className="w-64 shrink-0 space-y-5 overflow-y-auto">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Slot {selectedSlot + 1}</label>
+              <div className="flex gap-2">
+                {splitButton('ROW', 'Split Side by Side')}
+                {splitButton('COLUMN', 'Split Stacked')}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full mt-2 border border-gray-600 text-xs"
+                onClick={() => removed && change(removed, removeSlotSources(sources, selectedSlot))}
+                disabled={!removed}
+                title={removed ? undefined : 'No neighbour can take this slot\'s space'}
+              >
+                Remove Slot
+              </Button>
+              {geometry.kind === 'SPLITS' && (
+                <Button type="button" variant="ghost" className="w-full mt-2 border border-gray-600 text-xs" onClick={() => change(toPolygons(geometry), sources)}>
+                  Make Slanted
+                </Button>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Start From</label>
+              <div className="flex flex-wrap gap-2">
+                {splitLayouts.map(layout => (
+                  <button key={layout} type="button" className={chipClasses} onClick={() => change(presetGeometries[layout])}>
+                    {layoutLabel(layout)}
+                  </button>
+                ))}
+                {slantedStarters.map(starter => (
+                  <button key={starter.name} type="button" className={chipClasses} onClick={() => change(starter.geometry)}>
+                    {starter.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Saved Layouts</label>
+              {savedLayouts.length > 0 ? (
+                <div className="space-y-1 mb-3">
+                  {savedLayouts.map(layout => (
+                    <div key={layout.id} className="flex items-center gap-2">
+                      <button type="button" className={`${chipClasses} flex-1 text-left normal-case truncate`} onClick={() => change(layout.geometry)}>
+                        {layout.name} <span className="text-gray-500 font-normal">({countSlots(layout.geometry)})</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDeleteLayout(layout.id)}
+                        className="text-gray-500 hover:text-comic-accent text-sm px-1"
+                        title={`Delete ${layout.name}`}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-[10px] text-gray-500 mb-3">Save a layout to reuse it on other panels.</p>
+              )}
+              <div className="flex gap-2">
+                <input
+                  value={layoutName}
+                  onChange={(e) => setLayoutName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  placeholder="Layout name"
+                  className="flex-1 min-w-0 bg-black/50 border border-gray-600 rounded-lg px-2 py-1 text-xs text-white focus:border-blue-500 outline-none"
+                />
+                <Button type="button" variant="ghost" className="border border-gray-600 text-xs" onClick={handleSave} disabled={!layoutName.trim()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {droppedImages > 0 && (
+          <p className="text-xs text-comic-accent">
+            This layout has {slotCount} slot{slotCount === 1 ? '' : 's'}; applying it removes {droppedImages} image{droppedImages === 1 ? '' : 's'} whose slot{droppedImages === 1 ? ' is' : 's are'} gone. You can undo it afterwards.
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={() => onApply(geometry, sources)}>
+            Apply
+          </Button>
+          <Button variant="ghost" onClick={undo} disabled={past.length === 0}>Undo</Button>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
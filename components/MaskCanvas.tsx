@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SketchStroke } from '../services/sketchService';
+import { EditMask, drawMask, drawMaskStroke } from '../services/maskService';
+import { loadImage } from '../services/renderService';
+
+interface MaskCanvasProps {
+  imageUrl: string; // The slot's image, which the mask is painted in the pixels of
+  mask: EditMask;
+  onStroke?: (stroke: SketchStroke, size: { width: number; height: number }) => void; // Without it the mask is only shown
+}
+
+/**
+ * Paints a mask over a slot. The canvas is the size of the image and covers
+ * the slot the same way the image does, so strokes land on the pixels under them.
+ */
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, mask, onStroke }) => {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const currentStroke = useRef<SketchStroke | null>(null);
+  // A mask keeps the size it was started at, even once the slot shows another version
+  const size = mask.width > 0 ? { width: mask.width, height: mask.height } : imageSize;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawMask(ctx, mask.strokes, mask.invert);
+  }, [mask.strokes, mask.invert, size?.width, size?.height]);
+
+  // Undoes the object-cover crop: client position to image pixels, and the scale between them
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.max(rect.width / size!.width, rect.height / size!.height);
+    return {
+      scale,
+      point: {
+        x: (e.clientX - rect.left - (rect.width - size!.width * scale) / 2) / scale,
+        y: (e.clientY - rect.top - (rect.height - size!.height * scale) / 2) / scale,
+      },
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0 || !size || !onStroke) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { scale, point } = toImagePoint(e);
+    currentStroke.current = { tool: mask.tool, width: mask.brushSize / scale, points: [point] };
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawMaskStroke(ctx, currentStroke.current, mask.invert);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    const last = stroke.points[stroke.points.length - 1];
+    const { point } = toImagePoint(e);
+    stroke.points.push(point);
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawMaskStroke(ctx, { ...stroke, points: [last, point] }, mask.invert);
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStroke.current;
+    if (!stroke || !size) return;
+    currentStroke.current = null;
+    onStroke?.(stroke, size);
+  };
+
+  if (!size) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(e) => onStroke && e.stopPropagation()}
+      className={`absolute inset-0 w-full h-full object-cover opacity-50 z-10 touch-none ${!onStroke ? 'pointer-events-none' : mask.tool === 'ERASER' ? 'cursor-cell' : 'cursor-crosshair'}`}
+    />
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageCandidate } from '../types';
+
+interface OuttakesTrayProps {
+  outtakes: ImageCandidate[];
+  canPlace: boolean; // A slot is selected to receive an outtake
+  onPlace: (outtakeId: string) => void;
+  onDelete: (outtakeId: string) => void;
+}
+
+export const OuttakesTray: React.FC<OuttakesTrayProps> = ({ outtakes, canPlace, onPlace, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2 py-1 rounded-lg text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-gray-200 hover:bg-white/10 transition-colors"
+        title="Rejected candidates kept for later"
+      >
+        Outtakes
+        {outtakes.length > 0 && <span className="bg-black/40 px-1.5 rounded">{outtakes.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-comic-panel border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden animate-fade-in">
+          <div className="px-3 py-2 border-b border-gray-700">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Outtakes</span>
+            <p className="text-[10px] text-gray-500">{canPlace ? 'Use one to add it as a new version of the selected slot.' : 'Select a slot to use an outtake in it.'}</p>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-2">
+            {outtakes.length === 0 ? (
+              <p className="px-1 py-2 text-xs text-gray-500">No outtakes yet. Candidates you don't pick end up here.</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {outtakes.map(outtake => (
+                  <div key={outtake.id} className="group/outtake relative rounded-lg overflow-hidden bg-black border border-gray-700">
+                    <img src={outtake.url} alt={outtake.prompt} title={outtake.prompt} className="w-full aspect-square object-cover" />
+                    <div className="absolute inset-x-0 bottom-0 flex opacity-0 group-hover/outtake:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => onPlace(outtake.id)}
+                        disabled={!canPlace}
+                        className="flex-1 py-1 text-[10px] font-bold uppercase bg-comic-yellow text-black disabled:opacity-40"
+                      >
+                        Use
+                      </button>
+                      <button
+                        onClick={() => onDelete(outtake.id)}
+                        className="px-2 py-1 text-[10px] font-bold uppercase bg-red-900 text-red-200 hover:bg-red-800"
+                        title="Delete outtake"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
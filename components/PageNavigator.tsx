@@ -0,0 +1,108 @@
+import React from 'react';
+import { Chapter } from '../types';
+
+interface PageNavigatorProps {
+  chapters: Chapter[];
+  activePageId: string;
+  onSelectPage: (pageId: string) => void;
+  onAddPage: (chapterId: string) => void;
+  onAddChapter: () => void;
+  onRenameChapter: (chapterId: string, title: string) => void;
+  onDeletePage: (pageId: string) => void;
+  onDeleteChapter: (chapterId: string) => void;
+}
+
+export const PageNavigator: React.FC<PageNavigatorProps> = ({
+  chapters,
+  activePageId,
+  onSelectPage,
+  onAddPage,
+  onAddChapter,
+  onRenameChapter,
+  onDeletePage,
+  onDeleteChapter
+}) => {
+  const totalPages = chapters.reduce((total, chapter) => total + chapter.pages.length, 0);
+  let pageNumber = 0;
+
+  return (
+    <aside className="bg-comic-dark border-r border-gray-800 w-full lg:w-56 flex-shrink-0 flex flex-col max-h-[30vh] lg:max-h-none lg:h-screen overflow-y-auto">
+      <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+        <span className="text-sm font-bold text-gray-300 uppercase tracking-wider">Pages</span>
+        <span className="text-[10px] text-gray-500 uppercase tracking-widest">{totalPages} total</span>
+      </div>
+
+      <div className="flex-1 p-3 space-y-5">
+        {chapters.map(chapter => (
+          <div key={chapter.id} className="space-y-2">
+            <div className="flex items-center gap-1 group">
+              <input
+                value={chapter.title}
+                onChange={(e) => onRenameChapter(chapter.id, e.target.value)}
+                placeholder="Chapter title"
+                className="flex-1 min-w-0 bg-transparent text-xs font-bold text-comic-yellow uppercase tracking-wider focus:outline-none focus:bg-black/30 rounded px-1 py-1"
+              />
+              {chapters.length > 1 && (
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${chapter.title || 'this chapter'}" and all of its pages?`)) onDeleteChapter(chapter.id);
+                  }}
+                  className="text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete Chapter"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              {chapter.pages.map(page => {
+                pageNumber += 1;
+                const isActive = page.id === activePageId;
+                return (
+                  <div
+                    key={page.id}
+                    onClick={() => onSelectPage(page.id)}
+                    className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg cursor-pointer group/page transition-colors ${isActive ? 'bg-comic-accent text-white' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'}`}
+                  >
+                    <span className="font-comic text-lg tracking-wide">Page {pageNumber}</span>
+                    <span className="flex items-center gap-2">
+                      <span className={`text-[10px] ${isActive ? 'text-white/80' : 'text-gray-500'}`}>{page.panels.length} panels</span>
+                      {totalPages > 1 && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (page.panels.length === 0 || window.confirm(`Delete page ${pageNumber} and its panels?`)) onDeletePage(page.id);
+                          }}
+                          className="opacity-0 group-hover/page:opacity-100 hover:text-red-300 transition-opacity"
+                          title="Delete Page"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => onAddPage(chapter.id)}
+                className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-xs font-bold text-gray-500 hover:text-gray-300 hover:border-gray-500 transition-colors"
+              >
+                + Add Page
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-gray-800">
+        <button
+          onClick={onAddChapter}
+          className="w-full py-2 rounded-lg bg-black/30 text-xs font-bold text-gray-300 uppercase tracking-wider hover:bg-white/10 transition-colors"
+        >
+          + New Chapter
+        </button>
+      </div>
+    </aside>
+  );
+};
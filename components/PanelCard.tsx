@@ -1,5 +1,16 @@
-import React from 'react';
-import { ComicPanel, PanelSplitLayout, GridLayout } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Balloon, BalloonPosition, ComicPanel, GridLayout } from '../types';
+import { getPanelSlots, getEffectiveColSpan, insetSlot, SLOT_GAP, Point } from '../services/layoutService';
+import { Job, JobTarget } from '../services/jobService';
+import { PanelSide } from '../services/panelService';
+import {
+  BalloonSide, getBalloonSides, getFlowBalloons, getSoundEffects, getPlacedBalloons, getPlacedSide, getTailShape,
+  getDefaultTail, canHaveTail, clampBalloonPosition, clampTail, toAreaRect, TailShape,
+} from '../services/balloonService';
+import { SOUND_EFFECT_SPACING } from '../services/renderService';
+import { EditMask } from '../services/maskService';
+import { SketchStroke } from '../services/sketchService';
+import { MaskCanvas } from './MaskCanvas';
 
 interface PanelCardProps {
   panel: ComicPanel;
@@ -8,12 +19,57 @@ interface PanelCardProps {
   gridLayout: GridLayout;
   onSelect: (id: string) => void;
   onSelectSlot: (panelId: string, imageId: string) => void;
-  onCaptionChange: (id: string, caption: string) => void;
   onDelete: (id: string) => void;
-  onToggleOverlay: (id: string, type: any) => void; // Type loose for internal handling
+  slotJobs?: Record<string, Job>; // Queued or running job per image slot id
+  onCancelJob?: (jobId: string) => void;
+  onOpenCandidates?: (panelId: string, imageId: string) => void;
+  onUpdateBalloon?: (panelId: string, balloonId: string, changes: Pick<Balloon, 'position' | 'tail'>) => void;
+  editMask?: EditMask | null; // The mask for a masked edit, if it's on one of this panel's slots
+  onPaintMask?: (stroke: SketchStroke, size: { width: number; height: number }) => void;
+  onMovePanel?: (panelId: string, targetId: string, side: PanelSide) => void;
+  onShiftPanel?: (panelId: string, offset: number) => void; // Keyboard moves; offsets past either end stop there
+  onDuplicatePanel?: (panelId: string) => void;
+  onInsertPanel?: (panelId: string, side: PanelSide) => void;
+  onSwapSlots?: (from: JobTarget, to: JobTarget) => void;
   className?: string;
 }
 
+type BalloonDragMode = 'MOVE' | 'RESIZE' | 'TAIL';
+
+// Where a balloon is while it's being dragged; saved to the project on release
+interface BalloonDraft {
+  balloonId: string;
+  position: BalloonPosition;
+  tail?: Point;
+}
+
+// Pointer travel before a press on a balloon counts as a drag, in pixels
+const DRAG_THRESHOLD = 3;
+
+// Drag data types, so panels and slots only land where they can go
+const PANEL_DRAG_TYPE = 'application/x-comic-panel';
+const SLOT_DRAG_TYPE = 'application/x-comic-slot';
+
+// Keys on the drag handle and how far they move the panel
+const panelShiftKeys: Record<string, number> = {
+  'ArrowLeft': -1,
+  'ArrowUp': -1,
+  'ArrowRight': 1,
+  'ArrowDown': 1,
+  'Home': -Infinity,
+  'End': Infinity,
+};
+
+const toolbarButtonClasses = 'bg-black/80 text-white p-2 rounded-full hover:bg-black shadow-md border border-gray-600';
+
+const SHOUT_CLIP_PATH = 'polygon(20% 0%, 0% 20%, 30% 50%, 0% 80%, 20% 100%, 50% 70%, 80% 100%, 100% 80%, 70% 50%, 100% 20%, 80% 0%, 50% 30%)';
+
+const jobStatusLabels: Partial<Record<Job['status'], string>> = {
+  'PENDING': 'Queued',
+  'RUNNING': 'Generating...',
+  'RETRYING': 'Retrying...',
+};
+
 export const PanelCard: React.FC<PanelCardProps> = ({ 
   panel, 
   isSelected, 
@@ -21,25 +77,35 @@ export const PanelCard: React.FC<PanelCardProps> = ({
   gridLayout,
   onSelect, 
   onSelectSlot,
-  onCaptionChange,
   onDelete,
-  onToggleOverlay,
+  slotJobs = {},
+  onCancelJob,
+  onOpenCandidates,
+  onUpdateBalloon,
+  editMask,
+  onPaintMask,
+  onMovePanel,
+  onShiftPanel,
+  onDuplicatePanel,
+  onInsertPanel,
+  onSwapSlots,
   className = ''
 }) => {
   // Map aspect ratio to Tailwind classes
   const aspectRatioClass = {
     '1:1': 'aspect-square',
+    '4:3': 'aspect-[4/3]',
+    '3:4': 'aspect-[3/4]',
     '16:9': 'aspect-video',
     '9:16': 'aspect-[9/16]'
   }[panel.aspectRatio] || 'aspect-square';
 
-  const isOverlayEnabled = panel.overlayType !== 'NONE';
   const isVerticalLayout = gridLayout === GridLayout.VERTICAL;
 
   // Calculate Column Span Class
   const getColSpanClass = () => {
     if (isVerticalLayout) return 'w-full';
-    switch (panel.colSpan) {
+    switch (getEffectiveColSpan(panel, gridLayout)) {
       case 2: return 'col-span-1 md:col-span-2';
       case 3: return 'col-span-1 md:col-span-3';
       case 4: return 'col-span-1 md:col-span-4';
@@ -49,38 +115,43 @@ export const PanelCard: React.FC<PanelCardProps> = ({
     }
   };
 
-  // Grid Configuration for Internal Layouts
-  const getGridConfig = (layout: PanelSplitLayout) => {
-    switch (layout) {
-      case 'SINGLE': return 'grid-cols-1 grid-rows-1';
-      case 'DOUBLE_V': return 'grid-cols-2 grid-rows-1';
-      case 'DOUBLE_H': return 'grid-cols-1 grid-rows-2';
-      case 'TRIPLE_V': return 'grid-cols-3 grid-rows-1';
-      case 'TRIPLE_H': return 'grid-cols-1 grid-rows-3';
-      case 'QUAD': return 'grid-cols-2 grid-rows-2';
-      case 'BIG_LEFT': return 'grid-cols-2 grid-rows-2';
-      case 'BIG_RIGHT': return 'grid-cols-2 grid-rows-2';
-      case 'BIG_TOP': return 'grid-cols-2 grid-rows-2';
-      case 'BIG_BOTTOM': return 'grid-cols-2 grid-rows-2';
-      default: return 'grid-cols-1 grid-rows-1';
-    }
+  // Slots are positioned from the shared layout geometry so exports line up exactly
+  const slots = getPanelSlots(panel);
+
+  // A slanted slot in pixels, relative to its bounds; until the art area is measured it shows as its bounds
+  const getSlotPolygon = (index: number) => {
+    const slot = slots[index] ?? slots[0];
+    if (!slot.polygon || artSize.w === 0) return null;
+    const { rect, polygon } = insetSlot(slot, artSize.w, artSize.h);
+    return { rect, points: polygon!.map(p => ({ x: p.x - rect.x, y: p.y - rect.y })) };
   };
 
-  // Individual Item Spans based on Layout and Index
-  const getItemStyle = (layout: PanelSplitLayout, index: number) => {
-    if (layout === 'BIG_LEFT') {
-      if (index === 0) return { gridRow: 'span 2' }; // Left item
-    }
-    if (layout === 'BIG_RIGHT') {
-       if (index === 2) return { gridColumn: '2', gridRow: '1 / span 2' };
+  const getItemStyle = (index: number): React.CSSProperties => {
+    const slanted = getSlotPolygon(index);
+    if (slanted) {
+      const { rect, points } = slanted;
+      return {
+        position: 'absolute',
+        left: rect.x,
+        top: rect.y,
+        width: rect.w,
+        height: rect.h,
+        clipPath: `polygon(${points.map(p => `${p.x}px ${p.y}px`).join(', ')})`,
+      };
     }
-    if (layout === 'BIG_TOP') {
-      if (index === 0) return { gridColumn: 'span 2' }; // Top item
-    }
-    if (layout === 'BIG_BOTTOM') {
-      if (index === 2) return { gridColumn: 'span 2' };
-    }
-    return {};
+    const { rect } = slots[index] ?? slots[0];
+    const half = SLOT_GAP / 2;
+    const insetLeft = rect.x > 0.001 ? half : 0;
+    const insetRight = rect.x + rect.w < 0.999 ? half : 0;
+    const insetTop = rect.y > 0.001 ? half : 0;
+    const insetBottom = rect.y + rect.h < 0.999 ? half : 0;
+    return {
+      position: 'absolute',
+      left: `calc(${rect.x * 100}% + ${insetLeft}px)`,
+      top: `calc(${rect.y * 100}% + ${insetTop}px)`,
+      width: `calc(${rect.w * 100}% - ${insetLeft + insetRight}px)`,
+      height: `calc(${rect.h * 100}% - ${insetTop + insetBottom}px)`,
+    };
   };
 
   // Dynamic styling for the card container
@@ -95,85 +166,316 @@ export const PanelCard: React.FC<PanelCardProps> = ({
 
   const innerContainerClasses = `relative w-full overflow-hidden bg-black ${aspectRatioClass}`;
 
-  // Helper to render different bubble types
-  const renderOverlay = () => {
-    const text = panel.caption || "TEXT...";
+  // --- Panel and slot drag and drop ---
 
-    switch (panel.overlayType) {
-      case 'BUBBLE_LEFT':
-        return (
-          <div className="absolute top-4 left-4 max-w-[70%] bg-white border-2 border-black text-black p-3 rounded-[2rem] rounded-bl-none shadow-lg text-center leading-tight font-comic text-sm uppercase transform -rotate-2 min-w-[60px] flex items-center justify-center z-20">
-             {text}
-          </div>
-        );
-      case 'BUBBLE_RIGHT':
+  const cardRef = useRef<HTMLDivElement>(null);
+  const handleRef = useRef<HTMLButtonElement>(null);
+  const [panelDropSide, setPanelDropSide] = useState<PanelSide | null>(null);
+  const [slotDropId, setSlotDropId] = useState<string | null>(null);
+
+  const handlePanelDragStart = (e: React.DragEvent) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(PANEL_DRAG_TYPE, panel.id);
+    e.dataTransfer.effectAllowed = 'move';
+    if (cardRef.current) e.dataTransfer.setDragImage(cardRef.current, 24, 24);
+  };
+
+  // The half of the card under the pointer says which side the panel goes
+  const handlePanelDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!onMovePanel || !e.dataTransfer.types.includes(PANEL_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isFirstHalf = isVerticalLayout ? e.clientY < rect.top + rect.height / 2 : e.clientX < rect.left + rect.width / 2;
+    setPanelDropSide(isFirstHalf ? 'BEFORE' : 'AFTER');
+  };
+
+  const handlePanelDrop = (e: React.DragEvent) => {
+    const draggedId = e.dataTransfer.getData(PANEL_DRAG_TYPE);
+    const side = panelDropSide;
+    setPanelDropSide(null);
+    if (!draggedId || !side) return;
+    e.preventDefault();
+    onMovePanel?.(draggedId, panel.id, side);
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent) => {
+    const offset = panelShiftKeys[e.key];
+    if (offset === undefined || !onShiftPanel) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onShiftPanel(panel.id, offset);
+    // Reordering moves the card in the DOM, which can drop focus
+    requestAnimationFrame(() => handleRef.current?.focus());
+  };
+
+  // Busy slots stay put: their job would land in whatever slot they left behind
+  const canDragSlot = (imageId: string, url: string) =>
+    !!onSwapSlots && !!url && !slotJobs[imageId] && !(editMask?.imageId === imageId && editMask.painting);
+
+  const handleSlotDragOver = (e: React.DragEvent, imageId: string) => {
+    if (!onSwapSlots || slotJobs[imageId] || !e.dataTransfer.types.includes(SLOT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setSlotDropId(imageId);
+  };
+
+  const handleSlotDrop = (e: React.DragEvent, imageId: string) => {
+    setSlotDropId(null);
+    const data = e.dataTransfer.getData(SLOT_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const from: JobTarget = JSON.parse(data);
+    if (from.imageId !== imageId) onSwapSlots?.(from, { panelId: panel.id, imageId });
+  };
+
+  // Leaving for a child element isn't leaving
+  const isLeaving = (e: React.DragEvent) => !e.currentTarget.contains(e.relatedTarget as Node | null);
+
+  // --- Balloon placement ---
+
+  const artRef = useRef<HTMLDivElement>(null);
+  const [artSize, setArtSize] = useState({ w: 0, h: 0 });
+  const [draft, setDraft] = useState<BalloonDraft | null>(null);
+  const canArrangeBalloons = isSelected && !!onUpdateBalloon;
+  // Removes the window listeners of the drag in progress, if any
+  const stopDragRef = useRef<(() => void) | null>(null);
+
+  // Tails are drawn in pixels, so keep track of the art area's size
+  useEffect(() => {
+    const el = artRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setArtSize({ w: entry.contentRect.width, h: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // A drag still running when the card goes away shouldn't keep listening
+  useEffect(() => () => stopDragRef.current?.(), []);
+
+  const startBalloonDrag = (e: React.PointerEvent, balloon: Balloon, mode: BalloonDragMode) => {
+    const art = artRef.current;
+    if (!canArrangeBalloons || !art) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const bounds = art.getBoundingClientRect();
+
+    // A balloon that's still flowing gets pinned where it currently is
+    let origin = balloon.position;
+    if (!origin) {
+      const el = art.querySelector(`[data-balloon-id="${balloon.id}"]`);
+      if (!el) return;
+      const box = el.getBoundingClientRect();
+      origin = clampBalloonPosition({
+        x: (box.left - bounds.left) / bounds.width,
+        y: (box.top - bounds.top) / bounds.height,
+        w: box.width / bounds.width,
+        h: box.height / bounds.height,
+      });
+    }
+    const start = origin;
+    const startTail = balloon.tail ?? getDefaultTail(start);
+    let latest: BalloonDraft | null = null;
+
+    const handleMove = (ev: PointerEvent) => {
+      if (!latest && Math.hypot(ev.clientX - e.clientX, ev.clientY - e.clientY) < DRAG_THRESHOLD) return;
+      const dx = (ev.clientX - e.clientX) / bounds.width;
+      const dy = (ev.clientY - e.clientY) / bounds.height;
+      // The tail tip stays on the speaker while the body moves
+      latest = {
+        balloonId: balloon.id,
+        position: mode === 'MOVE' ? clampBalloonPosition({ ...start, x: start.x + dx, y: start.y + dy })
+          : mode === 'RESIZE' ? clampBalloonPosition({ ...start, w: Math.min(start.w + dx, 1 - start.x), h: Math.min(start.h + dy, 1 - start.y) })
+          : start,
+        tail: mode === 'TAIL' ? clampTail({ x: startTail.x + dx, y: startTail.y + dy }) : balloon.tail,
+      };
+      setDraft(latest);
+    };
+
+    const stopListening = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      stopDragRef.current = null;
+    };
+
+    const handleUp = () => {
+      stopListening();
+      setDraft(null);
+      if (latest) onUpdateBalloon?.(panel.id, balloon.id, { position: latest.position, tail: latest.tail });
+    };
+
+    stopDragRef.current?.();
+    stopDragRef.current = stopListening;
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  };
+
+  // Show the balloon being dragged at its draft position
+  const displayPanel = draft
+    ? { ...panel, balloons: panel.balloons.map(b => b.id === draft.balloonId ? { ...b, position: draft.position, tail: draft.tail } : b) }
+    : panel;
+
+  const flowBalloons = getFlowBalloons(displayPanel);
+  const balloonSides = getBalloonSides(flowBalloons);
+  const soundEffects = getSoundEffects(displayPanel);
+  const placedBalloons = getPlacedBalloons(displayPanel);
+
+  const getTail = (balloon: Balloon): TailShape | null => {
+    if (!balloon.position || !balloon.tail || !canHaveTail(balloon.type) || artSize.w === 0) return null;
+    const body = toAreaRect(balloon.position, { x: 0, y: 0, ...artSize });
+    return getTailShape(balloon.type, body, { x: balloon.tail.x * artSize.w, y: balloon.tail.y * artSize.h });
+  };
+
+  const toPercentStyle = (position: BalloonPosition): React.CSSProperties => ({
+    left: `${position.x * 100}%`,
+    top: `${position.y * 100}%`,
+    width: `${position.w * 100}%`,
+    height: `${position.h * 100}%`,
+  });
+
+  // Balloon styles; renderService.drawBalloons draws the same shapes for export.
+  // Flowing balloons size to their text; placed ones fill their stored box.
+  const renderBalloon = (balloon: Balloon, side: BalloonSide, hasTail: boolean = false) => {
+    const text = balloon.text.trim();
+    const isPlaced = !!balloon.position;
+    const layoutClass = isPlaced
+      ? 'absolute'
+      : balloon.type === 'CAPTION' ? 'self-stretch' : `${side === 'LEFT' ? 'self-start' : 'self-end'} max-w-[70%]`;
+    const dragProps = {
+      'data-balloon-id': balloon.id,
+      style: isPlaced ? toPercentStyle(balloon.position!) : undefined,
+      onPointerDown: (e: React.PointerEvent) => startBalloonDrag(e, balloon, 'MOVE'),
+      onClick: (e: React.MouseEvent) => canArrangeBalloons && e.stopPropagation(),
+    };
+    const interactionClass = canArrangeBalloons ? 'pointer-events-auto cursor-move touch-none' : '';
+
+    switch (balloon.type) {
+      case 'SPEECH':
         return (
-          <div className="absolute top-8 right-4 max-w-[70%] bg-white border-2 border-black text-black p-3 rounded-[2rem] rounded-br-none shadow-lg text-center leading-tight font-comic text-sm uppercase transform rotate-1 min-w-[60px] flex items-center justify-center z-20">
+          <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass} ${isPlaced ? '' : 'min-w-[60px]'} bg-white border-2 border-black text-black p-3 rounded-[2rem] ${hasTail ? '' : side === 'LEFT' ? 'rounded-bl-none' : 'rounded-br-none'} shadow-lg text-center leading-tight font-comic text-sm uppercase flex items-center justify-center`}>
              {text}
           </div>
         );
       case 'THOUGHT':
         return (
-          <div className="absolute top-4 right-4 max-w-[70%] bg-white border-2 border-black text-black p-4 rounded-[50%] shadow-lg text-center leading-tight font-comic text-sm uppercase min-w-[80px] flex items-center justify-center z-20 border-dashed">
-             <div className="absolute -bottom-2 -left-2 w-3 h-3 bg-white border-2 border-black rounded-full"></div>
-             <div className="absolute -bottom-4 -left-5 w-2 h-2 bg-white border-2 border-black rounded-full"></div>
+          <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass} ${isPlaced ? '' : 'relative min-w-[80px]'} bg-white border-2 border-black text-black p-4 rounded-[50%] shadow-lg text-center leading-tight font-comic text-sm uppercase flex items-center justify-center border-dashed`}>
+             {!hasTail && (
+               <>
+                 <div className={`absolute -bottom-2 ${side === 'LEFT' ? '-left-2' : '-right-2'} w-3 h-3 bg-white border-2 border-black rounded-full`}></div>
+                 <div className={`absolute -bottom-4 ${side === 'LEFT' ? '-left-5' : '-right-5'} w-2 h-2 bg-white border-2 border-black rounded-full`}></div>
+               </>
+             )}
              <span className="relative z-10">{text}</span>
           </div>
         );
       case 'WHISPER':
          return (
-          <div className="absolute bottom-4 right-4 max-w-[60%] bg-white border-2 border-gray-500 border-dashed text-gray-600 p-2 rounded-xl shadow-md text-center leading-tight font-sans text-xs italic min-w-[60px] flex items-center justify-center z-20">
+          <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass} ${isPlaced ? '' : 'min-w-[60px]'} bg-white border-2 border-gray-500 border-dashed text-gray-600 p-2 rounded-xl shadow-md text-center leading-tight font-sans text-xs italic flex items-center justify-center`}>
              {text}
           </div>
         );
       case 'SHOUT':
         return (
-           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 max-w-[80%] z-20">
+           <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass}`}>
              <div 
-               className="bg-white border-2 border-black text-black p-6 shadow-xl text-center leading-tight font-comic text-lg font-bold uppercase flex items-center justify-center"
-               style={{ clipPath: 'polygon(20% 0%, 0% 20%, 30% 50%, 0% 80%, 20% 100%, 50% 70%, 80% 100%, 100% 80%, 70% 50%, 100% 20%, 80% 0%, 50% 30%)' }}
+               className={`${isPlaced ? 'h-full' : ''} bg-white border-2 border-black text-black p-6 shadow-xl text-center leading-tight font-comic text-lg font-bold uppercase flex items-center justify-center`}
+               style={{ clipPath: SHOUT_CLIP_PATH }}
              >
                <span className="relative z-10 transform rotate-[-5deg]">{text}</span>
              </div>
            </div>
         );
-      case 'ONOMATOPOEIA':
-         return (
-           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20 pointer-events-none">
-             <h1 
-                className="font-comic text-5xl md:text-6xl font-extrabold text-comic-yellow tracking-widest uppercase transform -rotate-12 drop-shadow-[4px_4px_0_rgba(0,0,0,1)] stroke-black"
-                style={{ WebkitTextStroke: '2px black' }}
-              >
-               {text}
-             </h1>
-           </div>
-         );
-      case 'CAPTION_BOX':
+      case 'CAPTION':
         return (
-          <div className="absolute bottom-0 left-0 w-full bg-comic-yellow border-t-2 border-black text-black p-2 font-comic text-sm font-bold uppercase tracking-wider shadow-lg min-h-[30px] z-20">
+          <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass} ${isPlaced ? 'flex items-center' : ''} bg-comic-yellow border-2 border-black text-black p-2 font-comic text-sm font-bold uppercase tracking-wider shadow-lg`}>
              {text}
            </div>
         );
+      case 'SFX':
+        return (
+          <div key={balloon.id} {...dragProps} className={`${layoutClass} ${interactionClass} flex items-center justify-center`}>
+            {renderSoundEffectText(text)}
+          </div>
+        );
       default:
         return null;
     }
   };
 
+  const renderSoundEffectText = (text: string) => (
+    <h1 
+       className="font-comic text-6xl font-extrabold text-comic-yellow tracking-widest uppercase text-center transform -rotate-12 drop-shadow-[4px_4px_0_rgba(0,0,0,1)] stroke-black"
+       style={{ WebkitTextStroke: '2px black' }}
+     >
+      {text}
+    </h1>
+  );
+
+  // Tails go under the body, then get filled again on top so the body outline doesn't cross their base
+  const renderTail = (balloon: Balloon, tail: TailShape, pass: 'under' | 'over') => {
+    const stroke = balloon.type === 'WHISPER' ? '#6b7280' : '#000000';
+    const dash = balloon.type === 'WHISPER' ? '6 4' : undefined;
+    if (tail.kind === 'TRAIL') {
+      if (pass === 'over') return null;
+      return (
+        <svg key={`${balloon.id}-${pass}`} className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+          {tail.circles.map((circle, i) => (
+            <circle key={i} cx={circle.x} cy={circle.y} r={circle.r} fill="#ffffff" stroke={stroke} strokeWidth={2} strokeDasharray={dash} />
+          ))}
+        </svg>
+      );
+    }
+    const [a, tip, b] = tail.points;
+    const path = `M ${a.x} ${a.y} L ${tip.x} ${tip.y} L ${b.x} ${b.y}`;
+    return (
+      <svg key={`${balloon.id}-${pass}`} className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+        {pass === 'under'
+          ? <path d={path} fill="#ffffff" stroke={stroke} strokeWidth={2} strokeLinejoin="round" strokeDasharray={dash} />
+          : <path d={`${path} Z`} fill="#ffffff" />}
+      </svg>
+    );
+  };
+
   return (
     <div 
+      ref={cardRef}
       className={containerClasses}
       onClick={() => onSelect(panel.id)}
+      onDragOver={handlePanelDragOver}
+      onDragLeave={(e) => isLeaving(e) && setPanelDropSide(null)}
+      onDrop={handlePanelDrop}
     >
+      {/* Where a dragged panel will go */}
+      {panelDropSide && (
+        <div className={`absolute z-40 bg-comic-accent rounded-full pointer-events-none ${isVerticalLayout
+          ? `left-0 right-0 h-1.5 ${panelDropSide === 'BEFORE' ? '-top-4' : '-bottom-4'}`
+          : `top-0 bottom-0 w-1.5 ${panelDropSide === 'BEFORE' ? '-left-4' : '-right-4'}`}`}
+        />
+      )}
+
       {/* Internal Grid Container */}
-      <div className={innerContainerClasses}>
+      <div ref={artRef} className={innerContainerClasses}>
         
-        <div className={`grid h-full w-full gap-1 bg-black ${getGridConfig(panel.splitLayout)}`}>
+        <div className="relative h-full w-full bg-black">
           {panel.images.map((img, index) => (
             <div 
               key={img.id} 
-              style={getItemStyle(panel.splitLayout, index)}
-              className={`relative w-full h-full overflow-hidden cursor-pointer transition-all group/slot bg-white
-                ${activeSlotId === img.id && isSelected ? 'ring-4 ring-inset ring-comic-yellow' : ''}
+              style={getItemStyle(index)}
+              draggable={canDragSlot(img.id, img.url)}
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.setData(SLOT_DRAG_TYPE, JSON.stringify({ panelId: panel.id, imageId: img.id }));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => handleSlotDragOver(e, img.id)}
+              onDragLeave={(e) => isLeaving(e) && setSlotDropId(null)}
+              onDrop={(e) => handleSlotDrop(e, img.id)}
+              className={`overflow-hidden cursor-pointer transition-all group/slot bg-white
+                ${getSlotPolygon(index) ? '' : slotDropId === img.id ? 'ring-4 ring-inset ring-comic-accent' : activeSlotId === img.id && isSelected ? 'ring-4 ring-inset ring-comic-yellow' : ''}
                 ${!img.url ? 'bg-gray-800 hover:bg-gray-700 flex items-center justify-center' : ''}
               `}
               onClick={(e) => {
@@ -186,6 +488,7 @@ export const PanelCard: React.FC<PanelCardProps> = ({
                 <img 
                   src={img.url} 
                   alt={img.prompt} 
+                  draggable={false}
                   className="w-full h-full object-cover"
                 />
               ) : (
@@ -195,6 +498,53 @@ export const PanelCard: React.FC<PanelCardProps> = ({
                 </div>
               )}
               
+              {/* Edit mask: painted while painting, otherwise just shown */}
+              {img.url && isSelected && editMask?.imageId === img.id && (editMask.painting || editMask.strokes.length > 0) && (
+                <MaskCanvas
+                  imageUrl={img.url}
+                  mask={editMask}
+                  onStroke={editMask.painting ? onPaintMask : undefined}
+                />
+              )}
+
+              {/* Job Spinner */}
+              {slotJobs[img.id] && (
+                <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-2 z-20 cursor-default" onClick={(e) => e.stopPropagation()}>
+                  <div className={`w-10 h-10 border-4 border-comic-yellow border-t-transparent rounded-full ${slotJobs[img.id].status === 'PENDING' ? 'opacity-50' : 'animate-spin'}`}></div>
+                  <span className="text-[10px] font-bold text-white uppercase tracking-widest">{jobStatusLabels[slotJobs[img.id].status]}</span>
+                  {onCancelJob && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onCancelJob(slotJobs[img.id].id); }}
+                      className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border border-gray-500 text-gray-300 hover:border-white hover:text-white"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Candidates waiting for a pick */}
+              {img.candidates && img.candidates.length > 0 && !slotJobs[img.id] && onOpenCandidates && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onOpenCandidates(panel.id, img.id); }}
+                  className="absolute bottom-1 right-1 z-20 bg-comic-yellow text-black text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded shadow hover:bg-yellow-300"
+                >
+                  Pick ({img.candidates.length})
+                </button>
+              )}
+
+              {/* A ring can't follow a slanted edge; this outline is clipped to the inner half of its stroke */}
+              {(slotDropId === img.id || (activeSlotId === img.id && isSelected)) && getSlotPolygon(index) && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none z-10 overflow-visible">
+                  <polygon
+                    points={getSlotPolygon(index)!.points.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    strokeWidth={8}
+                    className={slotDropId === img.id ? 'stroke-comic-accent' : 'stroke-comic-yellow'}
+                  />
+                </svg>
+              )}
+
               {/* Slot Indicator */}
               {activeSlotId === img.id && isSelected && (
                 <div className="absolute top-1 left-1 bg-comic-yellow text-black text-[10px] font-bold px-2 py-0.5 rounded z-10 shadow-sm">
@@ -205,27 +555,118 @@ export const PanelCard: React.FC<PanelCardProps> = ({
           ))}
         </div>
         
-        {/* Overlay Narrative Elements */}
-        {isOverlayEnabled && (
-          <div className={`absolute pointer-events-none p-2 z-10 w-full h-full top-0 left-0`}>
-            {renderOverlay()}
+        {/* Lettering: balloons flow down in reading order, sound effects across the middle */}
+        {flowBalloons.length > 0 && (
+          <div className="absolute inset-0 p-3 flex flex-col gap-2 pointer-events-none z-10">
+            {flowBalloons.map((balloon, index) => renderBalloon(balloon, balloonSides[index]))}
           </div>
         )}
+        {soundEffects.map((effect, index) => (
+          <div
+            key={effect.id}
+            data-balloon-id={effect.id}
+            onPointerDown={(e) => startBalloonDrag(e, effect, 'MOVE')}
+            onClick={(e) => canArrangeBalloons && e.stopPropagation()}
+            className={`absolute top-1/2 left-1/2 z-10 ${canArrangeBalloons ? 'cursor-move touch-none' : 'pointer-events-none'}`}
+            style={{ transform: `translate(-50%, calc(-50% + ${(index - (soundEffects.length - 1) / 2) * SOUND_EFFECT_SPACING}px))` }}
+          >
+            {renderSoundEffectText(effect.text.trim())}
+          </div>
+        ))}
 
-        {/* Quick Overlay Toggle Buttons (Visible on Selection) */}
-        {isSelected && (
-           <div className="absolute top-2 left-2 flex gap-1 bg-black/60 p-1.5 rounded backdrop-blur-sm z-30 border border-gray-600">
-             <button 
-               onClick={(e) => { e.stopPropagation(); onToggleOverlay(panel.id, 'NONE'); }}
-               className="p-1 rounded hover:bg-white/20 transition-colors text-gray-300" title="Remove Text"
-             >
-               <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
-             </button>
-           </div>
+        {/* Placed balloons, each with its tail */}
+        {placedBalloons.length > 0 && (
+          <div className="absolute inset-0 pointer-events-none z-10">
+            {placedBalloons.map(balloon => {
+              const tail = getTail(balloon);
+              return (
+                <React.Fragment key={balloon.id}>
+                  {tail && renderTail(balloon, tail, 'under')}
+                  {renderBalloon(balloon, getPlacedSide(balloon.position!), tail !== null)}
+                  {tail && renderTail(balloon, tail, 'over')}
+                </React.Fragment>
+              );
+            })}
+          </div>
         )}
 
-        {/* Delete Button */}
-        <div className={`absolute top-2 right-2 z-30 transition-opacity ${isSelected || 'group-hover:opacity-100 opacity-0'}`}>
+        {/* Resize and tail handles for placed balloons */}
+        {canArrangeBalloons && placedBalloons.map(balloon => {
+          const position = balloon.position!;
+          const tip = balloon.tail ?? getDefaultTail(position);
+          return (
+            <React.Fragment key={balloon.id}>
+              <div
+                onPointerDown={(e) => startBalloonDrag(e, balloon, 'RESIZE')}
+                onClick={(e) => e.stopPropagation()}
+                className="absolute z-20 w-3 h-3 -ml-1.5 -mt-1.5 bg-comic-accent border-2 border-white cursor-nwse-resize touch-none"
+                style={{ left: `${(position.x + position.w) * 100}%`, top: `${(position.y + position.h) * 100}%` }}
+                title="Resize"
+              />
+              {canHaveTail(balloon.type) && (
+                <div
+                  onPointerDown={(e) => startBalloonDrag(e, balloon, 'TAIL')}
+                  onClick={(e) => e.stopPropagation()}
+                  className={`absolute z-20 w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full border-2 cursor-crosshair touch-none ${balloon.tail ? 'bg-comic-yellow border-black' : 'bg-black/40 border-comic-yellow border-dashed'}`}
+                  style={{ left: `${tip.x * 100}%`, top: `${tip.y * 100}%` }}
+                  title={balloon.tail ? 'Drag to point the tail' : 'Drag to add a tail'}
+                />
+              )}
+            </React.Fragment>
+          );
+        })}
+
+        {/* Arrange and Delete Buttons */}
+        <div className={`absolute top-2 right-2 z-30 flex gap-2 transition-opacity ${isSelected || 'group-hover:opacity-100 opacity-0 focus-within:opacity-100'}`}>
+          {(onMovePanel || onShiftPanel) && (
+            <button
+              ref={handleRef}
+              draggable={!!onMovePanel}
+              onDragStart={handlePanelDragStart}
+              onKeyDown={handleHandleKeyDown}
+              onClick={(e) => e.stopPropagation()}
+              className={`${toolbarButtonClasses} cursor-grab active:cursor-grabbing`}
+              title="Drag to reorder, or use the arrow keys (Home and End for first and last)"
+              aria-label="Move panel"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+                <circle cx="9" cy="6" r="1.6"/><circle cx="15" cy="6" r="1.6"/><circle cx="9" cy="12" r="1.6"/><circle cx="15" cy="12" r="1.6"/><circle cx="9" cy="18" r="1.6"/><circle cx="15" cy="18" r="1.6"/>
+              </svg>
+            </button>
+          )}
+          {onInsertPanel && (
+            <>
+              <button
+                onClick={(e) => { e.stopPropagation(); onInsertPanel(panel.id, 'BEFORE'); }}
+                className={toolbarButtonClasses}
+                title="Insert empty panel before"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M4 4v16"/><path d="M10 12h10"/><path d="M15 7v10"/>
+                </svg>
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onInsertPanel(panel.id, 'AFTER'); }}
+                className={toolbarButtonClasses}
+                title="Insert empty panel after"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M20 4v16"/><path d="M4 12h10"/><path d="M9 7v10"/>
+                </svg>
+              </button>
+            </>
+          )}
+          {onDuplicatePanel && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicatePanel(panel.id); }}
+              className={toolbarButtonClasses}
+              title="Duplicate Panel"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                <rect width="13" height="13" x="9" y="9" rx="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+              </svg>
+            </button>
+          )}
           <button 
             onClick={(e) => { e.stopPropagation(); onDelete(panel.id); }}
             className="bg-red-600 text-white p-2 rounded-full hover:bg-red-700 shadow-md border border-red-800"
@@ -237,43 +678,6 @@ export const PanelCard: React.FC<PanelCardProps> = ({
           </button>
         </div>
       </div>
-
-      {/* Footer Caption Area (Standard) */}
-      {!isOverlayEnabled && (
-        <div className={`
-          p-3 flex flex-col justify-center
-          bg-white border-t-4 border-black h-full
-        `}>
-          <textarea
-            value={panel.caption}
-            onChange={(e) => onCaptionChange(panel.id, e.target.value)}
-            placeholder="Write dialogue..."
-            className={`
-              w-full font-comic text-lg uppercase placeholder-gray-400 bg-transparent border-none resize-none focus:ring-0 p-0 leading-tight text-center h-full text-black
-            `}
-            onClick={(e) => e.stopPropagation()} 
-            style={{ minHeight: '3rem' }}
-          />
-        </div>
-      )}
-      
-      {/* Overlay Text Input (Only visible when overlay is active) */}
-      {isOverlayEnabled && isSelected && (
-         <div className={`
-           p-2 relative z-40 bg-gray-100 border-t-4 border-black
-         `}>
-           <input
-            value={panel.caption}
-            onChange={(e) => onCaptionChange(panel.id, e.target.value)}
-            placeholder="Enter overlay text..."
-            className={`
-              w-full font-comic text-base bg-transparent border-none focus:ring-0 p-2 text-center text-gray-700 placeholder-gray-400
-            `}
-            autoFocus
-            onClick={(e) => e.stopPropagation()} 
-           />
-         </div>
-      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ComicProject, ProjectSummary } from '../types';
+
+export type SaveStatus = 'SAVED' | 'SAVING' | 'ERROR';
+
+interface ProjectSwitcherProps {
+  project: ComicProject;
+  projects: ProjectSummary[];
+  saveStatus: SaveStatus;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onImportCbz: (file: File) => void;
+  onExportScript: () => void;
+  onImportScript: (file: File) => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  project,
+  projects,
+  saveStatus,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  onImportCbz,
+  onExportScript,
+  onImportScript
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cbzInputRef = useRef<HTMLInputElement>(null);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleRename = () => {
+    const name = window.prompt('Rename project', project.name);
+    if (name && name.trim()) {
+      onRename(name.trim());
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      setIsOpen(false);
+      onDelete();
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, onFile: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setIsOpen(false);
+      onFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const statusLabel = {
+    'SAVED': 'Saved',
+    'SAVING': 'Saving...',
+    'ERROR': 'Save failed'
+  }[saveStatus];
+
+  const otherProjects = projects.filter(p => p.id !== project.id);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-700 hover:border-gray-500 hover:bg-white/5 transition-colors max-w-[260px]"
+        title="Switch project"
+      >
+        <span className="font-bold text-sm text-white truncate">{project.name}</span>
+        <span className={`text-[10px] uppercase tracking-wider whitespace-nowrap ${saveStatus === 'ERROR' ? 'text-red-400' : 'text-gray-500'}`}>{statusLabel}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-400 flex-shrink-0"><polyline points="6 9 12 15 18 9"></polyline></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-comic-panel border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden animate-fade-in">
+          <div className="grid grid-cols-2 gap-1 p-2 border-b border-gray-700">
+            <button onClick={() => { setIsOpen(false); onCreate(); }} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">New Project</button>
+            <button onClick={handleRename} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Rename</button>
+            <button onClick={() => { setIsOpen(false); onDuplicate(); }} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Duplicate</button>
+            <button onClick={handleDelete} className="py-2 px-2 text-xs font-bold rounded-lg text-red-400 hover:bg-red-900/40 text-left">Delete</button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 p-2 border-b border-gray-700">
+            <input
+              type="file"
+              accept=".json,application/json"
+              ref={fileInputRef}
+              onChange={(e) => handleFileChange(e, onImport)}
+              className="hidden"
+            />
+            <input
+              type="file"
+              accept=".cbz,.zip,application/vnd.comicbook+zip,application/zip"
+              ref={cbzInputRef}
+              onChange={(e) => handleFileChange(e, onImportCbz)}
+              className="hidden"
+            />
+            <input
+              type="file"
+              accept=".md,.markdown,.txt,.fountain,.spmd,text/markdown,text/plain"
+              ref={scriptInputRef}
+              onChange={(e) => handleFileChange(e, onImportScript)}
+              className="hidden"
+            />
+            <button onClick={() => { setIsOpen(false); onExport(); }} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Export File</button>
+            <button onClick={() => fileInputRef.current?.click()} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Import File</button>
+            <button onClick={() => cbzInputRef.current?.click()} className="col-span-2 py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Import CBZ as Chapter</button>
+            <button onClick={() => { setIsOpen(false); onExportScript(); }} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Export Script</button>
+            <button onClick={() => scriptInputRef.current?.click()} className="py-2 px-2 text-xs font-bold rounded-lg text-gray-300 hover:bg-white/10 text-left">Import Script</button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto py-1">
+            <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest">Open Project</div>
+            {otherProjects.length === 0 ? (
+              <p className="px-3 pb-3 text-xs text-gray-500">No other projects yet.</p>
+            ) : (
+              otherProjects.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => { setIsOpen(false); onSwitch(p.id); }}
+                  className="w-full px-3 py-2 text-left hover:bg-white/10 flex items-center justify-between gap-2"
+                >
+                  <span className="text-sm text-gray-200 truncate">{p.name}</span>
+                  <span className="text-[10px] text-gray-500 whitespace-nowrap">
+                    {p.panelCount} panels · {new Date(p.updatedAt).toLocaleDateString()}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { PromptRecord } from '../types';
+import { searchPromptHistory } from '../services/promptService';
+
+interface PromptHistoryProps {
+  records: PromptRecord[]; // Newest first
+  onRerun: (recordId: string) => void;
+  onInspect: (recordId: string) => void;
+}
+
+const sourceLabels: Record<PromptRecord['source'], string> = {
+  'GENERATE': 'GEN',
+  'SKETCH': 'SKETCH',
+  'EDIT': 'EDIT',
+};
+
+const smallButtonClasses = 'px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded border border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white';
+
+export const PromptHistory: React.FC<PromptHistoryProps> = ({ records, onRerun, onInspect }) => {
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const matches = searchPromptHistory(records, query);
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
+        Prompt History ({records.length})
+      </label>
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search prompts..."
+        className="w-full bg-black/50 border border-gray-600 rounded-lg px-3 py-2 text-xs text-white focus:border-comic-accent outline-none mb-2"
+      />
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        {matches.length === 0 && <p className="text-[10px] text-gray-500">No prompts match.</p>}
+        {matches.map(record => (
+          <div key={record.id} className="bg-black/30 border border-gray-700 rounded-lg p-2 space-y-2">
+            <button
+              type="button"
+              onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+              className="w-full text-left space-y-1"
+              title="Show the full prompt that was sent"
+            >
+              <div className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-wider text-gray-500">
+                <span className="px-1 rounded bg-gray-700 text-gray-200">{sourceLabels[record.source]}</span>
+                {record.mask && <span className="px-1 rounded border border-gray-600 text-gray-300">Masked</span>}
+                {record.overridden && <span className="text-comic-accent">Custom</span>}
+                <span className="ml-auto">{new Date(record.sentAt).toLocaleString()}</span>
+              </div>
+              <p className="text-xs text-gray-200 line-clamp-2">{record.prompt}</p>
+            </button>
+            {expandedId === record.id && (
+              <pre className="text-[10px] text-gray-400 whitespace-pre-wrap font-mono bg-black/40 rounded p-2">{record.sentPrompt}</pre>
+            )}
+            <div className="flex gap-2">
+              <button type="button" onClick={() => onRerun(record.id)} className={smallButtonClasses}>Re-run</button>
+              <button type="button" onClick={() => onInspect(record.id)} className={smallButtonClasses}>Edit &amp; Run</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { PromptDraft } from '../services/promptService';
+import { Button } from './Button';
+
+interface PromptInspectorProps {
+  draft: PromptDraft;
+  initialPrompt: string; // Usually the composed prompt; a history re-run starts from what was sent
+  targetLabel: string;
+  onSend: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<PromptDraft['source'], string> = {
+  'GENERATE': 'Generate',
+  'SKETCH': 'Transform sketch',
+  'EDIT': 'Edit',
+};
+
+export const PromptInspector: React.FC<PromptInspectorProps> = ({ draft, initialPrompt, targetLabel, onSend, onClose }) => {
+  const [text, setText] = useState(initialPrompt);
+  const isOverridden = text !== draft.composedPrompt;
+  // Images that go out with the prompt: the one being worked on first, then the references
+  const inputImage = draft.source === 'EDIT' ? draft.image : draft.source === 'SKETCH' ? draft.sketch : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-2xl p-6 space-y-5 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Prompt Inspector</h3>
+          <p className="text-xs text-gray-500 mt-1">This is the full text the model will get. Changes apply to this run only.</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-wider">
+          <span className="px-2 py-1 rounded bg-black/40 border border-gray-700 text-gray-300">{sourceLabels[draft.source]}</span>
+          <span className="px-2 py-1 rounded bg-black/40 border border-gray-700 text-gray-300">{targetLabel}</span>
+          <span className="px-2 py-1 rounded bg-black/40 border border-gray-700 text-gray-300">{draft.aspectRatio}</span>
+          {draft.count > 1 && <span className="px-2 py-1 rounded bg-black/40 border border-gray-700 text-gray-300">{draft.count} candidates</span>}
+          {draft.mask && <span className="px-2 py-1 rounded bg-black/40 border border-gray-700 text-gray-300">Masked{draft.mask.feather > 0 ? `, ${draft.mask.feather}px feather` : ''}</span>}
+          {isOverridden && <span className="px-2 py-1 rounded bg-comic-accent/20 border border-comic-accent text-comic-accent">Custom prompt</span>}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="w-full flex-1 min-h-[12rem] bg-black/30 border border-gray-600 rounded-xl p-4 text-xs font-mono text-white focus:border-blue-500 outline-none resize-none"
+          spellCheck={false}
+          autoFocus
+        />
+
+        {(inputImage || draft.references.length > 0) && (
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Images sent along</label>
+            <div className="flex flex-wrap gap-2">
+              {inputImage && (
+                <figure className="w-16 space-y-1">
+                  <img src={inputImage} alt="" className="w-16 h-16 object-cover rounded border border-gray-600 bg-black" />
+                  <figcaption className="text-[9px] text-gray-500 truncate">{draft.source === 'EDIT' ? 'Current image' : 'Sketch'}</figcaption>
+                </figure>
+              )}
+              {draft.mask && (
+                <figure className="w-16 space-y-1">
+                  <img src={draft.mask.url} alt="" className="w-16 h-16 object-cover rounded border border-gray-600 bg-black" />
+                  <figcaption className="text-[9px] text-gray-500 truncate">Mask</figcaption>
+                </figure>
+              )}
+              {draft.references.map((ref, i) => (
+                <figure key={i} className="w-16 space-y-1">
+                  <img src={ref.url} alt="" className="w-16 h-16 object-cover rounded border border-gray-600 bg-black" />
+                  <figcaption className="text-[9px] text-gray-500 truncate" title={ref.label}>{ref.role === 'STYLE' ? 'Style' : ref.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2">The provider adds a short line naming each reference image{draft.mask ? ' and the mask' : ''}.</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={() => onSend(text)} disabled={!text.trim()}>
+            Send
+          </Button>
+          {isOverridden && (
+            <Button variant="ghost" onClick={() => setText(draft.composedPrompt)} title="Go back to the prompt as composed">
+              Reset
+            </Button>
+          )}
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
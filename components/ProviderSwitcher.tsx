@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { getProviders, getActiveProvider, setActiveProvider } from '../services/aiService';
+
+export const ProviderSwitcher: React.FC = () => {
+  const [activeId, setActiveId] = useState(() => getActiveProvider().id);
+  const providers = getProviders();
+  const active = providers.find(p => p.id === activeId);
+
+  const handleChange = (id: string) => {
+    setActiveProvider(id);
+    setActiveId(id);
+  };
+
+  return (
+    <label className="flex items-center gap-2" title={active?.description}>
+      <span className="text-[10px] uppercase tracking-widest text-gray-500">AI</span>
+      <select
+        value={activeId}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`bg-black/30 border rounded-lg px-2 py-1.5 text-xs font-bold outline-none focus:border-comic-yellow ${activeId === 'mock' ? 'border-comic-yellow/60 text-comic-yellow' : 'border-gray-600 text-gray-300'}`}
+      >
+        {providers.map(provider => (
+          <option key={provider.id} value={provider.id}>{provider.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
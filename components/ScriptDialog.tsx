@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BalloonType, Character, PanelSplitLayout } from '../types';
+import { ScriptLine, ScriptPage, ScriptPanel } from '../services/aiService';
+import { fitShots, MAX_SCRIPT_PAGES, MAX_SCRIPT_PANELS_PER_PAGE } from '../services/scriptService';
+import { splitLayouts } from '../services/layoutService';
+import { balloonTypeLabels } from '../services/balloonService';
+import { isAbortError } from '../services/jobService';
+import { Button } from './Button';
+
+interface ScriptDialogProps {
+  initialPremise: string;
+  characters: Character[];
+  columns: number; // Widest colSpan on the page the script goes to
+  onWrite: (premise: string, pageCount: number) => Promise<ScriptPage[]>;
+  onAccept: (script: ScriptPage[]) => void;
+  onClose: () => void;
+}
+
+const layoutLabel = (layout: PanelSplitLayout) => layout.replace('_', ' ').toLowerCase();
+
+const isSpoken = (type: BalloonType) => type !== 'CAPTION' && type !== 'SFX';
+
+const selectClasses = 'bg-black/50 border border-gray-600 rounded-lg px-2 py-1 text-xs text-white focus:border-blue-500 outline-none';
+
+export const ScriptDialog: React.FC<ScriptDialogProps> = ({ initialPremise, characters, columns, onWrite, onAccept, onClose }) => {
+  const [premise, setPremise] = useState(initialPremise);
+  const [pageCount, setPageCount] = useState(1);
+  const [script, setScript] = useState<ScriptPage[] | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [writeError, setWriteError] = useState<string | null>(null);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => { isMounted.current = false; };
+  }, []);
+
+  const speakerNames = characters.map(c => c.name.trim()).filter(Boolean);
+
+  const write = async () => {
+    if (!premise.trim()) return;
+    setIsWriting(true);
+    setWriteError(null);
+    try {
+      const pages = await onWrite(premise.trim(), pageCount);
+      // The dialog may have been closed while the script was being written
+      if (!isMounted.current) return;
+      setScript(pages);
+    } catch (error) {
+      if (!isMounted.current || isAbortError(error)) return;
+      setWriteError('Could not write the script. Try again or change the premise.');
+    } finally {
+      if (isMounted.current) setIsWriting(false);
+    }
+  };
+
+  // --- Script edits ---
+
+  const updatePage = (pageIndex: number, updater: (panels: ScriptPanel[]) => ScriptPanel[]) => {
+    setScript(prev => prev && prev
+      .map((page, i) => i === pageIndex ? { panels: updater(page.panels) } : page)
+      .filter(page => page.panels.length > 0));
+  };
+
+  const updatePanel = (pageIndex: number, panelIndex: number, updater: (panel: ScriptPanel) => ScriptPanel) => {
+    updatePage(pageIndex, panels => panels.map((panel, i) => i === panelIndex ? updater(panel) : panel));
+  };
+
+  const updateLine = (pageIndex: number, panelIndex: number, lineIndex: number, changes: Partial<ScriptLine>) => {
+    updatePanel(pageIndex, panelIndex, panel => ({
+      ...panel,
+      lines: panel.lines.map((line, i) => {
+        if (i !== lineIndex) return line;
+        const updated = { ...line, ...changes };
+        return isSpoken(updated.type) ? updated : { ...updated, speaker: '' };
+      }),
+    }));
+  };
+
+  const addPanel = (pageIndex: number) => {
+    updatePage(pageIndex, panels => [...panels, { splitLayout: 'SINGLE', colSpan: 1, shots: [''], lines: [] }]);
+  };
+
+  const totalPanels = script?.reduce((sum, page) => sum + page.panels.length, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-3xl p-6 space-y-6 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Write Pages</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {script
+              ? 'Review the script before creating the panels. Everything can still be changed afterwards.'
+              : 'Describe what happens and the story assistant will break it into pages and panels.'}
+          </p>
+        </div>
+
+        {!script ? (
+          <div className="space-y-4">
+            <textarea
+              value={premise}
+              onChange={(e) => setPremise(e.target.value)}
+              placeholder="Ex: Two couriers race across a flooded city to deliver a package neither of them should open..."
+              className="w-full h-32 bg-black/30 border border-gray-600 rounded-xl p-4 text-sm text-white focus:border-blue-500 outline-none resize-none"
+              autoFocus
+            />
+            <div className="flex items-center gap-3">
+              <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Pages</label>
+              <select value={pageCount} onChange={(e) => setPageCount(Number(e.target.value))} className={selectClasses}>
+                {Array.from({ length: MAX_SCRIPT_PAGES }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              <span className="text-[10px] text-gray-500">
+                {speakerNames.length > 0 ? `Cast: ${speakerNames.join(', ')}` : 'Add characters under Tools to have them speak.'}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6 overflow-y-auto pr-1">
+            {script.map((page, pageIndex) => (
+              <div key={pageIndex} className="space-y-3">
+                <h4 className="text-sm font-bold text-gray-300 uppercase">Page {pageIndex + 1}</h4>
+                {page.panels.map((panel, panelIndex) => (
+                  <div key={panelIndex} className="bg-black/30 border border-gray-700 rounded-xl p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex-1">Panel {panelIndex + 1}</span>
+                      <select
+                        value={panel.splitLayout}
+                        onChange={(e) => {
+                          const splitLayout = e.target.value as PanelSplitLayout;
+                          updatePanel(pageIndex, panelIndex, p => ({ ...p, splitLayout, shots: fitShots(p.shots, splitLayout) }));
+                        }}
+                        className={selectClasses}
+                        title="Split layout"
+                      >
+                        {splitLayouts.map(layout => <option key={layout} value={layout}>{layoutLabel(layout)}</option>)}
+                      </select>
+                      <select
+                        value={panel.colSpan}
+                        onChange={(e) => updatePanel(pageIndex, panelIndex, p => ({ ...p, colSpan: Number(e.target.value) as ScriptPanel['colSpan'] }))}
+                        className={selectClasses}
+                        title="Columns spanned"
+                      >
+                        {Array.from({ length: columns }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} col</option>)}
+                      </select>
+                      <button type="button" onClick={() => updatePage(pageIndex, panels => panels.filter((_, i) => i !== panelIndex))} className="px-2 text-red-400 hover:text-red-300" title="Remove panel">✕</button>
+                    </div>
+
+                    {panel.shots.map((shot, slotIndex) => (
+                      <textarea
+                        key={slotIndex}
+                        value={shot}
+                        onChange={(e) => updatePanel(pageIndex, panelIndex, p => ({ ...p, shots: p.shots.map((s, i) => i === slotIndex ? e.target.value : s) }))}
+                        placeholder={panel.shots.length > 1 ? `Slot ${slotIndex + 1} shot...` : 'Shot description...'}
+                        className="w-full h-16 bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 outline-none resize-none"
+                      />
+                    ))}
+
+                    {panel.lines.map((line, lineIndex) => (
+                      <div key={lineIndex} className="flex items-center gap-2">
+                        <select value={line.type} onChange={(e) => updateLine(pageIndex, panelIndex, lineIndex, { type: e.target.value as BalloonType })} className={selectClasses}>
+                          {(Object.keys(balloonTypeLabels) as BalloonType[]).map(type => <option key={type} value={type}>{balloonTypeLabels[type]}</option>)}
+                        </select>
+                        {isSpoken(line.type) && (
+                          <select value={line.speaker} onChange={(e) => updateLine(pageIndex, panelIndex, lineIndex, { speaker: e.target.value })} className={selectClasses}>
+                            <option value="">No speaker</option>
+                            {/* Keep a name the model made up selectable until it's changed */}
+                            {Array.from(new Set([...speakerNames, ...(line.speaker ? [line.speaker] : [])])).map(name => <option key={name} value={name}>{name}</option>)}
+                          </select>
+                        )}
+                        <input
+                          value={line.text}
+                          onChange={(e) => updateLine(pageIndex, panelIndex, lineIndex, { text: e.target.value })}
+                          className="flex-1 bg-black/30 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:border-blue-500 outline-none"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updatePanel(pageIndex, panelIndex, p => ({ ...p, lines: p.lines.filter((_, i) => i !== lineIndex) }))}
+                          className="px-2 text-red-400 hover:text-red-300"
+                          title="Remove line"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updatePanel(pageIndex, panelIndex, p => ({ ...p, lines: [...p.lines, { type: 'SPEECH', speaker: '', text: '' }] }))}
+                      className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white"
+                    >
+                      + Line
+                    </button>
+                  </div>
+                ))}
+                {page.panels.length < MAX_SCRIPT_PANELS_PER_PAGE && (
+                  <button type="button" onClick={() => addPanel(pageIndex)} className="w-full py-2 text-xs font-bold uppercase tracking-wider text-gray-400 border border-dashed border-gray-700 rounded-xl hover:text-white hover:border-gray-500">
+                    + Panel
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {writeError && <p className="text-xs text-red-400">{writeError}</p>}
+
+        <div className="flex gap-3">
+          {script ? (
+            <>
+              <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={() => onAccept(script)} disabled={totalPanels === 0}>
+                Create {script.length} Page{script.length === 1 ? '' : 's'}
+              </Button>
+              <Button variant="ghost" onClick={write} isLoading={isWriting} title="Write a new script from the same premise">
+                Rewrite
+              </Button>
+              <Button variant="ghost" onClick={() => setScript(null)}>Edit Premise</Button>
+            </>
+          ) : (
+            <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={write} isLoading={isWriting} disabled={!premise.trim()}>
+              Write Script
+            </Button>
+          )}
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
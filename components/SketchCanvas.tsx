@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SketchStroke, SketchTool, SKETCH_LINE_WIDTHS, getSketchSize, drawSketch, drawSketchStroke, flattenSketch } from '../services/sketchService';
+import { loadImage } from '../services/renderService';
+import { Button } from './Button';
+
+interface SketchCanvasProps {
+  aspectRatio: number; // Width / height of the slot the sketch is for
+  targetLabel: string;
+  baseSketch?: string; // A sketch to draw over
+  onionSkinUrl?: string; // The slot's current image, shown faintly under the sketch
+  initialPrompt: string;
+  onTransform: (sketch: string, prompt: string) => void;
+  onUseSketch: (sketch: string) => void;
+  onClose: () => void;
+}
+
+const toolButtonClasses = (active: boolean) =>
+  `px-3 py-2 text-xs font-bold rounded-lg border transition-colors ${active ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5'}`;
+
+export const SketchCanvas: React.FC<SketchCanvasProps> = ({ aspectRatio, targetLabel, baseSketch, onionSkinUrl, initialPrompt, onTransform, onUseSketch, onClose }) => {
+  const [strokes, setStrokes] = useState<SketchStroke[]>([]);
+  const [tool, setTool] = useState<SketchTool>('PEN');
+  const [lineWidth, setLineWidth] = useState(SKETCH_LINE_WIDTHS[1]);
+  const [showOnionSkin, setShowOnionSkin] = useState(!!onionSkinUrl);
+  const [base, setBase] = useState<HTMLImageElement | null>(null);
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The stroke being drawn lives outside state so pointer moves don't re-render
+  const currentStroke = useRef<SketchStroke | null>(null);
+  const { width, height } = getSketchSize(aspectRatio);
+
+  useEffect(() => {
+    if (!baseSketch) return;
+    let cancelled = false;
+    loadImage(baseSketch).then(img => { if (!cancelled) setBase(img); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [baseSketch]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawSketch(ctx, base, strokes);
+  }, [base, strokes]);
+
+  const undo = () => setStrokes(prev => prev.slice(0, -1));
+
+  // Ctrl+Z undoes strokes while the pad is open instead of project edits
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || e.shiftKey) return;
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA'].includes(target.tagName)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      undo();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width * width,
+      y: (e.clientY - rect.top) / rect.height * height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    currentStroke.current = { tool, width: lineWidth, points: [toCanvasPoint(e)] };
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawSketchStroke(ctx, currentStroke.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    const last = stroke.points[stroke.points.length - 1];
+    const point = toCanvasPoint(e);
+    stroke.points.push(point);
+    // Only the new segment is drawn while the pointer is down; the full redraw happens on release
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawSketchStroke(ctx, { ...stroke, points: [last, point] });
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    currentStroke.current = null;
+    setStrokes(prev => [...prev, stroke]);
+  };
+
+  const isBlank = strokes.length === 0 && !base;
+
+  const finish = (send: (sketch: string) => void) => {
+    if (!canvasRef.current || isBlank) return;
+    send(flattenSketch(canvasRef.current));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-4xl p-6 space-y-4 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Sketch Pad</h3>
+          <p className="text-xs text-gray-500 mt-1">Sketching for {targetLabel}. Rough shapes are enough; the transform keeps the composition.</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => setTool('PEN')} className={toolButtonClasses(tool === 'PEN')}>Pen</button>
+          <button type="button" onClick={() => setTool('ERASER')} className={toolButtonClasses(tool === 'ERASER')}>Eraser</button>
+          <span className="w-px h-6 bg-gray-700 mx-1" />
+          {SKETCH_LINE_WIDTHS.map(w => (
+            <button key={w} type="button" onClick={() => setLineWidth(w)} className={`${toolButtonClasses(lineWidth === w)} w-10 h-9 flex items-center justify-center`} title={`${w}px line`}>
+              <span className="rounded-full bg-current" style={{ width: Math.max(2, w / 2), height: Math.max(2, w / 2) }} />
+            </button>
+          ))}
+          <span className="w-px h-6 bg-gray-700 mx-1" />
+          <button type="button" onClick={undo} disabled={strokes.length === 0} className={`${toolButtonClasses(false)} disabled:opacity-30`}>Undo</button>
+          <button type="button" onClick={() => { setStrokes([]); setBase(null); }} disabled={isBlank} className={`${toolButtonClasses(false)} disabled:opacity-30`}>Clear</button>
+          {onionSkinUrl && (
+            <label className="ml-auto flex items-center gap-2 text-xs font-bold text-gray-400 uppercase tracking-wider cursor-pointer">
+              <input type="checkbox" checked={showOnionSkin} onChange={(e) => setShowOnionSkin(e.target.checked)} />
+              Onion Skin
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-center min-h-0">
+          <div
+            className="relative bg-white rounded-lg overflow-hidden shadow-inner"
+            style={{ aspectRatio: `${width} / ${height}`, width: `min(100%, calc(60vh * ${width / height}))` }}
+          >
+            {showOnionSkin && onionSkinUrl && (
+              <img src={onionSkinUrl} alt="" className="absolute inset-0 w-full h-full object-cover opacity-30 pointer-events-none" />
+            )}
+            <canvas
+              ref={canvasRef}
+              width={width}
+              height={height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className={`absolute inset-0 w-full h-full touch-none ${tool === 'ERASER' ? 'cursor-cell' : 'cursor-crosshair'}`}
+            />
+          </div>
+        </div>
+
+        <input
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Describe the scene for the transform..."
+          className="w-full bg-black/30 border border-gray-600 rounded-xl px-4 py-3 text-sm text-white focus:border-blue-500 outline-none"
+        />
+
+        <div className="flex gap-3">
+          <Button type="button" variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={() => finish(sketch => onTransform(sketch, prompt.trim()))} disabled={isBlank || !prompt.trim()}>
+            Transform Sketch
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => finish(onUseSketch)} disabled={isBlank} title="Keep the sketch in the toolbox without sending it yet">
+            Use Sketch
+          </Button>
+          <Button type="button" variant="ghost" onClick={onClose}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { StylePreset } from '../types';
+import { StyleId, resolveStyle, parseAvoidList } from '../services/styleService';
+import { readFileAsDataURL } from '../services/fileService';
+import { Button } from './Button';
+
+interface StyleLibraryDialogProps {
+  presets: StylePreset[];
+  baseStyle: StyleId; // New presets start as a copy of this style
+  busyPresetIds: string[]; // Presets with a sample on the way
+  onCreate: (from: StyleId) => string;
+  onDuplicate: (id: string) => string | null;
+  onUpdate: (id: string, changes: Partial<Omit<StylePreset, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onGenerateThumbnail: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClasses = 'w-full bg-black/30 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 outline-none';
+const smallButtonClasses = 'px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded border border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white disabled:opacity-30';
+
+export const StyleLibraryDialog: React.FC<StyleLibraryDialogProps> = ({ presets, baseStyle, busyPresetIds, onCreate, onDuplicate, onUpdate, onDelete, onGenerateThumbnail, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(presets.some(p => p.id === baseStyle) ? baseStyle : presets[0]?.id ?? null);
+  const selected = presets.find(p => p.id === selectedId);
+  // The avoid list is edited as text; parsing it on every keystroke would eat a trailing comma
+  const [avoidText, setAvoidText] = useState(selected?.avoid.join(', ') ?? '');
+
+  useEffect(() => {
+    setAvoidText(selected?.avoid.join(', ') ?? '');
+    // Only when another preset is picked, not while typing in this one
+  }, [selectedId]);
+
+  const baseName = resolveStyle(baseStyle, presets).name;
+
+  const handleDelete = (preset: StylePreset) => {
+    if (!window.confirm(`Delete the style "${preset.name}"?`)) return;
+    onDelete(preset.id);
+    setSelectedId(presets.find(p => p.id !== preset.id)?.id ?? null);
+  };
+
+  const handleUploadReference = async (id: string, files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      onUpdate(id, { referenceUrl: await readFileAsDataURL(file) });
+    } catch (error) {
+      console.error(error);
+      alert('Failed to read the reference image.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-3xl p-6 space-y-6 max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Style Library</h3>
+          <p className="text-xs text-gray-500 mt-1">Styles saved with this project. They show up in the Art Style list next to the built-in ones.</p>
+        </div>
+
+        <div className="flex gap-4 min-h-0 flex-1">
+          <div className="w-48 flex-shrink-0 space-y-2 overflow-y-auto pr-1">
+            {presets.map(preset => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => setSelectedId(preset.id)}
+                className={`w-full flex items-center gap-2 p-2 rounded-lg border text-left ${preset.id === selectedId ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'}`}
+              >
+                <div className="w-10 h-10 rounded overflow-hidden bg-black flex-shrink-0 border border-gray-700">
+                  {preset.thumbnailUrl && <img src={preset.thumbnailUrl} alt="" className="w-full h-full object-cover" />}
+                </div>
+                <span className="text-xs font-bold text-white truncate">{preset.name.trim() || 'Untitled style'}</span>
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSelectedId(onCreate(baseStyle))}
+              className="w-full py-2 text-xs font-bold uppercase tracking-wider text-gray-400 border border-dashed border-gray-700 rounded-lg hover:text-white hover:border-gray-500"
+              title={`Start from the ${baseName} style`}
+            >
+              + New Style
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 space-y-4 overflow-y-auto pr-1">
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Name</label>
+                <input value={selected.name} onChange={(e) => onUpdate(selected.id, { name: e.target.value })} className={inputClasses} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Prompt</label>
+                <textarea
+                  value={selected.prompt}
+                  onChange={(e) => onUpdate(selected.id, { prompt: e.target.value })}
+                  placeholder="Ex: clean ligne claire inks, flat pastel colors, thick outlines"
+                  className={`${inputClasses} h-24 resize-none`}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Avoid</label>
+                <input
+                  value={avoidText}
+                  onChange={(e) => {
+                    setAvoidText(e.target.value);
+                    onUpdate(selected.id, { avoid: parseAvoidList(e.target.value) });
+                  }}
+                  placeholder="Ex: photorealism, lens flare, text"
+                  className={inputClasses}
+                />
+                <p className="text-[10px] text-gray-500 mt-1">Separate things with commas.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Sample</label>
+                  <div className="aspect-square rounded-lg overflow-hidden bg-black border border-gray-700 flex items-center justify-center">
+                    {selected.thumbnailUrl
+                      ? <img src={selected.thumbnailUrl} alt={`${selected.name} sample`} className="w-full h-full object-cover" />
+                      : <span className="text-[10px] text-gray-600 uppercase tracking-wider">No sample yet</span>}
+                  </div>
+                  <button type="button" onClick={() => onGenerateThumbnail(selected.id)} disabled={busyPresetIds.includes(selected.id)} className={smallButtonClasses}>
+                    {busyPresetIds.includes(selected.id) ? 'Generating...' : selected.thumbnailUrl ? 'New Sample' : 'Generate Sample'}
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Reference Image</label>
+                  <div className="aspect-square rounded-lg overflow-hidden bg-black border border-gray-700 flex items-center justify-center">
+                    {selected.referenceUrl
+                      ? <img src={selected.referenceUrl} alt={`${selected.name} reference`} className="w-full h-full object-contain" />
+                      : <span className="text-[10px] text-gray-600 uppercase tracking-wider">Optional</span>}
+                  </div>
+                  <div className="flex gap-2">
+                    <label className={`${smallButtonClasses} cursor-pointer`}>
+                      Upload
+                      <input
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={(e) => { handleUploadReference(selected.id, e.target.files); e.target.value = ''; }}
+                      />
+                    </label>
+                    {selected.referenceUrl && (
+                      <button type="button" onClick={() => onUpdate(selected.id, { referenceUrl: undefined })} className={smallButtonClasses}>Remove</button>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-gray-500">Sent with every image request in this style so the model can copy its look.</p>
+                </div>
+              </div>
+
+              <div className="flex gap-2 pt-2 border-t border-gray-700">
+                <Button variant="ghost" onClick={() => { const id = onDuplicate(selected.id); if (id) setSelectedId(id); }} className="text-xs">Duplicate</Button>
+                <Button variant="ghost" onClick={() => handleDelete(selected)} className="text-xs text-red-400">Delete</Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-center text-xs text-gray-500 border border-dashed border-gray-700 rounded-xl p-6">
+              No styles yet. Start one from {baseName} and make it your own.
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="primary" className="flex-1 py-4 uppercase tracking-widest" onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,19 @@
 import React, { useState, useRef } from 'react';
-import { GenerationMode, ComicPanel, ComicStyle, PanelSplitLayout, GutterSize, GridLayout, Character } from '../types';
+import { GenerationMode, ComicPanel, ComicStyle, PanelSplitLayout, GutterSize, GridLayout, Character, Balloon, BalloonType, StylePreset, SavedLayout } from '../types';
 import { Button } from './Button';
+import { PageLocation } from '../services/pageService';
+import { gridColumns, aspectRatioValues, getSlotAspectRatio, getSlotImageAspectRatio, countSlots } from '../services/layoutService';
+import { MAX_CANDIDATES } from '../services/candidateService';
+import { removeCharacterReference, MAX_REFERENCES_PER_CHARACTER } from '../services/characterService';
+import { readFileAsDataURL } from '../services/fileService';
+import { balloonTypeLabels, getOrderedBalloons } from '../services/balloonService';
+import { builtInStyles, isBuiltInStyle, DEFAULT_STYLE, StyleId } from '../services/styleService';
+import { VersionFilmstrip } from './VersionFilmstrip';
+import { PromptHistory } from './PromptHistory';
+import { SketchCanvas } from './SketchCanvas';
+import { ExtendCanvasControls } from './ExtendCanvasControls';
+import { ExtendDirection } from '../services/outpaintService';
+import { EditMask, MASK_BRUSH_SIZES, MAX_MASK_FEATHER, hasMaskStrokes } from '../services/maskService';
 import { v4 as uuidv4 } from 'uuid';
 
 interface ToolboxProps {
@@ -8,65 +21,116 @@ interface ToolboxProps {
   setMode: (mode: GenerationMode) => void;
   selectedPanel: ComicPanel | undefined;
   activeSlotId: string | null;
-  isProcessing: boolean;
-  onGenerate: (prompt: string, style: ComicStyle, sketchBase64?: string) => void;
-  onEdit: (prompt: string) => void;
+  onGenerate: (prompt: string, style: StyleId, sketchBase64?: string, count?: number) => void;
+  onEdit: (prompt: string, count?: number) => void;
+  onInspectGenerate: (prompt: string, style: StyleId, sketchBase64?: string, count?: number) => void;
+  onInspectEdit: (prompt: string, count?: number) => void;
+  onRerunPrompt: (panelId: string, imageId: string, recordId: string, inspect?: boolean) => void;
+  onForgetSketch: (panelId: string, imageId: string) => void;
+  editMask: EditMask | null; // The active slot's mask, if one is being painted
+  onToggleMaskPainting: () => void;
+  onChangeEditMask: (changes: Partial<Pick<EditMask, 'strokes' | 'tool' | 'brushSize' | 'feather' | 'invert'>>) => void;
+  onClearEditMask: () => void;
+  onExtendCanvas: (panelId: string, imageId: string, direction: ExtendDirection, count?: number) => void;
   onNarrativeAssist: (type: 'PLOT' | 'DIALOGUE' | 'NEXT_PANEL', context: string, charContext?: string) => Promise<string>;
-  onUpdateCaption: (id: string, caption: string) => void;
+  onAddBalloon: (panelId: string, type: BalloonType, text?: string) => void;
+  onUpdateBalloon: (panelId: string, balloonId: string, changes: Partial<Omit<Balloon, 'id' | 'order'>>) => void;
+  onMoveBalloon: (panelId: string, balloonId: string, delta: -1 | 1) => void;
+  onDeleteBalloon: (panelId: string, balloonId: string) => void;
   onChangeSplitLayout: (id: string, layout: PanelSplitLayout) => void;
+  customLayouts: SavedLayout[];
+  onApplySavedLayout: (panelId: string, layoutId: string) => void;
+  onOpenLayoutEditor: (panelId: string) => void;
   onUpdatePanelSpan: (id: string, span: 1 | 2 | 3 | 4 | 5 | 6) => void;
-  onToggleOverlay: (id: string, type: any) => void;
+  onChangeAspectRatio: (id: string, aspectRatio: ComicPanel['aspectRatio']) => void;
+  onSelectImageVersion: (panelId: string, imageId: string, versionId: string) => void;
   gutterSize: GutterSize;
   setGutterSize: (size: GutterSize) => void;
   panelsCount: number;
   lastPanelPrompt?: string;
   characters: Character[];
   onUpdateCharacters: (characters: Character[]) => void;
+  onAddCharacterReferences: (characterId: string, urls: string[]) => void;
+  onGenerateReferenceSheet: (characterId: string, style: StyleId) => void;
+  stylePresets: StylePreset[];
+  onOpenStyleLibrary: (baseStyle: StyleId) => void;
   gridLayout: GridLayout;
   setGridLayout: (layout: GridLayout) => void;
+  pages: PageLocation[];
+  activePageId: string | null;
+  onMovePanelToPage: (panelId: string, pageId: string) => void;
+  emptySlotCounts: { panel: number; page: number };
+  onFillEmptySlots: (scope: 'PANEL' | 'PAGE', style: StyleId) => void;
+  onOpenScriptWriter: (premise: string) => void;
 }
 
+const balloonButtonClasses: Record<BalloonType, string> = {
+  'SPEECH': 'bg-white text-black rounded-lg border border-gray-600 hover:bg-gray-200',
+  'THOUGHT': 'bg-white text-black rounded-full border-dashed border-2 border-gray-600 hover:bg-gray-200',
+  'WHISPER': 'bg-white text-gray-600 rounded-lg border-dashed border-2 border-gray-500 hover:bg-gray-200',
+  'SHOUT': 'bg-red-100 text-red-900 rounded-lg border border-red-900 hover:bg-red-200',
+  'CAPTION': 'bg-comic-yellow text-black rounded-lg border border-black hover:opacity-80',
+  'SFX': 'bg-transparent text-comic-yellow border border-comic-yellow rounded-lg hover:bg-white/10 font-comic',
+};
+
 export const Toolbox: React.FC<ToolboxProps> = ({
   mode,
   setMode,
   selectedPanel,
   activeSlotId,
-  isProcessing,
   onGenerate,
   onEdit,
+  onInspectGenerate,
+  onInspectEdit,
+  onRerunPrompt,
+  onForgetSketch,
+  editMask,
+  onToggleMaskPainting,
+  onChangeEditMask,
+  onClearEditMask,
+  onExtendCanvas,
   onNarrativeAssist,
-  onUpdateCaption,
+  onAddBalloon,
+  onUpdateBalloon,
+  onMoveBalloon,
+  onDeleteBalloon,
   onChangeSplitLayout,
+  customLayouts,
+  onApplySavedLayout,
+  onOpenLayoutEditor,
   onUpdatePanelSpan,
-  onToggleOverlay,
+  onChangeAspectRatio,
+  onSelectImageVersion,
   gutterSize,
   setGutterSize,
   panelsCount,
   lastPanelPrompt,
   characters,
   onUpdateCharacters,
+  onAddCharacterReferences,
+  onGenerateReferenceSheet,
+  stylePresets,
+  onOpenStyleLibrary,
   gridLayout,
-  setGridLayout
+  setGridLayout,
+  pages,
+  activePageId,
+  onMovePanelToPage,
+  emptySlotCounts,
+  onFillEmptySlots,
+  onOpenScriptWriter
 }) => {
   const [prompt, setPrompt] = useState('');
-  const [style, setStyle] = useState<ComicStyle>('MODERN');
+  const [pickedStyle, setStyle] = useState<StyleId>(DEFAULT_STYLE);
   const [narrativeContext, setNarrativeContext] = useState('');
   const [uploadedSketch, setUploadedSketch] = useState<string | null>(null);
+  const [sketchPad, setSketchPad] = useState<{ base?: string } | null>(null); // Set while the sketch pad is open
+  const [isAssisting, setIsAssisting] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(1);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const styles: { id: ComicStyle; label: string }[] = [
-    { id: 'MODERN', label: 'Modern' },
-    { id: 'SUPERHERO', label: 'Superhero (Marvel)' },
-    { id: 'MANGA', label: 'Manga / Anime' },
-    { id: 'GHIBLI', label: 'Studio Ghibli' },
-    { id: 'NOIR', label: 'Noir (B&W)' },
-    { id: 'RETRO', label: 'Vintage 50s' },
-    { id: 'CYBERPUNK', label: 'Cyberpunk' },
-    { id: 'FANTASY', label: 'Epic Fantasy' },
-    { id: 'HORROR', label: 'Horror / Dark' },
-    { id: 'SKETCH', label: 'Sketch' },
-    { id: 'WATERCOLOR', label: 'Watercolor' },
-  ];
+  // A preset can be deleted (or undone away) while it's picked
+  const style = isBuiltInStyle(pickedStyle) || stylePresets.some(p => p.id === pickedStyle) ? pickedStyle : DEFAULT_STYLE;
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -84,15 +148,25 @@ export const Toolbox: React.FC<ToolboxProps> = ({
     if (!prompt.trim()) return;
     
     if (mode === GenerationMode.CREATE) {
-      onGenerate(prompt, style, uploadedSketch || undefined);
+      onGenerate(prompt, style, uploadedSketch || undefined, candidateCount);
       setPrompt('');
       setUploadedSketch(null); 
     } else if (mode === GenerationMode.EDIT) {
-      onEdit(prompt);
+      onEdit(prompt, candidateCount);
       setPrompt('');
     }
   };
-  
+
+  // Opens the same request in the prompt inspector; the typed text stays in case it isn't sent
+  const handleInspect = () => {
+    if (!prompt.trim()) return;
+    if (mode === GenerationMode.CREATE) {
+      onInspectGenerate(prompt, style, uploadedSketch || undefined, candidateCount);
+    } else if (mode === GenerationMode.EDIT) {
+      onInspectEdit(prompt, candidateCount);
+    }
+  };
+
   const getCharacterContextString = () => {
     if (characters.length === 0) return '';
     return characters.map(c => `${c.name}: ${c.description}`).join('. ');
@@ -109,18 +183,21 @@ export const Toolbox: React.FC<ToolboxProps> = ({
       context = lastPanelPrompt;
     }
 
+    setIsAssisting(true);
     try {
       const result = await onNarrativeAssist(type, context, charContext);
       
       if (type === 'PLOT' || type === 'NEXT_PANEL') {
         setPrompt(result);
         setMode(GenerationMode.CREATE);
-      } else if (type === 'DIALOGUE' && selectedPanel) {
-        onUpdateCaption(selectedPanel.id, result);
+      } else if (type === 'DIALOGUE' && selectedPanel && result.trim()) {
+        onAddBalloon(selectedPanel.id, 'SPEECH', result.trim());
       }
       setNarrativeContext(''); 
     } catch (e) {
       // Error handled in App
+    } finally {
+      setIsAssisting(false);
     }
   };
 
@@ -130,13 +207,17 @@ export const Toolbox: React.FC<ToolboxProps> = ({
     }
   }, [selectedPanel?.id]); 
 
-  const isActiveSlotEmpty = selectedPanel?.images.find(img => img.id === activeSlotId)?.url === '';
+  const activeImage = selectedPanel?.images.find(img => img.id === activeSlotId);
+  const isActiveSlotEmpty = activeImage?.url === '';
+  // Shape of the active slot, which sketches are drawn at and images extend to; a new panel starts square
+  const slotAspectRatio = selectedPanel && activeImage ? getSlotAspectRatio(selectedPanel, selectedPanel.images.indexOf(activeImage)) : 1;
+  const activeSlotIndex = selectedPanel?.images.findIndex(img => img.id === activeSlotId) ?? -1;
 
   const renderLayoutButton = (layout: PanelSplitLayout, icon: React.ReactNode, title: string) => (
     <button
       type="button"
       onClick={() => onChangeSplitLayout(selectedPanel!.id, layout)}
-      className={`p-3 border rounded-xl flex items-center justify-center transition-all ${selectedPanel?.splitLayout === layout ? 'bg-comic-yellow text-black border-comic-yellow ring-2 ring-comic-yellow/30' : 'bg-black/30 border-gray-600 text-gray-400 hover:bg-white/10 hover:border-gray-400'}`}
+      className={`p-3 border rounded-xl flex items-center justify-center transition-all ${selectedPanel?.splitLayout === layout && !selectedPanel.geometry ? 'bg-comic-yellow text-black border-comic-yellow ring-2 ring-comic-yellow/30' : 'bg-black/30 border-gray-600 text-gray-400 hover:bg-white/10 hover:border-gray-400'}`}
       title={title}
     >
       {icon}
@@ -151,18 +232,25 @@ export const Toolbox: React.FC<ToolboxProps> = ({
     onUpdateCharacters(characters.map(c => c.id === id ? { ...c, [field]: value } : c));
   };
 
+  const handleUploadReferences = async (id: string, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      onAddCharacterReferences(id, await Promise.all(Array.from(files).map(readFileAsDataURL)));
+    } catch (error) {
+      console.error(error);
+      alert('Failed to read the reference images.');
+    }
+  };
+
+  const handleRemoveReference = (id: string, referenceId: string) => {
+    onUpdateCharacters(characters.map(c => c.id === id ? removeCharacterReference(c, referenceId) : c));
+  };
+
   const handleRemoveCharacter = (id: string) => {
     onUpdateCharacters(characters.filter(c => c.id !== id));
   };
   
-  const maxSpanForLayout: Record<GridLayout, number> = {
-    [GridLayout.STANDARD]: 3,
-    [GridLayout.CLASSIC]: 2,
-    [GridLayout.VERTICAL]: 1,
-    [GridLayout.DYNAMIC]: 4,
-    [GridLayout.STORYBOARD]: 6,
-  };
-  const maxSpan = maxSpanForLayout[gridLayout];
+  const maxSpan = gridColumns[gridLayout];
   
   const renderGridPreview = (layout: GridLayout) => {
     switch (layout) {
@@ -266,7 +354,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                  
                   {/* PAGE LAYOUT */}
                  <div>
-                   <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Grid Layout</label>
+                   <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Page Grid Layout</label>
                    <div className="grid grid-cols-3 lg:grid-cols-5 gap-2">
                      {(Object.keys(GridLayout) as Array<keyof typeof GridLayout>).map(key => (
                        <button
@@ -285,7 +373,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
 
                   <div>
                    <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
-                     Gutter Size
+                     Page Gutter Size
                    </label>
                    <div className="grid grid-cols-3 gap-2">
                      {(['NONE', 'TINY', 'SMALL', 'MEDIUM', 'LARGE', 'HUGE'] as GutterSize[]).map((size) => (
@@ -321,6 +409,40 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                            placeholder="Visual description (e.g., blonde warrior, red armor)"
                            className="w-full bg-transparent text-xs text-gray-300 h-10 resize-none focus:outline-none"
                          />
+                         <div className="flex flex-wrap items-center gap-2">
+                           {(char.referenceImages ?? []).map(ref => (
+                             <div key={ref.id} className="relative group/ref w-12 h-12 rounded overflow-hidden border border-gray-600 bg-black">
+                               <img src={ref.url} alt={`${char.name} reference`} className="w-full h-full object-cover" />
+                               <button
+                                 type="button"
+                                 onClick={() => handleRemoveReference(char.id, ref.id)}
+                                 className="absolute inset-0 bg-black/60 text-red-300 text-xs font-bold opacity-0 group-hover/ref:opacity-100 transition-opacity"
+                                 title="Remove reference"
+                               >
+                                 ✕
+                               </button>
+                             </div>
+                           ))}
+                           <label className="px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded border border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white cursor-pointer">
+                             Upload Ref
+                             <input
+                               type="file"
+                               accept="image/*"
+                               multiple
+                               className="hidden"
+                               onChange={(e) => { handleUploadReferences(char.id, e.target.files); e.target.value = ''; }}
+                             />
+                           </label>
+                           <button
+                             type="button"
+                             onClick={() => onGenerateReferenceSheet(char.id, style)}
+                             disabled={!char.description.trim()}
+                             className="px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded border border-gray-600 text-gray-400 hover:border-gray-400 hover:text-white disabled:opacity-30"
+                             title={char.description.trim() ? 'Generate a turnaround sheet from the description' : 'Describe the character first'}
+                           >
+                             Generate Sheet
+                           </button>
+                         </div>
                          <button onClick={() => handleRemoveCharacter(char.id)} className="absolute top-2 right-2 text-gray-500 hover:text-red-500">
                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
                          </button>
@@ -330,7 +452,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                        Add Character
                      </Button>
                    </div>
-                   <p className="text-[10px] text-gray-500 mt-2">These details are added to every generation prompt.</p>
+                   <p className="text-[10px] text-gray-500 mt-2">These details are added to every generation prompt. Reference images (up to {MAX_REFERENCES_PER_CHARACTER} each) are sent with sketches and edits whenever the character is named.</p>
                  </div>
               </div>
 
@@ -357,20 +479,103 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                       </div>
                       <p className="text-[10px] text-gray-500 mt-2">Max size depends on the current Grid Layout.</p>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Aspect Ratio</label>
+                      <div className="grid grid-cols-5 gap-2">
+                        {(Object.keys(aspectRatioValues) as ComicPanel['aspectRatio'][]).map(ratio => (
+                          <button
+                            key={ratio}
+                            type="button"
+                            onClick={() => onChangeAspectRatio(selectedPanel.id, ratio)}
+                            className={`py-3 text-xs font-bold rounded-lg transition-colors ${selectedPanel.aspectRatio === ratio ? 'bg-comic-yellow text-black' : 'bg-black/30 text-gray-400 hover:bg-white/10'}`}>
+                              {ratio}
+                          </button>
+                        ))}
+                      </div>
+                      {activeSlotIndex >= 0 && (
+                        <p className="text-[10px] text-gray-500 mt-2">New art for the selected slot is generated at {getSlotImageAspectRatio(selectedPanel, activeSlotIndex)}.</p>
+                      )}
+                    </div>
                     
                      <div>
-                       <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Text & Overlays</label>
+                       <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Balloons</label>
                        <div className="grid grid-cols-3 gap-3">
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'BUBBLE_LEFT')} className="p-2 flex flex-col items-center text-center bg-white text-black text-[10px] font-bold rounded-lg border border-gray-600 hover:bg-gray-200 shadow-sm active:scale-95 transition-transform">Speech L</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'BUBBLE_RIGHT')} className="p-2 flex flex-col items-center text-center bg-white text-black text-[10px] font-bold rounded-lg border border-gray-600 hover:bg-gray-200 shadow-sm active:scale-95 transition-transform">Speech R</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'THOUGHT')} className="p-2 flex flex-col items-center text-center bg-white text-black text-[10px] font-bold rounded-full border-dashed border-2 border-gray-600 hover:bg-gray-200 shadow-sm active:scale-95 transition-transform">Thought</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'WHISPER')} className="p-2 flex flex-col items-center text-center bg-white text-gray-600 text-[10px] font-bold rounded-lg border-dashed border-2 border-gray-500 hover:bg-gray-200 shadow-sm active:scale-95 transition-transform">Whisper</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'SHOUT')} className="p-2 flex flex-col items-center text-center bg-red-100 text-red-900 text-[10px] font-bold rounded-lg border border-red-900 hover:bg-red-200 shadow-sm active:scale-95 transition-transform">SHOUT!</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'CAPTION_BOX')} className="p-2 flex flex-col items-center text-center bg-comic-yellow text-black text-[10px] font-bold rounded-lg border border-black hover:opacity-80 shadow-sm active:scale-95 transition-transform">Caption</button>
-                          <button type="button" onClick={() => onToggleOverlay(selectedPanel.id, 'ONOMATOPOEIA')} className="p-2 flex flex-col items-center text-center bg-transparent text-comic-yellow text-[10px] font-bold border border-comic-yellow rounded-lg hover:bg-white/10 font-comic shadow-sm active:scale-95 transition-transform">Sound FX</button>
+                          {(Object.keys(balloonTypeLabels) as BalloonType[]).map(type => (
+                            <button
+                              key={type}
+                              type="button"
+                              onClick={() => onAddBalloon(selectedPanel.id, type)}
+                              className={`p-2 flex flex-col items-center text-center text-[10px] font-bold shadow-sm active:scale-95 transition-transform ${balloonButtonClasses[type]}`}
+                            >
+                              + {balloonTypeLabels[type]}
+                            </button>
+                          ))}
                        </div>
+
+                       {selectedPanel.balloons.length > 0 ? (
+                         <div className="space-y-3 mt-4">
+                           {getOrderedBalloons(selectedPanel).map((balloon, index, ordered) => (
+                             <div key={balloon.id} className="bg-black/30 p-3 rounded-xl border border-gray-700">
+                               <div className="flex items-center gap-2 mb-2">
+                                 <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex-1">{index + 1}. {balloonTypeLabels[balloon.type]}</span>
+                                 <button type="button" onClick={() => onMoveBalloon(selectedPanel.id, balloon.id, -1)} disabled={index === 0} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Read earlier">↑</button>
+                                 <button type="button" onClick={() => onMoveBalloon(selectedPanel.id, balloon.id, 1)} disabled={index === ordered.length - 1} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Read later">↓</button>
+                                 <button type="button" onClick={() => onDeleteBalloon(selectedPanel.id, balloon.id)} className="px-2 text-red-400 hover:text-red-300" title="Delete balloon">✕</button>
+                               </div>
+                               <textarea
+                                 value={balloon.text}
+                                 onChange={(e) => onUpdateBalloon(selectedPanel.id, balloon.id, { text: e.target.value })}
+                                 placeholder={balloon.type === 'SFX' ? 'KRAK!' : 'Write the lettering...'}
+                                 className="w-full bg-black/50 border border-gray-600 rounded-lg p-2 text-sm text-white focus:border-comic-accent focus:outline-none resize-none"
+                                 rows={2}
+                               />
+                               {balloon.position && (
+                                 <div className="flex gap-2 mt-2">
+                                   <button type="button" onClick={() => onUpdateBalloon(selectedPanel.id, balloon.id, { position: undefined, tail: undefined })} className="flex-1 py-1 text-[10px] font-bold uppercase rounded-lg bg-black/40 text-gray-400 hover:text-white" title="Let the balloon flow with the others again">Auto Place</button>
+                                   {balloon.tail && (
+                                     <button type="button" onClick={() => onUpdateBalloon(selectedPanel.id, balloon.id, { tail: undefined })} className="flex-1 py-1 text-[10px] font-bold uppercase rounded-lg bg-black/40 text-gray-400 hover:text-white">Remove Tail</button>
+                                   )}
+                                 </div>
+                               )}
+                               {balloon.type !== 'CAPTION' && balloon.type !== 'SFX' && (
+                                 <select
+                                   value={balloon.speakerId ?? ''}
+                                   onChange={(e) => onUpdateBalloon(selectedPanel.id, balloon.id, { speakerId: e.target.value || undefined })}
+                                   className="w-full mt-2 bg-black/50 border border-gray-600 rounded-lg p-2 text-xs text-white focus:border-comic-accent focus:outline-none"
+                                 >
+                                   <option value="">No speaker</option>
+                                   {characters.filter(c => c.name.trim()).map(c => (
+                                     <option key={c.id} value={c.id}>{c.name}</option>
+                                   ))}
+                                 </select>
+                               )}
+                             </div>
+                           ))}
+                         </div>
+                       ) : (
+                         <p className="text-xs text-gray-500 mt-3">No lettering yet. Balloons are read top to bottom and switch sides when the speaker changes. Drag one on the panel to place it by hand.</p>
+                       )}
                      </div>
                      
+                     {pages.length > 1 && (
+                       <div>
+                         <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Move to Page</label>
+                         <select
+                           value=""
+                           onChange={(e) => e.target.value && onMovePanelToPage(selectedPanel.id, e.target.value)}
+                           className="w-full bg-black/50 border border-gray-600 rounded-xl p-3 text-white text-sm focus:border-comic-accent focus:ring-1 focus:ring-comic-accent focus:outline-none"
+                         >
+                           <option value="">Choose a page...</option>
+                           {pages.filter(loc => loc.page.id !== activePageId).map(loc => (
+                             <option key={loc.page.id} value={loc.page.id}>
+                               Page {loc.pageNumber}{loc.chapter.title ? ` (${loc.chapter.title})` : ''}
+                             </option>
+                           ))}
+                         </select>
+                       </div>
+                     )}
+
                      <div>
                        <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Internal Layout</label>
                        <div className="grid grid-cols-4 gap-3">
@@ -385,6 +590,39 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                          {renderLayoutButton('BIG_BOTTOM', <div className="w-6 h-6 border-2 border-current grid grid-cols-2 grid-rows-2"><div className="border-r-2 border-current border-b-2"></div><div className="border-b-2 border-current"></div><div className="col-span-2"></div></div>, "Big Bottom")}
                          {renderLayoutButton('QUAD', <div className="w-6 h-6 border-2 border-current grid grid-cols-2 grid-rows-2"><div className="border-r border-b border-current"></div><div className="border-b border-current"></div><div className="border-r border-current"></div></div>, "Quad")}
                        </div>
+                       {customLayouts.length > 0 && (
+                         <div className="flex flex-wrap gap-2 mt-3">
+                           {customLayouts.map(layout => (
+                             <button
+                               key={layout.id}
+                               type="button"
+                               onClick={() => onApplySavedLayout(selectedPanel.id, layout.id)}
+                               className="px-3 py-1.5 text-xs font-bold rounded-lg border border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5 hover:text-white transition-colors"
+                               title={`${countSlots(layout.geometry)} slot${countSlots(layout.geometry) === 1 ? '' : 's'}`}
+                             >
+                               {layout.name}
+                             </button>
+                           ))}
+                         </div>
+                       )}
+                       <Button
+                         type="button"
+                         variant="ghost"
+                         onClick={() => onOpenLayoutEditor(selectedPanel.id)}
+                         className="w-full mt-3 border border-gray-600 text-xs uppercase tracking-wider"
+                       >
+                         {selectedPanel.geometry ? 'Edit Custom Layout' : 'Customize Layout'}
+                       </Button>
+                       {emptySlotCounts.panel > 0 && (
+                         <Button
+                           type="button"
+                           variant="ghost"
+                           onClick={() => onFillEmptySlots('PANEL', style)}
+                           className="w-full mt-3 border border-gray-600 text-xs uppercase tracking-wider"
+                         >
+                           Fill {emptySlotCounts.panel} Empty Slot{emptySlotCounts.panel === 1 ? '' : 's'}
+                         </Button>
+                       )}
                      </div>
                  </div>
               ) : (
@@ -410,7 +648,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
               <Button 
                 variant="primary" 
                 onClick={() => handleStoryAssist('PLOT')}
-                isLoading={isProcessing}
+                isLoading={isAssisting}
                 className="w-full py-4 text-base bg-blue-600 hover:bg-blue-500 shadow-blue-900/20"
               >
                 Generate Scene Idea
@@ -422,7 +660,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                 <Button 
                   variant="secondary" 
                   onClick={() => handleStoryAssist('NEXT_PANEL')}
-                  disabled={panelsCount === 0 || isProcessing}
+                  disabled={panelsCount === 0 || isAssisting}
                   className="w-full justify-between py-4"
                 >
                   <span>Continue Story</span>
@@ -431,7 +669,7 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                  <Button 
                   variant="secondary" 
                   onClick={() => handleStoryAssist('DIALOGUE')}
-                  disabled={!selectedPanel || isProcessing}
+                  disabled={!selectedPanel || isAssisting}
                   className="w-full justify-between py-4"
                 >
                   <span>Write Caption</span>
@@ -439,6 +677,17 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                 </Button>
               </div>
             </div>
+            <div className="space-y-3 pt-4 border-t border-gray-700">
+              <h3 className="text-sm font-bold text-gray-300 uppercase">3. Write Pages</h3>
+              <p className="text-xs text-gray-500">Turn the idea above into a script of whole pages: panels, shots and dialogue, ready to generate.</p>
+              <Button 
+                variant="secondary" 
+                onClick={() => onOpenScriptWriter(narrativeContext)}
+                className="w-full py-4"
+              >
+                Write Pages from Premise
+              </Button>
+            </div>
           </div>
         ) : (
           (mode === GenerationMode.CREATE || (mode === GenerationMode.EDIT && selectedPanel)) ? (
@@ -446,18 +695,32 @@ export const Toolbox: React.FC<ToolboxProps> = ({
             {mode === GenerationMode.CREATE && (
               <>
                 <div>
-                  <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
-                    Art Style
-                  </label>
+                  <div className="flex items-center justify-between mb-3">
+                    <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider">
+                      Art Style
+                    </label>
+                    <button type="button" onClick={() => onOpenStyleLibrary(style)} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white">
+                      Style Library
+                    </button>
+                  </div>
                   <div className="relative">
                     <select 
                       value={style}
-                      onChange={(e) => setStyle(e.target.value as ComicStyle)}
+                      onChange={(e) => setStyle(e.target.value)}
                       className="w-full bg-black/50 border border-gray-600 rounded-xl p-4 text-white text-base focus:border-comic-accent focus:ring-1 focus:ring-comic-accent focus:outline-none appearance-none"
                     >
-                      {styles.map(s => (
-                        <option key={s.id} value={s.id}>{s.label}</option>
-                      ))}
+                      {stylePresets.length > 0 && (
+                        <optgroup label="Project Styles">
+                          {stylePresets.map(p => (
+                            <option key={p.id} value={p.id}>{p.name.trim() || 'Untitled style'}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                      <optgroup label="Built-in">
+                        {(Object.keys(builtInStyles) as ComicStyle[]).map(id => (
+                          <option key={id} value={id}>{builtInStyles[id].label}</option>
+                        ))}
+                      </optgroup>
                     </select>
                     <div className="absolute right-4 top-1/2 transform -translate-y-1/2 pointer-events-none text-gray-400">
                       <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>
@@ -465,6 +728,34 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                   </div>
                 </div>
 
+                {emptySlotCounts.page > 0 && (
+                  <div>
+                    <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
+                      Fill Empty Slots
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => onFillEmptySlots('PANEL', style)}
+                        disabled={emptySlotCounts.panel === 0}
+                        className="border border-gray-600 text-xs"
+                        title={selectedPanel ? undefined : 'Select a panel first'}
+                      >
+                        This Panel ({emptySlotCounts.panel})
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => onFillEmptySlots('PAGE', style)}
+                        className="border border-gray-600 text-xs"
+                      >
+                        Whole Page ({emptySlotCounts.page})
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 <div className="p-4 rounded-xl bg-black/20 border-2 border-dashed border-gray-600 hover:border-gray-400 hover:bg-black/30 transition-all cursor-pointer group">
                   <input 
                     type="file" 
@@ -495,9 +786,109 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                     </div>
                   )}
                 </div>
+
+                <div className="grid grid-cols-2 gap-2 -mt-4">
+                  <Button type="button" variant="ghost" onClick={() => setSketchPad({ base: uploadedSketch ?? undefined })} className="border border-gray-600 text-xs">
+                    {uploadedSketch ? 'Draw Over Sketch' : 'Draw Sketch'}
+                  </Button>
+                  {selectedPanel && activeImage?.sketchUrl ? (
+                    <div className="flex items-center gap-2 px-2 rounded-lg border border-gray-700">
+                      <img src={activeImage.sketchUrl} alt="Saved sketch" className="w-8 h-8 object-cover rounded bg-white" />
+                      <button type="button" onClick={() => setUploadedSketch(activeImage.sketchUrl!)} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white" title="Transform the slot's last sketch again, e.g. in another style">Reuse</button>
+                      <button type="button" onClick={() => onForgetSketch(selectedPanel.id, activeImage.id)} className="ml-auto text-gray-500 hover:text-red-400" title="Forget the saved sketch">✕</button>
+                    </div>
+                  ) : <div />}
+                </div>
               </>
             )}
 
+            {mode === GenerationMode.EDIT && selectedPanel && activeImage && activeImage.versions.length > 0 && (
+              <VersionFilmstrip
+                image={activeImage}
+                onSelectVersion={(versionId) => onSelectImageVersion(selectedPanel.id, activeImage.id, versionId)}
+              />
+            )}
+
+            {mode === GenerationMode.EDIT && selectedPanel && activeImage?.url && (
+              <ExtendCanvasControls
+                imageUrl={activeImage.url}
+                slotAspectRatio={slotAspectRatio}
+                onExtend={(direction) => onExtendCanvas(selectedPanel.id, activeImage.id, direction, candidateCount)}
+              />
+            )}
+
+            {mode === GenerationMode.EDIT && activeImage?.url && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider">
+                    Edit Region
+                  </label>
+                  {editMask && (
+                    <div className="flex gap-3">
+                      <button type="button" onClick={() => onChangeEditMask({ strokes: editMask.strokes.slice(0, -1) })} disabled={editMask.strokes.length === 0} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white disabled:opacity-30">
+                        Undo
+                      </button>
+                      <button type="button" onClick={onClearEditMask} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-red-400">
+                        Clear
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <Button type="button" variant="ghost" onClick={onToggleMaskPainting} className={`w-full border text-xs ${editMask?.painting ? 'border-comic-accent text-comic-accent' : 'border-gray-600'}`}>
+                  {editMask?.painting ? 'Done Painting' : editMask ? 'Paint More' : 'Paint Mask'}
+                </Button>
+                {editMask && (
+                  <div className="space-y-3 mt-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {(['PEN', 'ERASER'] as const).map(tool => (
+                        <button
+                          key={tool}
+                          type="button"
+                          onClick={() => onChangeEditMask({ tool })}
+                          className={`px-3 py-2 text-xs font-bold rounded-lg border transition-colors ${editMask.tool === tool ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5'}`}
+                        >
+                          {tool === 'PEN' ? 'Paint' : 'Erase'}
+                        </button>
+                      ))}
+                      <span className="w-px h-6 bg-gray-700 mx-1" />
+                      {MASK_BRUSH_SIZES.map(size => (
+                        <button
+                          key={size}
+                          type="button"
+                          onClick={() => onChangeEditMask({ brushSize: size })}
+                          className={`w-9 h-9 flex items-center justify-center rounded-lg border transition-colors ${editMask.brushSize === size ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5'}`}
+                          title={`${size}px brush`}
+                        >
+                          <span className="rounded-full bg-current" style={{ width: Math.max(3, size / 3), height: Math.max(3, size / 3) }} />
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider w-14">Feather</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_MASK_FEATHER}
+                        value={editMask.feather}
+                        onChange={(e) => onChangeEditMask({ feather: Number(e.target.value) })}
+                        className="flex-1 accent-comic-accent"
+                      />
+                      <span className="text-[10px] text-gray-500 w-8 text-right">{editMask.feather}px</span>
+                    </div>
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider cursor-pointer">
+                      <input type="checkbox" checked={editMask.invert} onChange={(e) => onChangeEditMask({ invert: e.target.checked })} />
+                      Invert (edit everything except the painted area)
+                    </label>
+                  </div>
+                )}
+                <p className="text-[10px] text-gray-500 mt-2">
+                  {hasMaskStrokes(editMask)
+                    ? 'Only the highlighted area can change; everything else is kept pixel for pixel.'
+                    : 'Paint over the slot to limit the edit to part of the image.'}
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">
                  {mode === GenerationMode.CREATE 
@@ -512,27 +903,85 @@ export const Toolbox: React.FC<ToolboxProps> = ({
                   : "Ex: Add a red cape, make the day sunny..."
                 }
                 className="w-full bg-black/50 border border-gray-600 rounded-xl p-4 text-white text-base focus:border-comic-accent focus:ring-1 focus:ring-comic-accent focus:outline-none resize-none h-32 transition-all"
-                disabled={isProcessing}
               />
             </div>
 
-            <Button 
-              type="submit" 
-              isLoading={isProcessing} 
-              disabled={!prompt.trim() || (mode === GenerationMode.EDIT && !selectedPanel)}
-              variant={mode === GenerationMode.CREATE ? 'primary' : 'secondary'}
-              className="w-full py-5 text-lg uppercase tracking-widest shadow-lg"
-            >
-              {mode === GenerationMode.CREATE 
-                ? (isActiveSlotEmpty ? 'Generate in Slot' : (uploadedSketch ? 'Transform Sketch' : 'Generate Panel')) 
-                : 'Apply Edit'}
-            </Button>
+            <div>
+              <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Candidates</label>
+              <div className="grid grid-cols-4 gap-2">
+                {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setCandidateCount(n)}
+                    className={`py-2 text-xs font-bold rounded-lg border transition-colors ${candidateCount === n ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400 hover:bg-white/5'}`}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+              {candidateCount > 1 && (
+                <p className="text-[10px] text-gray-500 mt-2">You'll pick one; the others go to the outtakes tray.</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button 
+                type="submit" 
+                disabled={!prompt.trim() || (mode === GenerationMode.EDIT && !selectedPanel)}
+                variant={mode === GenerationMode.CREATE ? 'primary' : 'secondary'}
+                className="flex-1 py-5 text-lg uppercase tracking-widest shadow-lg"
+              >
+                {mode === GenerationMode.CREATE 
+                  ? (isActiveSlotEmpty ? 'Generate in Slot' : (uploadedSketch ? 'Transform Sketch' : 'Generate Panel')) 
+                  : (hasMaskStrokes(editMask) ? 'Apply to Region' : 'Apply Edit')}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleInspect}
+                disabled={!prompt.trim() || (mode === GenerationMode.EDIT && !selectedPanel)}
+                className="border border-gray-600 text-xs"
+                title="See and edit the full prompt before sending"
+              >
+                Inspect
+              </Button>
+            </div>
+
+            {selectedPanel && activeImage && (activeImage.promptHistory?.length ?? 0) > 0 && (
+              <PromptHistory
+                records={activeImage.promptHistory!}
+                onRerun={(recordId) => onRerunPrompt(selectedPanel.id, activeImage.id, recordId)}
+                onInspect={(recordId) => onRerunPrompt(selectedPanel.id, activeImage.id, recordId, true)}
+              />
+            )}
           </form>
           ) : (
              <></> // No form if in edit mode without a selected panel
           )
         )}
       </div>
+
+      {sketchPad && (
+        <SketchCanvas
+          aspectRatio={slotAspectRatio}
+          targetLabel={selectedPanel && activeImage ? 'the selected slot' : 'a new panel'}
+          baseSketch={sketchPad.base}
+          onionSkinUrl={activeImage?.url || undefined}
+          initialPrompt={prompt || activeImage?.prompt || ''}
+          onTransform={(sketch, scene) => {
+            onGenerate(scene, style, sketch, candidateCount);
+            setPrompt('');
+            setUploadedSketch(null);
+            setSketchPad(null);
+          }}
+          onUseSketch={(sketch) => {
+            setUploadedSketch(sketch);
+            setSketchPad(null);
+          }}
+          onClose={() => setSketchPad(null)}
+        />
+      )}
     </div>
   );
 };
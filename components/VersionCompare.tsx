@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ComicImage, ImageVersion } from '../types';
+import { getVersionNumber } from '../services/imageVersionService';
+import { Button } from './Button';
+
+interface VersionCompareProps {
+  image: ComicImage;
+  versionA: ImageVersion;
+  versionB: ImageVersion;
+  onUseVersion: (versionId: string) => void;
+  onClose: () => void;
+}
+
+export const VersionCompare: React.FC<VersionCompareProps> = ({ image, versionA, versionB, onUseVersion, onClose }) => {
+  const [view, setView] = useState<'SLIDER' | 'SIDE_BY_SIDE'>('SLIDER');
+  const [sliderPosition, setSliderPosition] = useState(50);
+
+  const labelA = `v${getVersionNumber(image, versionA.id)}`;
+  const labelB = `v${getVersionNumber(image, versionB.id)}`;
+
+  const renderCaption = (label: string, version: ImageVersion) => (
+    <div className="text-xs text-gray-400 mt-2 line-clamp-2">
+      <span className="font-bold text-white mr-1">{label}</span>
+      {version.prompt}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="bg-comic-panel rounded-2xl border border-gray-700 shadow-2xl w-full max-w-4xl max-h-full overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-comic text-3xl text-comic-yellow tracking-wide">Compare {labelA} / {labelB}</h3>
+          <div className="flex gap-2">
+            {(['SLIDER', 'SIDE_BY_SIDE'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-xs font-bold rounded-lg border transition-colors ${view === option ? 'bg-gray-200 text-black border-white' : 'border-gray-600 text-gray-400 hover:border-gray-400'}`}
+              >
+                {option === 'SLIDER' ? 'Slider' : 'Side by Side'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {view === 'SLIDER' ? (
+          <div>
+            <div className="relative w-full aspect-square max-h-[60vh] mx-auto bg-black rounded-lg overflow-hidden select-none">
+              <img src={versionB.url} alt={labelB} className="absolute inset-0 w-full h-full object-contain" />
+              <img
+                src={versionA.url}
+                alt={labelA}
+                className="absolute inset-0 w-full h-full object-contain"
+                style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+              />
+              <div className="absolute top-0 bottom-0 w-0.5 bg-comic-yellow pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+              <span className="absolute top-2 left-2 text-xs font-bold bg-black/70 text-white px-2 py-0.5 rounded">{labelA}</span>
+              <span className="absolute top-2 right-2 text-xs font-bold bg-black/70 text-white px-2 py-0.5 rounded">{labelB}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sliderPosition}
+              onChange={(e) => setSliderPosition(Number(e.target.value))}
+              className="w-full mt-4 accent-comic-yellow"
+            />
+            <div className="grid grid-cols-2 gap-4">
+              {renderCaption(labelA, versionA)}
+              {renderCaption(labelB, versionB)}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {[{ label: labelA, version: versionA }, { label: labelB, version: versionB }].map(({ label, version }) => (
+              <div key={version.id}>
+                <img src={version.url} alt={label} className="w-full aspect-square object-contain bg-black rounded-lg" />
+                {renderCaption(label, version)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="secondary" className="flex-1" onClick={() => onUseVersion(versionA.id)}>Use {labelA}</Button>
+          <Button variant="secondary" className="flex-1" onClick={() => onUseVersion(versionB.id)}>Use {labelB}</Button>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
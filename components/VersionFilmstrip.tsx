@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ComicImage, ImageVersion } from '../types';
+import { getVersionNumber } from '../services/imageVersionService';
+import { VersionCompare } from './VersionCompare';
+
+interface VersionFilmstripProps {
+  image: ComicImage;
+  onSelectVersion: (versionId: string) => void;
+}
+
+const sourceLabels: Record<ImageVersion['source'], string> = {
+  'GENERATE': 'GEN',
+  'SKETCH': 'SKETCH',
+  'EDIT': 'EDIT',
+  'IMPORT': 'IMPORT',
+};
+
+export const VersionFilmstrip: React.FC<VersionFilmstripProps> = ({ image, onSelectVersion }) => {
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparePicks, setComparePicks] = useState<string[]>([]);
+
+  const handleThumbnailClick = (versionId: string) => {
+    if (!isComparing) {
+      onSelectVersion(versionId);
+      return;
+    }
+    setComparePicks(prev => {
+      if (prev.includes(versionId)) return prev.filter(id => id !== versionId);
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const toggleCompare = () => {
+    setIsComparing(!isComparing);
+    // Start a comparison against the active version, the most common case
+    setComparePicks(!isComparing && image.activeVersionId ? [image.activeVersionId] : []);
+  };
+
+  const [versionA, versionB] = comparePicks.map(id => image.versions.find(v => v.id === id));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-bold text-gray-400 uppercase tracking-wider">
+          Versions <span className="text-gray-600">({image.versions.length})</span>
+        </label>
+        {image.versions.length > 1 && (
+          <button
+            type="button"
+            onClick={toggleCompare}
+            className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border transition-colors ${isComparing ? 'bg-comic-yellow text-black border-comic-yellow' : 'border-gray-600 text-gray-400 hover:border-gray-400'}`}
+          >
+            {isComparing ? 'Cancel Compare' : 'Compare'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {image.versions.map((version, index) => {
+          const isActive = version.id === image.activeVersionId;
+          const pickIndex = comparePicks.indexOf(version.id);
+          const parentNumber = version.parentId ? getVersionNumber(image, version.parentId) : 0;
+          // Only call out the parent when this edit didn't follow straight on from the previous version
+          const isBranch = parentNumber > 0 && parentNumber !== index;
+
+          return (
+            <button
+              key={version.id}
+              type="button"
+              onClick={() => handleThumbnailClick(version.id)}
+              className={`relative flex-shrink-0 w-20 rounded-lg overflow-hidden border-2 transition-all ${isActive ? 'border-comic-yellow' : 'border-gray-700 hover:border-gray-400'} ${pickIndex >= 0 ? 'ring-2 ring-blue-500' : ''}`}
+              title={`${version.prompt}\n${new Date(version.createdAt).toLocaleString()}`}
+            >
+              <img src={version.url} alt={`Version ${index + 1}`} className="w-full h-20 object-cover bg-black" />
+              <div className="absolute top-0 left-0 right-0 flex justify-between px-1 pt-0.5">
+                <span className="text-[9px] font-bold bg-black/70 text-white px-1 rounded">v{index + 1}</span>
+                {pickIndex >= 0 && <span className="text-[9px] font-bold bg-blue-600 text-white px-1 rounded">{pickIndex === 0 ? 'A' : 'B'}</span>}
+              </div>
+              <div className={`text-[9px] font-bold py-0.5 ${isActive ? 'bg-comic-yellow text-black' : 'bg-black/60 text-gray-300'}`}>
+                {sourceLabels[version.source]}{isBranch ? ` · from v${parentNumber}` : ''}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-[10px] text-gray-500 mt-1">
+        {isComparing
+          ? 'Pick two versions to compare.'
+          : 'Click a version to revert to it. New edits branch from the active version.'}
+      </p>
+
+      {isComparing && versionA && versionB && (
+        <VersionCompare
+          image={image}
+          versionA={versionA}
+          versionB={versionB}
+          onUseVersion={(versionId) => {
+            onSelectVersion(versionId);
+            setIsComparing(false);
+            setComparePicks([]);
+          }}
+          onClose={() => setComparePicks(comparePicks.slice(0, 1))}
+        />
+      )}
+    </div>
+  );
+};
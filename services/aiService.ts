@@ -0,0 +1,69 @@
+import { AIProvider, EditRequestOptions, ImageAspectRatio, ImageRequestOptions, NarrativeType, RequestOptions, ScriptRequest, ShotPlanRequest } from './providers/types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+/**
+ * Entry point for every AI call in the app. Calls go to the active provider,
+ * which can be switched at runtime; the choice is remembered per browser.
+ */
+
+export type { AIProvider, EditRequestOptions, ImageAspectRatio, ImageReference, ImageRequestOptions, NarrativeType, RequestOptions, ScriptLine, ScriptPage, ScriptPanel, ScriptRequest, ShotPlanRequest, ShotSlot } from './providers/types';
+
+const PROVIDER_KEY = 'novelgen:provider';
+
+// The API_KEY is injected by the environment
+const apiKey = process.env.API_KEY;
+
+const providers = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+  providers.set(provider.id, provider);
+};
+
+registerProvider(createGeminiProvider(apiKey));
+registerProvider(createMockProvider());
+
+const getInitialProviderId = () => {
+  try {
+    // ?provider=mock makes it easy to open the app offline without touching settings
+    const requested = new URLSearchParams(window.location.search).get('provider') ?? localStorage.getItem(PROVIDER_KEY);
+    if (requested && providers.has(requested)) return requested;
+  } catch {
+    // No window or storage (e.g. tests); fall through to the default
+  }
+  return apiKey ? 'gemini' : 'mock';
+};
+
+let activeProviderId = getInitialProviderId();
+
+export const getProviders = (): AIProvider[] => Array.from(providers.values());
+
+export const getActiveProvider = (): AIProvider => providers.get(activeProviderId) ?? getProviders()[0];
+
+export const setActiveProvider = (id: string) => {
+  if (!providers.has(id)) throw new Error(`Unknown provider "${id}"`);
+  activeProviderId = id;
+  try {
+    localStorage.setItem(PROVIDER_KEY, id);
+  } catch {
+    // Best effort, like the last opened project
+  }
+};
+
+export const generateComicImage = (prompt: string, aspectRatio: ImageAspectRatio = '1:1', options?: ImageRequestOptions) =>
+  getActiveProvider().generateComicImage(prompt, aspectRatio, options);
+
+export const generateImageFromSketch = (sketch: string, prompt: string, options?: ImageRequestOptions) =>
+  getActiveProvider().generateImageFromSketch(sketch, prompt, options);
+
+export const editComicImage = (image: string, editPrompt: string, options?: EditRequestOptions) =>
+  getActiveProvider().editComicImage(image, editPrompt, options);
+
+export const generateNarrativeElement = (type: NarrativeType, context: string, characterContext: string = '', pageContext: string = '', options?: RequestOptions) =>
+  getActiveProvider().generateNarrativeElement(type, context, characterContext, pageContext, options);
+
+export const planShots = (request: ShotPlanRequest, options?: RequestOptions) =>
+  getActiveProvider().planShots(request, options);
+
+export const writeScript = (request: ScriptRequest, options?: RequestOptions) =>
+  getActiveProvider().writeScript(request, options);
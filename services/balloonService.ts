@@ -0,0 +1,203 @@
+import { Balloon, BalloonPosition, BalloonType, ComicPanel } from '../types';
+import { Point, Rect } from './layoutService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Lettering helpers. A panel holds any number of balloons; `order` is the
+ * reading order and is kept as 0..n-1 by every helper here.
+ */
+
+export const balloonTypeLabels: Record<BalloonType, string> = {
+  'SPEECH': 'Speech',
+  'THOUGHT': 'Thought',
+  'WHISPER': 'Whisper',
+  'SHOUT': 'Shout',
+  'CAPTION': 'Caption',
+  'SFX': 'Sound FX',
+};
+
+export type BalloonSide = 'LEFT' | 'RIGHT';
+
+const renumber = (balloons: Balloon[]): Balloon[] =>
+  balloons.map((balloon, order) => balloon.order === order ? balloon : { ...balloon, order });
+
+export const getOrderedBalloons = (panel: ComicPanel): Balloon[] =>
+  [...panel.balloons].sort((a, b) => a.order - b.order);
+
+export const addBalloon = (balloons: Balloon[], type: BalloonType, text: string = '', speakerId?: string): Balloon[] => [
+  ...balloons,
+  { id: uuidv4(), type, text, order: balloons.length, ...(speakerId ? { speakerId } : {}) },
+];
+
+export const updateBalloon = (balloons: Balloon[], balloonId: string, changes: Partial<Omit<Balloon, 'id' | 'order'>>): Balloon[] =>
+  balloons.map(balloon => {
+    if (balloon.id !== balloonId) return balloon;
+    const updated = { ...balloon, ...changes };
+    // Clearing a field removes it rather than saving an explicit undefined
+    if (!updated.speakerId) delete updated.speakerId;
+    if (!updated.position) delete updated.position;
+    if (!updated.tail) delete updated.tail;
+    return updated;
+  });
+
+export const removeBalloon = (balloons: Balloon[], balloonId: string): Balloon[] =>
+  renumber([...balloons].sort((a, b) => a.order - b.order).filter(balloon => balloon.id !== balloonId));
+
+/**
+ * Moves a balloon earlier (-1) or later (+1) in the reading order
+ */
+export const moveBalloon = (balloons: Balloon[], balloonId: string, delta: -1 | 1): Balloon[] => {
+  const ordered = [...balloons].sort((a, b) => a.order - b.order);
+  const from = ordered.findIndex(balloon => balloon.id === balloonId);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= ordered.length) return balloons;
+  [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+  return renumber(ordered);
+};
+
+/**
+ * Balloons that flow down the panel in reading order. Sound effects are
+ * drawn across the art instead, placed balloons sit where they were put,
+ * and empty balloons aren't drawn at all.
+ */
+export const getFlowBalloons = (panel: ComicPanel): Balloon[] =>
+  getOrderedBalloons(panel).filter(balloon => balloon.type !== 'SFX' && !balloon.position && balloon.text.trim());
+
+// Unplaced sound effects, stacked across the middle of the art
+export const getSoundEffects = (panel: ComicPanel): Balloon[] =>
+  getOrderedBalloons(panel).filter(balloon => balloon.type === 'SFX' && !balloon.position && balloon.text.trim());
+
+export const getPlacedBalloons = (panel: ComicPanel): Balloon[] =>
+  getOrderedBalloons(panel).filter(balloon => balloon.position && balloon.text.trim());
+
+/**
+ * Which side each flowing balloon sits on. The side switches whenever the
+ * speaker changes, so a two-person exchange reads left, right, left...
+ * Balloons without a speaker always switch.
+ */
+export const getBalloonSides = (balloons: Balloon[]): BalloonSide[] => {
+  let side: BalloonSide = 'LEFT';
+  return balloons.map((balloon, index) => {
+    const previous = balloons[index - 1];
+    if (previous && (!balloon.speakerId || balloon.speakerId !== previous.speakerId)) {
+      side = side === 'LEFT' ? 'RIGHT' : 'LEFT';
+    }
+    return side;
+  });
+};
+
+// A placed balloon without a tail points at whichever side of the panel it's on
+export const getPlacedSide = (position: BalloonPosition): BalloonSide =>
+  position.x + position.w / 2 < 0.5 ? 'LEFT' : 'RIGHT';
+
+// --- Placement ---
+
+// Smallest placed balloon, as a fraction of the art area
+export const MIN_BALLOON_SIZE = 0.08;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Keeps a dragged or resized balloon inside the art area
+ */
+export const clampBalloonPosition = (position: BalloonPosition): BalloonPosition => {
+  const w = clamp(position.w, MIN_BALLOON_SIZE, 1);
+  const h = clamp(position.h, MIN_BALLOON_SIZE, 1);
+  return { x: clamp(position.x, 0, 1 - w), y: clamp(position.y, 0, 1 - h), w, h };
+};
+
+export const clampTail = (tail: Point): Point => ({ x: clamp(tail.x, 0, 1), y: clamp(tail.y, 0, 1) });
+
+// Captions and sound effects have no speaker to point at
+export const canHaveTail = (type: BalloonType) => type !== 'CAPTION' && type !== 'SFX';
+
+// Where a new tail starts out: just below the balloon, towards the panel's centre
+export const getDefaultTail = (position: BalloonPosition): Point => clampTail({
+  x: position.x + position.w * (getPlacedSide(position) === 'LEFT' ? 0.3 : 0.7),
+  y: position.y + position.h + 0.12,
+});
+
+export const toAreaRect = (position: BalloonPosition, area: Rect): Rect => ({
+  x: area.x + position.x * area.w,
+  y: area.y + position.y * area.h,
+  w: position.w * area.w,
+  h: position.h * area.h,
+});
+
+// --- Tails ---
+
+// Corner radius of each body shape, in pixels (rounded-[2rem], rounded-xl)
+const cornerRadii: Partial<Record<BalloonType, number>> = { 'SPEECH': 32, 'WHISPER': 12 };
+// How far the tail base reaches into the body, so it covers the body's border
+const TAIL_OVERLAP = 4;
+
+/**
+ * Distance from the body's centre to its outline along the unit vector (dx, dy)
+ */
+const distanceToOutline = (type: BalloonType, body: Rect, dx: number, dy: number) => {
+  const a = body.w / 2;
+  const b = body.h / 2;
+  const toEllipse = 1 / Math.sqrt((dx / a) ** 2 + (dy / b) ** 2);
+  if (type === 'THOUGHT') return toEllipse;
+  // The shout outline zigzags in and out; aim the tail at its inner points
+  if (type === 'SHOUT') return toEllipse * 0.6;
+
+  const r = Math.min(cornerRadii[type] ?? 0, a, b);
+  const t = Math.min(dx ? a / Math.abs(dx) : Infinity, dy ? b / Math.abs(dy) : Infinity);
+  if (Math.abs(dx * t) <= a - r || Math.abs(dy * t) <= b - r) return t;
+  // The ray leaves through a rounded corner: intersect it with the corner circle
+  const ox = -Math.sign(dx) * (a - r);
+  const oy = -Math.sign(dy) * (b - r);
+  const half = ox * dx + oy * dy;
+  return -half + Math.sqrt(half * half - (ox * ox + oy * oy - r * r));
+};
+
+export type TailShape =
+  | { kind: 'WEDGE'; points: [Point, Point, Point] }
+  | { kind: 'TRAIL'; circles: { x: number; y: number; r: number }[] };
+
+/**
+ * Vector tail from a balloon body (in pixels) to its tip: a wedge for spoken
+ * balloons, a trail of shrinking circles for thoughts. PanelCard draws it as
+ * SVG and renderService on the canvas, so both come out the same.
+ * Null when the tip is inside the body.
+ */
+export const getTailShape = (type: BalloonType, body: Rect, tip: Point): TailShape | null => {
+  const cx = body.x + body.w / 2;
+  const cy = body.y + body.h / 2;
+  const length = Math.hypot(tip.x - cx, tip.y - cy);
+  if (length === 0) return null;
+  const dx = (tip.x - cx) / length;
+  const dy = (tip.y - cy) / length;
+  const edge = distanceToOutline(type, body, dx, dy);
+  if (length <= edge) return null;
+
+  if (type === 'THOUGHT') {
+    const gap = length - edge;
+    return {
+      kind: 'TRAIL',
+      circles: [{ at: 0.35, r: 6 }, { at: 0.7, r: 4.5 }, { at: 1, r: 3 }].map(({ at, r }) => ({
+        x: cx + dx * (edge + gap * at),
+        y: cy + dy * (edge + gap * at),
+        r,
+      })),
+    };
+  }
+
+  const base = edge - TAIL_OVERLAP;
+  const halfWidth = clamp(Math.min(body.w, body.h) * 0.2, 6, 14);
+  return {
+    kind: 'WEDGE',
+    points: [
+      { x: cx + dx * base - dy * halfWidth, y: cy + dy * base + dx * halfWidth },
+      tip,
+      { x: cx + dx * base + dy * halfWidth, y: cy + dy * base - dx * halfWidth },
+    ],
+  };
+};
+
+/**
+ * All lettering in reading order as plain text, e.g. for prompts and scripts
+ */
+export const getBalloonText = (panel: ComicPanel) =>
+  getOrderedBalloons(panel).map(balloon => balloon.text.trim()).filter(Boolean).join(' / ');
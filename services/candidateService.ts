@@ -0,0 +1,64 @@
+import { ComicImage, ComicProject, ImageCandidate, ImageVersionSource } from '../types';
+import { findPanel, updateImageSlot } from './pageService';
+import { addImageVersion } from './imageVersionService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Multi-candidate generations. The results wait on the slot until one is
+ * picked; the picked image becomes a new version and the rest move to the
+ * project's outtakes tray, where they can be placed in any slot later.
+ */
+
+export const MAX_CANDIDATES = 4;
+// Outtakes are full-size images, so the tray only keeps the most recent ones
+export const MAX_OUTTAKES = 60;
+
+export const createCandidates = (urls: string[], prompt: string, source: ImageVersionSource): ImageCandidate[] =>
+  urls.map(url => ({ id: uuidv4(), url, prompt, source, createdAt: Date.now() }));
+
+/**
+ * Applies a finished generation to a slot: a single result becomes a version
+ * straight away, several are queued up on the slot for the picker.
+ */
+export const applyGenerationResult = (image: ComicImage, urls: string[], prompt: string, source: ImageVersionSource): ComicImage => {
+  if (urls.length === 1) return addImageVersion(image, urls[0], prompt, source);
+  return { ...image, candidates: [...(image.candidates ?? []), ...createCandidates(urls, prompt, source)] };
+};
+
+export const addOuttakes = (project: ComicProject, outtakes: ImageCandidate[]): ComicProject =>
+  outtakes.length === 0 ? project : {
+    ...project,
+    outtakes: [...outtakes, ...(project.outtakes ?? [])].slice(0, MAX_OUTTAKES),
+  };
+
+export const removeOuttake = (project: ComicProject, outtakeId: string): ComicProject => ({
+  ...project,
+  outtakes: (project.outtakes ?? []).filter(o => o.id !== outtakeId),
+});
+
+/**
+ * Resolves a slot's pending candidates. The chosen one (if any) is added as
+ * a version; everything else goes to the outtakes.
+ */
+export const chooseCandidate = (project: ComicProject, panelId: string, imageId: string, candidateId: string | null): ComicProject => {
+  const image = findPanel(project, panelId)?.images.find(img => img.id === imageId);
+  const candidates = image?.candidates ?? [];
+  if (candidates.length === 0) return project;
+
+  const chosen = candidates.find(c => c.id === candidateId);
+  const updated = updateImageSlot(project, panelId, imageId, img => {
+    const { candidates: _, ...rest } = img;
+    return chosen ? addImageVersion(rest, chosen.url, chosen.prompt, chosen.source) : rest;
+  });
+  return addOuttakes(updated, candidates.filter(c => c !== chosen));
+};
+
+/**
+ * Places an outtake in a slot as a new version and takes it off the tray
+ */
+export const placeOuttake = (project: ComicProject, outtakeId: string, panelId: string, imageId: string): ComicProject => {
+  const outtake = project.outtakes?.find(o => o.id === outtakeId);
+  if (!outtake || !findPanel(project, panelId)?.images.some(img => img.id === imageId)) return project;
+  const updated = updateImageSlot(project, panelId, imageId, img => addImageVersion(img, outtake.url, outtake.prompt, outtake.source));
+  return removeOuttake(updated, outtakeId);
+};
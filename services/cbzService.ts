@@ -0,0 +1,152 @@
+import { Chapter, Character, ComicMetadata, GridLayout } from '../types';
+import { PageLocation, createPage } from './pageService';
+import { createEmptyImage, addImageVersion } from './imageVersionService';
+import { renderPage, canvasToBlob, RenderOptions, loadImage } from './renderService';
+import { nearestAspectRatio } from './layoutService';
+import { createZip, readZip, ZipEntry, ZipError } from './zipService';
+import { downloadBlob, readFileAsDataURL, toFileSlug } from './fileService';
+import { ExportProgress } from './exportService';
+import { v4 as uuidv4 } from 'uuid';
+
+export const emptyMetadata: ComicMetadata = {
+  series: '',
+  issueNumber: '',
+  writer: '',
+  artist: '',
+  summary: '',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * Builds ComicInfo.xml (the ComicRack schema most reader apps understand)
+ */
+export const buildComicInfoXml = (title: string, metadata: ComicMetadata, characters: Character[], pageCount: number): string => {
+  const field = (tag: string, value: string | number) =>
+    String(value).trim() ? `  <${tag}>${escapeXml(String(value).trim())}</${tag}>\n` : '';
+  const characterNames = characters.map(c => c.name.trim()).filter(Boolean).join(', ');
+  const pages = Array.from({ length: pageCount }, (_, i) =>
+    `    <Page Image="${i}"${i === 0 ? ' Type="FrontCover"' : ''} />\n`
+  ).join('');
+
+  return '<?xml version="1.0" encoding="utf-8"?>\n'
+    + '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">\n'
+    + field('Title', title)
+    + field('Series', metadata.series)
+    + field('Number', metadata.issueNumber)
+    + field('Summary', metadata.summary)
+    + field('Writer', metadata.writer)
+    + field('Penciller', metadata.artist)
+    + field('Colorist', metadata.artist)
+    + field('PageCount', pageCount)
+    + field('Characters', characterNames)
+    + field('Notes', 'Created with NovelGen AI')
+    + `  <Pages>\n${pages}  </Pages>\n`
+    + '</ComicInfo>\n';
+};
+
+/**
+ * Renders the pages in reading order and packages them as a .cbz
+ */
+export const exportCbz = async (
+  pages: PageLocation[],
+  title: string,
+  metadata: ComicMetadata,
+  characters: Character[],
+  options: RenderOptions,
+  onProgress?: ExportProgress
+) => {
+  const entries: ZipEntry[] = [];
+  const digits = Math.max(3, String(pages.length).length);
+  for (let i = 0; i < pages.length; i++) {
+    onProgress?.(i, pages.length);
+    const canvas = await renderPage(pages[i].page, options);
+    const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    entries.push({
+      name: `page-${String(i + 1).padStart(digits, '0')}.jpg`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+  onProgress?.(pages.length, pages.length);
+
+  entries.push({
+    name: 'ComicInfo.xml',
+    data: new TextEncoder().encode(buildComicInfoXml(title, metadata, characters, pages.length)),
+  });
+  downloadBlob(createZip(entries), `${toFileSlug(title)}.cbz`);
+};
+
+export interface ImportedComicPage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface ImportedComic {
+  title: string;
+  pages: ImportedComicPage[];
+}
+
+// Natural sort so page-2 comes before page-10
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Reads a .cbz archive into page images in reading order
+ */
+export const importCbz = async (file: File): Promise<ImportedComic> => {
+  const entries = await readZip(await file.arrayBuffer());
+
+  const comicInfo = entries.find(e => e.name.split('/').pop()?.toLowerCase() === 'comicinfo.xml');
+  let title = file.name.replace(/\.(cbz|zip)$/i, '');
+  if (comicInfo) {
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(comicInfo.data), 'application/xml');
+    const infoTitle = doc.querySelector('Title')?.textContent?.trim();
+    if (infoTitle) title = infoTitle;
+  }
+
+  const imageEntries = entries
+    .filter(e => !e.name.startsWith('__MACOSX/') && !e.name.split('/').pop()!.startsWith('.'))
+    .filter(e => IMAGE_TYPES[e.name.split('.').pop()!.toLowerCase()])
+    .sort((a, b) => compareNames(a.name, b.name));
+
+  if (imageEntries.length === 0) {
+    throw new ZipError('No page images were found in this archive.');
+  }
+
+  const pages: ImportedComicPage[] = [];
+  for (const entry of imageEntries) {
+    const type = IMAGE_TYPES[entry.name.split('.').pop()!.toLowerCase()];
+    const url = await readFileAsDataURL(new Blob([entry.data], { type }));
+    const img = await loadImage(url);
+    pages.push({ url, width: img.width, height: img.height });
+  }
+  return { title, pages };
+};
+
+/**
+ * Turns an imported comic into a chapter with one full-page SINGLE panel per image
+ */
+export const createChapterFromComic = (comic: ImportedComic): Chapter => ({
+  id: uuidv4(),
+  title: comic.title,
+  pages: comic.pages.map(imported => ({
+    ...createPage(GridLayout.VERTICAL, 'NONE'),
+    panels: [{
+      id: uuidv4(),
+      images: [addImageVersion(createEmptyImage(), imported.url, '', 'IMPORT')],
+      splitLayout: 'SINGLE',
+      balloons: [],
+      aspectRatio: nearestAspectRatio(imported.width / imported.height),
+      colSpan: 1,
+    }],
+  })),
+});
@@ -0,0 +1,64 @@
+import { Character, CharacterReference } from '../types';
+import { ImageReference } from './providers/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Character reference images. Besides the text description, a character can
+ * carry uploaded art or a generated turnaround sheet, which is sent along with
+ * image-to-image requests whenever the character is named in the scene.
+ */
+
+export const MAX_REFERENCES_PER_CHARACTER = 4;
+// Each reference is a full image in the request, so only a few go with each call
+export const MAX_REFERENCES_PER_REQUEST = 3;
+
+export const addCharacterReference = (character: Character, url: string, source: CharacterReference['source']): Character => ({
+  ...character,
+  referenceImages: [
+    ...(character.referenceImages ?? []),
+    { id: uuidv4(), url, source, createdAt: Date.now() },
+  ].slice(-MAX_REFERENCES_PER_CHARACTER),
+});
+
+export const removeCharacterReference = (character: Character, referenceId: string): Character => ({
+  ...character,
+  referenceImages: (character.referenceImages ?? []).filter(ref => ref.id !== referenceId),
+});
+
+export const buildReferenceSheetPrompt = (character: Character, stylePrompt: string) => `
+      Character turnaround reference sheet of ${character.name.trim() || 'a comic character'}: ${character.description.trim()}.
+      The same character shown three times side by side: front view, three-quarter view and side view, full body, neutral standing pose.
+      Plain white background, even lighting, no text or labels. Art Style: ${stylePrompt}.
+    `.trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Characters named in the text, matched on whole words and ignoring case
+ */
+export const findCharactersInText = (characters: Character[], text: string): Character[] =>
+  characters.filter(character => {
+    const name = character.name.trim();
+    return name !== '' && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  });
+
+/**
+ * Reference images for the characters named in the text. Every named
+ * character gets its newest image before anyone gets a second one.
+ */
+export const getCharacterReferences = (characters: Character[], text: string): ImageReference[] => {
+  const queues = findCharactersInText(characters, text)
+    .map(character => ({ name: character.name.trim(), refs: [...(character.referenceImages ?? [])].reverse() }))
+    .filter(entry => entry.refs.length > 0);
+
+  const references: ImageReference[] = [];
+  for (let round = 0; references.length < MAX_REFERENCES_PER_REQUEST; round++) {
+    const available = queues.filter(entry => round < entry.refs.length);
+    if (available.length === 0) break;
+    for (const entry of available) {
+      if (references.length >= MAX_REFERENCES_PER_REQUEST) break;
+      references.push({ label: entry.name, url: entry.refs[round].url });
+    }
+  }
+  return references;
+};
@@ -0,0 +1,91 @@
+import { PageLocation } from './pageService';
+import { renderPage, renderStripSlice, canvasToBlob, RenderOptions } from './renderService';
+import { createPdf, PdfPageImage } from './pdfService';
+import { layoutStrip, sliceStrip } from './layoutService';
+import { createZip, ZipEntry } from './zipService';
+import { downloadBlob, toFileSlug } from './fileService';
+
+export type ExportProgress = (done: number, total: number) => void;
+
+export const EXPORT_WIDTHS = {
+  SCREEN: 1200,
+  PRINT: 2480, // A4 at 300 DPI
+} as const;
+
+// Common upload sizes for webtoon platforms
+export const WEBTOON_DEFAULTS = {
+  width: 800,
+  maxSliceHeight: 1280,
+  background: '#ffffff',
+};
+
+export interface WebtoonOptions {
+  width: number;
+  maxSliceHeight: number;
+  background: string;
+}
+
+const pageFileName = (projectName: string, pageNumber: number, extension: string) =>
+  `${toFileSlug(projectName)}-page-${String(pageNumber).padStart(2, '0')}.${extension}`;
+
+/**
+ * Renders each page and downloads it as its own PNG
+ */
+export const exportPagesAsPng = async (pages: PageLocation[], projectName: string, options: RenderOptions, onProgress?: ExportProgress) => {
+  for (let i = 0; i < pages.length; i++) {
+    onProgress?.(i, pages.length);
+    const canvas = await renderPage(pages[i].page, options);
+    const blob = await canvasToBlob(canvas, 'image/png');
+    downloadBlob(blob, pageFileName(projectName, pages[i].pageNumber, 'png'));
+  }
+  onProgress?.(pages.length, pages.length);
+};
+
+/**
+ * Renders the pages into a single multi-page PDF
+ */
+export const exportPagesAsPdf = async (pages: PageLocation[], projectName: string, options: RenderOptions, onProgress?: ExportProgress) => {
+  const images: PdfPageImage[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    onProgress?.(i, pages.length);
+    const canvas = await renderPage(pages[i].page, options);
+    const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    images.push({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      width: canvas.width,
+      height: canvas.height,
+    });
+  }
+  onProgress?.(pages.length, pages.length);
+  downloadBlob(createPdf(images), `${toFileSlug(projectName)}.pdf`);
+};
+
+/**
+ * Stitches the pages' panels into one vertical strip and downloads it as
+ * JPEG slices no taller than maxSliceHeight (zipped when there are several)
+ */
+export const exportWebtoonStrip = async (pages: PageLocation[], projectName: string, options: WebtoonOptions, onProgress?: ExportProgress) => {
+  const strip = layoutStrip(pages.map(loc => loc.page));
+  if (strip.panels.length === 0) throw new Error('There are no panels to export');
+
+  const scale = options.width / strip.width;
+  const slices = sliceStrip(strip, options.maxSliceHeight / scale);
+  const digits = Math.max(3, String(slices.length).length);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < slices.length; i++) {
+    onProgress?.(i, slices.length);
+    const canvas = await renderStripSlice(strip, slices[i], { width: options.width, background: options.background });
+    const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    entries.push({
+      name: `${toFileSlug(projectName)}-${String(i + 1).padStart(digits, '0')}.jpg`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+  onProgress?.(slices.length, slices.length);
+
+  if (entries.length === 1) {
+    downloadBlob(new Blob([entries[0].data], { type: 'image/jpeg' }), entries[0].name);
+  } else {
+    downloadBlob(createZip(entries), `${toFileSlug(projectName)}-webtoon.zip`);
+  }
+};
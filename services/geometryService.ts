@@ -0,0 +1,378 @@
+import { PanelGeometry, SavedLayout, SplitDirection, SplitNode } from '../types';
+import { Point, Rect, getGeometrySlots } from './layoutService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Editing a panel's interior. Split trees change by splitting slots and
+ * dragging the lines between them; slanted layouts are convex polygons whose
+ * corners get dragged. Every helper returns a new geometry and leaves the
+ * one it was given alone.
+ */
+
+// Smallest share of a split a child can be dragged down to
+export const MIN_SPLIT_SIZE = 0.05;
+
+// Smallest polygon, as a fraction of the image area
+const MIN_POLYGON_AREA = 0.004;
+
+// Points closer than this are the same corner
+const POINT_EPSILON = 0.001;
+
+// A path is the child index at each level of the tree, from the root down
+export type SplitPath = number[];
+
+// A line between two children of a split, which can be dragged
+export interface SplitHandle {
+  path: SplitPath; // The split
+  boundary: number; // The line after child `boundary`
+  direction: SplitDirection;
+  area: Rect; // The split's area, so drags can be turned into fractions of it
+  position: number; // Where the line is, as a fraction of the image area along the split
+}
+
+// A corner that can be dragged; every polygon with a corner there moves with it
+export interface PolygonVertex {
+  point: Point;
+  fixedX: boolean; // On the left or right edge
+  fixedY: boolean; // On the top or bottom edge
+}
+
+const slot: SplitNode = { type: 'SLOT' };
+
+const samePoint = (a: Point, b: Point) =>
+  Math.abs(a.x - b.x) < POINT_EPSILON && Math.abs(a.y - b.y) < POINT_EPSILON;
+
+const onEdge = (value: number) => value < POINT_EPSILON || value > 1 - POINT_EPSILON;
+
+// --- Split trees ---
+
+const getSlotPaths = (node: SplitNode, path: SplitPath = []): SplitPath[] =>
+  node.type === 'SLOT' ? [path] : node.children.flatMap((child, index) => getSlotPaths(child, [...path, index]));
+
+const getNode = (root: SplitNode, path: SplitPath): SplitNode =>
+  path.reduce((node, index) => node.type === 'SPLIT' ? node.children[index] : node, root);
+
+const replaceNode = (root: SplitNode, path: SplitPath, replace: (node: SplitNode) => SplitNode): SplitNode => {
+  if (path.length === 0) return replace(root);
+  if (root.type !== 'SPLIT') return root;
+  const [index, ...rest] = path;
+  return { ...root, children: root.children.map((child, i) => i === index ? replaceNode(child, rest, replace) : child) };
+};
+
+const splitTreeSlot = (root: SplitNode, index: number, direction: SplitDirection): SplitNode => {
+  const path = getSlotPaths(root)[index];
+  if (!path) return root;
+  const parentPath = path.slice(0, -1);
+  const parent = path.length > 0 ? getNode(root, parentPath) : null;
+  // Splitting the same way as the parent adds a sibling instead of nesting
+  if (parent?.type === 'SPLIT' && parent.direction === direction) {
+    const at = path[path.length - 1];
+    return replaceNode(root, parentPath, node => {
+      if (node.type !== 'SPLIT') return node;
+      const half = node.sizes[at] / 2;
+      return {
+        ...node,
+        sizes: [...node.sizes.slice(0, at), half, half, ...node.sizes.slice(at + 1)],
+        children: [...node.children.slice(0, at), slot, slot, ...node.children.slice(at + 1)],
+      };
+    });
+  }
+  return replaceNode(root, path, () => ({ type: 'SPLIT', direction, sizes: [0.5, 0.5], children: [slot, slot] }));
+};
+
+const removeTreeSlot = (root: SplitNode, index: number): SplitNode | null => {
+  const path = getSlotPaths(root)[index];
+  if (!path || path.length === 0) return null;
+  const parentPath = path.slice(0, -1);
+  const at = path[path.length - 1];
+  return replaceNode(root, parentPath, node => {
+    if (node.type !== 'SPLIT') return node;
+    // The neighbour before it takes its space, or the one after for the first child
+    const heir = at > 0 ? at - 1 : 1;
+    const sizes = node.sizes.map((size, i) => i === heir ? size + node.sizes[at] : size).filter((_, i) => i !== at);
+    const children = node.children.filter((_, i) => i !== at);
+    return children.length === 1 ? children[0] : { ...node, sizes, children };
+  });
+};
+
+const collectHandles = (node: SplitNode, area: Rect, path: SplitPath, handles: SplitHandle[]) => {
+  if (node.type === 'SLOT') return;
+  const isRow = node.direction === 'ROW';
+  let offset = 0;
+  node.children.forEach((child, index) => {
+    const size = node.sizes[index] ?? 0;
+    collectHandles(child, isRow
+      ? { x: area.x + offset * area.w, y: area.y, w: size * area.w, h: area.h }
+      : { x: area.x, y: area.y + offset * area.h, w: area.w, h: size * area.h }, [...path, index], handles);
+    offset += size;
+    if (index < node.children.length - 1) {
+      handles.push({
+        path,
+        boundary: index,
+        direction: node.direction,
+        area,
+        position: isRow ? area.x + offset * area.w : area.y + offset * area.h,
+      });
+    }
+  });
+};
+
+/**
+ * The lines between slots that can be dragged, innermost splits last
+ */
+export const getSplitHandles = (geometry: PanelGeometry): SplitHandle[] => {
+  if (geometry.kind !== 'SPLITS') return [];
+  const handles: SplitHandle[] = [];
+  collectHandles(geometry.root, { x: 0, y: 0, w: 1, h: 1 }, [], handles);
+  return handles;
+};
+
+/**
+ * Moves a split line to `position` (a fraction of the image area), trading
+ * space between the two children either side of it
+ */
+export const moveSplitHandle = (geometry: PanelGeometry, handle: SplitHandle, position: number): PanelGeometry => {
+  if (geometry.kind !== 'SPLITS') return geometry;
+  const { area } = handle;
+  const fraction = handle.direction === 'ROW' ? (position - area.x) / area.w : (position - area.y) / area.h;
+  const root = replaceNode(geometry.root, handle.path, node => {
+    if (node.type !== 'SPLIT') return node;
+    const i = handle.boundary;
+    const start = node.sizes.slice(0, i).reduce((sum, size) => sum + size, 0);
+    const pair = node.sizes[i] + node.sizes[i + 1];
+    const before = Math.max(MIN_SPLIT_SIZE, Math.min(pair - MIN_SPLIT_SIZE, fraction - start));
+    return { ...node, sizes: node.sizes.map((size, j) => j === i ? before : j === i + 1 ? pair - before : size) };
+  });
+  return { ...geometry, root };
+};
+
+// --- Polygons ---
+
+const polygonArea = (polygon: Point[]) =>
+  polygon.reduce((sum, a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return sum + a.x * b.y - b.x * a.y;
+  }, 0) / 2;
+
+// Convex, with corners along a straight edge allowed, and not too thin to hold art
+const isUsablePolygon = (polygon: Point[]) => {
+  if (polygon.length < 3 || Math.abs(polygonArea(polygon)) < MIN_POLYGON_AREA) return false;
+  let sign = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const c = polygon[(i + 2) % polygon.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) continue;
+    if (sign !== 0 && Math.sign(cross) !== sign) return false;
+    sign = Math.sign(cross);
+  }
+  return polygon.every(p => p.x > -POINT_EPSILON && p.x < 1 + POINT_EPSILON && p.y > -POINT_EPSILON && p.y < 1 + POINT_EPSILON);
+};
+
+const isBetween = (point: Point, a: Point, b: Point) => {
+  const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+  if (Math.abs(cross) > 1e-6) return false;
+  const dot = (point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y);
+  const length = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  return dot > POINT_EPSILON ** 2 && dot < length - POINT_EPSILON ** 2;
+};
+
+/**
+ * Gives each polygon a corner wherever another polygon's corner sits on one
+ * of its edges, so neighbours share every corner and dragging one moves both
+ */
+const weldPolygons = (polygons: Point[][]): Point[][] => {
+  const corners = polygons.flat();
+  return polygons.map(polygon => polygon.flatMap((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    const inserted = corners
+      .filter(p => isBetween(p, a, b))
+      .filter((p, j, list) => list.findIndex(q => samePoint(p, q)) === j)
+      .sort((p, q) => Math.hypot(p.x - a.x, p.y - a.y) - Math.hypot(q.x - a.x, q.y - a.y));
+    return [a, ...inserted];
+  }));
+};
+
+// The part of a polygon on one side of a straight cut at `at` along `axis` (Sutherland–Hodgman with a single edge)
+const clipPolygon = (polygon: Point[], axis: 'x' | 'y', at: number, keepBelow: boolean): Point[] => {
+  const inside = (p: Point) => keepBelow ? p[axis] <= at : p[axis] >= at;
+  const result: Point[] = [];
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    if (inside(a)) result.push(a);
+    if (inside(a) !== inside(b)) {
+      const t = (at - a[axis]) / (b[axis] - a[axis]);
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  });
+  return result.filter((p, i) => !samePoint(p, result[(i + 1) % result.length]));
+};
+
+/**
+ * Every slot as a polygon, ready for slanting. Split lines become shared edges.
+ */
+export const toPolygons = (geometry: PanelGeometry): PanelGeometry => {
+  if (geometry.kind === 'POLYGONS') return geometry;
+  const polygons = getGeometrySlots(geometry).map(({ rect }) => [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y + rect.h },
+    { x: rect.x, y: rect.y + rect.h },
+  ]);
+  return { kind: 'POLYGONS', polygons: weldPolygons(polygons) };
+};
+
+/**
+ * The corners that can be dragged. Corners of the image area stay put and
+ * corners on its edges slide along them.
+ */
+export const getPolygonVertices = (geometry: PanelGeometry): PolygonVertex[] => {
+  if (geometry.kind !== 'POLYGONS') return [];
+  const vertices: PolygonVertex[] = [];
+  geometry.polygons.flat().forEach(point => {
+    if (vertices.some(v => samePoint(v.point, point))) return;
+    vertices.push({ point, fixedX: onEdge(point.x), fixedY: onEdge(point.y) });
+  });
+  return vertices.filter(v => !(v.fixedX && v.fixedY));
+};
+
+/**
+ * Where a corner dragged to `to` ends up: inside the image area, and still on
+ * the edge it started on
+ */
+export const constrainVertex = (vertex: PolygonVertex, to: Point): Point => {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  return {
+    x: vertex.fixedX ? vertex.point.x : clamp(to.x),
+    y: vertex.fixedY ? vertex.point.y : clamp(to.y),
+  };
+};
+
+/**
+ * Moves a corner, and the same corner of every polygon sharing it. A move
+ * that would bend a slot inwards or squash it flat is refused.
+ */
+export const moveVertex = (geometry: PanelGeometry, vertex: PolygonVertex, to: Point): PanelGeometry => {
+  if (geometry.kind !== 'POLYGONS') return geometry;
+  const target = constrainVertex(vertex, to);
+  const polygons = geometry.polygons.map(polygon => polygon.map(p => samePoint(p, vertex.point) ? target : p));
+  return polygons.every(isUsablePolygon) ? { kind: 'POLYGONS', polygons } : geometry;
+};
+
+// --- Either kind ---
+
+/**
+ * Splits a slot in two: side by side for ROW, stacked for COLUMN. A slanted
+ * slot is cut straight through its middle. The halves take the slot's place
+ * in the slot order, so later slots move up by one (see splitSlotSources).
+ */
+export const splitSlot = (geometry: PanelGeometry, index: number, direction: SplitDirection): PanelGeometry => {
+  if (geometry.kind === 'SPLITS') return { ...geometry, root: splitTreeSlot(geometry.root, index, direction) };
+  const polygon = geometry.polygons[index];
+  if (!polygon) return geometry;
+  const axis = direction === 'ROW' ? 'x' : 'y';
+  const middle = polygon.reduce((sum, p) => sum + p[axis], 0) / polygon.length;
+  const halves = [clipPolygon(polygon, axis, middle, true), clipPolygon(polygon, axis, middle, false)];
+  if (!halves.every(isUsablePolygon)) return geometry;
+  const polygons = [...geometry.polygons.slice(0, index), ...halves, ...geometry.polygons.slice(index + 1)];
+  return { kind: 'POLYGONS', polygons: weldPolygons(polygons) };
+};
+
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const chain = (list: Point[]) => {
+    const out: Point[] = [];
+    for (const p of list) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 1e-9) out.pop();
+      out.push(p);
+    }
+    out.pop();
+    return out;
+  };
+  return [...chain(sorted), ...chain([...sorted].reverse())];
+};
+
+/**
+ * Two neighbouring polygons as one, wound the same way as the first. Null
+ * unless together they make a convex shape: then they fill their hull exactly.
+ */
+const mergePolygons = (first: Point[], second: Point[]): Point[] | null => {
+  if (first.filter(p => second.some(q => samePoint(p, q))).length < 2) return null;
+  const hull = convexHull([...first, ...second]);
+  const gap = Math.abs(polygonArea(hull)) - Math.abs(polygonArea(first)) - Math.abs(polygonArea(second));
+  if (Math.abs(gap) > 1e-6) return null;
+  return Math.sign(polygonArea(hull)) === Math.sign(polygonArea(first)) ? hull : hull.reverse();
+};
+
+/**
+ * Takes a slot out, giving its space to a neighbour. The other slots keep
+ * their order. Null when there is no neighbour that can take it: the last
+ * slot, or a slanted slot whose neighbours wouldn't stay convex.
+ */
+export const removeSlot = (geometry: PanelGeometry, index: number): PanelGeometry | null => {
+  if (geometry.kind === 'SPLITS') {
+    const root = removeTreeSlot(geometry.root, index);
+    return root ? { ...geometry, root } : null;
+  }
+  const removed = geometry.polygons[index];
+  if (!removed || geometry.polygons.length < 2) return null;
+  for (let i = 0; i < geometry.polygons.length; i++) {
+    if (i === index) continue;
+    const merged = mergePolygons(geometry.polygons[i], removed);
+    if (merged) {
+      const polygons = geometry.polygons.map((polygon, j) => j === i ? merged : polygon).filter((_, j) => j !== index);
+      return { kind: 'POLYGONS', polygons: weldPolygons(polygons) };
+    }
+  }
+  return null;
+};
+
+// Which of the panel's images each slot shows, by image index; null for a slot added while editing
+export type SlotSources = (number | null)[];
+
+export const getInitialSlotSources = (count: number): SlotSources => Array.from({ length: count }, (_, i) => i);
+
+// The first half keeps the image and the new, empty slot follows it
+export const splitSlotSources = (sources: SlotSources, index: number): SlotSources =>
+  [...sources.slice(0, index + 1), null, ...sources.slice(index + 1)];
+
+export const removeSlotSources = (sources: SlotSources, index: number): SlotSources =>
+  sources.filter((_, i) => i !== index);
+
+// A different layout altogether takes the images in slot order
+export const fitSlotSources = (sources: SlotSources, count: number): SlotSources =>
+  Array.from({ length: count }, (_, i) => sources[i] ?? null);
+
+// Slanted layouts to start from, since slanting a grid by hand takes a while
+export const slantedStarters: { name: string; geometry: PanelGeometry }[] = [
+  {
+    name: 'Diagonal',
+    geometry: { kind: 'POLYGONS', polygons: [
+      [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }],
+      [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    ] },
+  },
+  {
+    name: 'Slanted Split',
+    geometry: { kind: 'POLYGONS', polygons: [
+      [{ x: 0, y: 0 }, { x: 0.6, y: 0 }, { x: 0.4, y: 1 }, { x: 0, y: 1 }],
+      [{ x: 0.6, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0.4, y: 1 }],
+    ] },
+  },
+  {
+    name: 'Action Cuts',
+    geometry: { kind: 'POLYGONS', polygons: [
+      [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 0.25 }, { x: 0, y: 0.4 }],
+      [{ x: 0, y: 0.4 }, { x: 1, y: 0.25 }, { x: 1, y: 0.65 }, { x: 0, y: 0.75 }],
+      [{ x: 0, y: 0.75 }, { x: 1, y: 0.65 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    ] },
+  },
+];
+
+export const createSavedLayout = (name: string, geometry: PanelGeometry): SavedLayout => ({
+  id: uuidv4(),
+  name: name.trim(),
+  geometry,
+});
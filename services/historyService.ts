@@ -0,0 +1,111 @@
+import { ComicProject } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const MAX_HISTORY = 100;
+// Consecutive edits with the same merge key inside this window collapse into one entry (e.g. typing a caption)
+const MERGE_WINDOW_MS = 1500;
+
+/**
+ * One undoable command: a labelled transition between two project snapshots.
+ * Snapshots share structure with each other, so keeping them is cheap.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  mergeKey?: string;
+  before: ComicProject;
+  after: ComicProject;
+}
+
+export interface HistoryState {
+  present: ComicProject | null;
+  past: HistoryEntry[];   // oldest first
+  future: HistoryEntry[]; // next redo first
+}
+
+export type HistoryAction =
+  | { type: 'LOAD'; project: ComicProject }
+  | { type: 'COMMIT'; label: string; updater: (project: ComicProject) => ComicProject; mergeKey?: string }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP'; entryId: string | null }; // null jumps back to the state before any entry
+
+export const initialHistoryState: HistoryState = { present: null, past: [], future: [] };
+
+const touch = (project: ComicProject): ComicProject => ({ ...project, updatedAt: Date.now() });
+
+const undoOnce = (state: HistoryState): HistoryState => {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return state;
+  return {
+    present: touch(entry.before),
+    past: state.past.slice(0, -1),
+    future: [entry, ...state.future],
+  };
+};
+
+const redoOnce = (state: HistoryState): HistoryState => {
+  const [entry, ...rest] = state.future;
+  if (!entry) return state;
+  return {
+    present: touch(entry.after),
+    past: [...state.past, entry],
+    future: rest,
+  };
+};
+
+export const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'LOAD':
+      return { present: action.project, past: [], future: [] };
+
+    case 'COMMIT': {
+      if (!state.present) return state;
+      const before = state.present;
+      const after = action.updater(before);
+      if (after === before) return state;
+
+      const now = Date.now();
+      const last = state.past[state.past.length - 1];
+      const present = touch(after);
+
+      if (action.mergeKey && last && last.mergeKey === action.mergeKey && now - last.timestamp < MERGE_WINDOW_MS && state.future.length === 0) {
+        return {
+          present,
+          past: [...state.past.slice(0, -1), { ...last, timestamp: now, after: present }],
+          future: [],
+        };
+      }
+
+      const entry: HistoryEntry = { id: uuidv4(), label: action.label, timestamp: now, mergeKey: action.mergeKey, before, after: present };
+      return {
+        present,
+        past: [...state.past, entry].slice(-MAX_HISTORY),
+        future: [],
+      };
+    }
+
+    case 'UNDO':
+      return undoOnce(state);
+
+    case 'REDO':
+      return redoOnce(state);
+
+    case 'JUMP': {
+      // Walk back or forward until the chosen entry is the last one applied
+      let next = state;
+      if (action.entryId === null) {
+        while (next.past.length > 0) next = undoOnce(next);
+      } else if (next.past.some(e => e.id === action.entryId)) {
+        while (next.past[next.past.length - 1]?.id !== action.entryId) next = undoOnce(next);
+      } else if (next.future.some(e => e.id === action.entryId)) {
+        while (next.past[next.past.length - 1]?.id !== action.entryId) next = redoOnce(next);
+      }
+      return next;
+    }
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,66 @@
+import { ComicImage, ImageVersion, ImageVersionSource } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export const createEmptyImage = (prompt: string = ''): ComicImage => ({
+  id: uuidv4(),
+  url: '',
+  prompt,
+  versions: [],
+});
+
+export const getActiveVersion = (image: ComicImage): ImageVersion | undefined =>
+  image.versions.find(v => v.id === image.activeVersionId);
+
+/**
+ * Edits keep the scene they were made from, so walk up to the nearest
+ * generated ancestor to find the description of what is in the image.
+ */
+export const getScenePrompt = (image: ComicImage, version: ImageVersion): string => {
+  let current: ImageVersion | undefined = version;
+  const seen = new Set<string>();
+  while (current && current.source === 'EDIT' && current.parentId && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = image.versions.find(v => v.id === current!.parentId);
+  }
+  return current && current.source !== 'EDIT' ? current.prompt : image.prompt;
+};
+
+/**
+ * Appends a new version and makes it active. Edits branch from whichever
+ * version is active, so reverting and then editing starts a new branch.
+ */
+export const addImageVersion = (image: ComicImage, url: string, prompt: string, source: ImageVersionSource): ComicImage => {
+  const version: ImageVersion = {
+    id: uuidv4(),
+    url,
+    prompt,
+    source,
+    parentId: source === 'EDIT' ? image.activeVersionId : undefined,
+    createdAt: Date.now(),
+  };
+  const versions = [...image.versions, version];
+  return {
+    ...image,
+    url,
+    prompt: source === 'EDIT' ? image.prompt : prompt,
+    versions,
+    activeVersionId: version.id,
+  };
+};
+
+export const activateImageVersion = (image: ComicImage, versionId: string): ComicImage => {
+  const version = image.versions.find(v => v.id === versionId);
+  if (!version) return image;
+  return {
+    ...image,
+    url: version.url,
+    prompt: getScenePrompt(image, version),
+    activeVersionId: version.id,
+  };
+};
+
+/**
+ * 1-based position of a version, used for "v3" style labels
+ */
+export const getVersionNumber = (image: ComicImage, versionId: string | undefined) =>
+  image.versions.findIndex(v => v.id === versionId) + 1;
@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Background job queue for slow work (mostly AI generations). Jobs run with
+ * a concurrency limit, transient failures are retried with exponential
+ * backoff, and every job can be cancelled through its AbortSignal.
+ * The UI subscribes to snapshots of the job list.
+ */
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'RETRYING' | 'DONE' | 'FAILED' | 'CANCELLED';
+
+export type JobKind = 'GENERATE' | 'SKETCH' | 'EDIT' | 'TEXT' | 'IMPORT' | 'REFERENCE' | 'STYLE';
+
+// Where a job's result will land, so the grid can show a spinner in that slot
+export interface JobTarget {
+  panelId: string;
+  imageId: string;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  target?: JobTarget;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export interface JobSpec<T> {
+  kind: JobKind;
+  label: string;
+  target?: JobTarget;
+  run: (signal: AbortSignal) => Promise<T>;
+  /** Applies the result; a throw here fails the job without a retry */
+  onSuccess?: (result: T) => void;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+export const MAX_CONCURRENCY = 4;
+// Keeps a limit within what the jobs panel offers, whether it was picked or stored
+const clampConcurrency = (value: number) => Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+// Finished jobs kept around for the jobs panel
+const MAX_FINISHED_JOBS = 50;
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException ? error.name === 'AbortError' : (error as Error)?.name === 'AbortError';
+
+/**
+ * Rate limits, timeouts, server hiccups and dropped connections are worth retrying;
+ * bad input, missing keys and safety blocks are not.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS.has(status);
+  if (error instanceof TypeError) return true; // fetch() network failure
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|timed? ?out|network/i.test(message);
+};
+
+const isFinished = (status: JobStatus) => status === 'DONE' || status === 'FAILED' || status === 'CANCELLED';
+
+interface JobEntry {
+  job: Job;
+  spec: JobSpec<any>;
+  controller: AbortController;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface JobQueue {
+  /** Queues a job; the promise settles when it finishes (rejecting on failure or cancellation) */
+  enqueue<T>(spec: JobSpec<T>): { id: string; promise: Promise<T> };
+  cancel(id: string): void;
+  cancelAll(): void;
+  retry(id: string): void;
+  clearFinished(): void;
+  getConcurrency(): number;
+  setConcurrency(concurrency: number): void;
+  getJobs(): Job[];
+  subscribe(listener: () => void): () => void;
+}
+
+export const createJobQueue = ({ concurrency = 2, maxRetries = 3, baseDelayMs = 1000 }: JobQueueOptions = {}): JobQueue => {
+  const entries = new Map<string, JobEntry>();
+  const listeners = new Set<() => void>();
+  let limit = clampConcurrency(concurrency);
+  let snapshot: Job[] = [];
+
+  const emit = () => {
+    snapshot = Array.from(entries.values()).map(entry => entry.job);
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (entry: JobEntry, changes: Partial<Job>) => {
+    entry.job = { ...entry.job, ...changes };
+  };
+
+  const pruneFinished = () => {
+    const finished = Array.from(entries.values()).filter(entry => isFinished(entry.job.status));
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(entry => entries.delete(entry.job.id));
+  };
+
+  const finish = (entry: JobEntry, status: JobStatus, error?: string) => {
+    update(entry, { status, error, finishedAt: Date.now() });
+    pruneFinished();
+  };
+
+  const pump = () => {
+    const all = Array.from(entries.values());
+    let running = all.filter(entry => entry.job.status === 'RUNNING').length;
+    for (const entry of all) {
+      if (running >= limit) break;
+      if (entry.job.status !== 'PENDING') continue;
+      running++;
+      run(entry);
+    }
+    emit();
+  };
+
+  const run = async (entry: JobEntry) => {
+    update(entry, { status: 'RUNNING', attempts: entry.job.attempts + 1, error: undefined });
+    const { signal } = entry.controller;
+    let result: unknown;
+    try {
+      result = await entry.spec.run(signal);
+    } catch (error) {
+      if (signal.aborted) return; // cancel() already settled the job
+      const message = error instanceof Error ? error.message : String(error);
+      if (isTransientError(error) && entry.job.attempts <= maxRetries) {
+        const delay = baseDelayMs * 2 ** (entry.job.attempts - 1) + Math.random() * 250;
+        update(entry, { status: 'RETRYING', error: message });
+        entry.retryTimer = setTimeout(() => {
+          entry.retryTimer = undefined;
+          if (entry.job.status !== 'RETRYING') return;
+          update(entry, { status: 'PENDING' });
+          pump();
+        }, delay);
+      } else {
+        console.error(`Job "${entry.job.label}" failed:`, error);
+        finish(entry, 'FAILED', message);
+        entry.reject(error);
+      }
+      pump();
+      return;
+    }
+
+    if (signal.aborted) return;
+    try {
+      entry.spec.onSuccess?.(result);
+      finish(entry, 'DONE');
+      entry.resolve(result);
+    } catch (error) {
+      console.error(`Job "${entry.job.label}" could not be applied:`, error);
+      finish(entry, 'FAILED', error instanceof Error ? error.message : String(error));
+      entry.reject(error);
+    }
+    pump();
+  };
+
+  const createEntry = (spec: JobSpec<any>, job: Job): { entry: JobEntry; promise: Promise<any> } => {
+    let resolve!: (value: any) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Callers that don't await a job shouldn't trigger unhandled rejection warnings
+    promise.catch(() => {});
+    return { entry: { job, spec, controller: new AbortController(), resolve, reject }, promise };
+  };
+
+  const cancel = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry || isFinished(entry.job.status)) return;
+    clearTimeout(entry.retryTimer);
+    entry.controller.abort();
+    finish(entry, 'CANCELLED');
+    entry.reject(new DOMException('The job was cancelled', 'AbortError'));
+    pump();
+  };
+
+  return {
+    enqueue<T>(spec: JobSpec<T>) {
+      const job: Job = {
+        id: uuidv4(),
+        kind: spec.kind,
+        label: spec.label,
+        target: spec.target,
+        status: 'PENDING',
+        attempts: 0,
+        createdAt: Date.now(),
+      };
+      const { entry, promise } = createEntry(spec, job);
+      entries.set(job.id, entry);
+      pump();
+      return { id: job.id, promise: promise as Promise<T> };
+    },
+
+    cancel,
+
+    cancelAll() {
+      Array.from(entries.keys()).forEach(cancel);
+    },
+
+    retry(id: string) {
+      const old = entries.get(id);
+      if (!old || (old.job.status !== 'FAILED' && old.job.status !== 'CANCELLED')) return;
+      // A retried job starts over as a fresh entry with a new signal, in the same place in the list
+      const { entry } = createEntry(old.spec, { ...old.job, status: 'PENDING', attempts: 0, error: undefined, finishedAt: undefined });
+      entries.set(id, entry);
+      pump();
+    },
+
+    clearFinished() {
+      Array.from(entries.values())
+        .filter(entry => isFinished(entry.job.status))
+        .forEach(entry => entries.delete(entry.job.id));
+      emit();
+    },
+
+    getConcurrency: () => limit,
+
+    setConcurrency(next: number) {
+      limit = clampConcurrency(next);
+      pump();
+    },
+
+    getJobs: () => snapshot,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+const CONCURRENCY_KEY = 'novelgen:jobConcurrency';
+
+const getStoredConcurrency = () => {
+  try {
+    return Number(localStorage.getItem(CONCURRENCY_KEY)) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// The app-wide queue
+export const jobQueue = createJobQueue({ concurrency: getStoredConcurrency() });
+
+export const setJobConcurrency = (concurrency: number) => {
+  jobQueue.setConcurrency(concurrency);
+  try {
+    localStorage.setItem(CONCURRENCY_KEY, String(jobQueue.getConcurrency()));
+  } catch {
+    // Best effort; the default limit applies next time
+  }
+};
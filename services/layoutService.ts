@@ -0,0 +1,376 @@
+import { ComicPanel, GridLayout, GutterSize, Page, PanelGeometry, PanelSplitLayout, SplitDirection, SplitNode } from '../types';
+
+/**
+ * Shared page and panel geometry. PanelCard and the export renderer both
+ * read from here so that what is exported matches what is on screen.
+ * Pixel values are CSS pixels and mirror the Tailwind classes used in the UI.
+ */
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const slot: SplitNode = { type: 'SLOT' };
+
+// Children share the split equally
+const split = (direction: SplitDirection, children: SplitNode[]): SplitNode =>
+  ({ type: 'SPLIT', direction, sizes: children.map(() => 1 / children.length), children });
+
+const splits = (root: SplitNode): PanelGeometry => ({ kind: 'SPLITS', root });
+
+// The presets are ready-made split trees, in slot index order
+export const presetGeometries: Record<PanelSplitLayout, PanelGeometry> = {
+  'SINGLE': splits(slot),
+  'DOUBLE_V': splits(split('ROW', [slot, slot])),
+  'DOUBLE_H': splits(split('COLUMN', [slot, slot])),
+  'TRIPLE_V': splits(split('ROW', [slot, slot, slot])),
+  'TRIPLE_H': splits(split('COLUMN', [slot, slot, slot])),
+  'QUAD': splits(split('COLUMN', [split('ROW', [slot, slot]), split('ROW', [slot, slot])])),
+  'BIG_LEFT': splits(split('ROW', [slot, split('COLUMN', [slot, slot])])),
+  'BIG_RIGHT': splits(split('ROW', [split('COLUMN', [slot, slot]), slot])),
+  'BIG_TOP': splits(split('COLUMN', [slot, split('ROW', [slot, slot])])),
+  'BIG_BOTTOM': splits(split('COLUMN', [split('ROW', [slot, slot]), slot])),
+};
+
+export const splitLayouts = Object.keys(presetGeometries) as PanelSplitLayout[];
+
+export const getPanelGeometry = (panel: ComicPanel): PanelGeometry =>
+  panel.geometry ?? presetGeometries[panel.splitLayout] ?? presetGeometries.SINGLE;
+
+// One slot of a panel, in fractions of the panel's image area
+export interface SlotShape {
+  rect: Rect; // The slot itself, or the bounds of its polygon
+  polygon?: Point[]; // Corners of a slanted slot
+}
+
+const collectSplitSlots = (node: SplitNode, rect: Rect, slots: SlotShape[]) => {
+  if (node.type === 'SLOT') {
+    slots.push({ rect });
+    return;
+  }
+  let offset = 0;
+  node.children.forEach((child, index) => {
+    const size = node.sizes[index] ?? 0;
+    collectSplitSlots(child, node.direction === 'ROW'
+      ? { x: rect.x + offset * rect.w, y: rect.y, w: size * rect.w, h: rect.h }
+      : { x: rect.x, y: rect.y + offset * rect.h, w: rect.w, h: size * rect.h }, slots);
+    offset += size;
+  });
+};
+
+export const getPolygonBounds = (points: Point[]): Rect => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+export const getGeometrySlots = (geometry: PanelGeometry): SlotShape[] => {
+  if (geometry.kind === 'POLYGONS') {
+    return geometry.polygons.map(polygon => ({ rect: getPolygonBounds(polygon), polygon }));
+  }
+  const slots: SlotShape[] = [];
+  collectSplitSlots(geometry.root, { x: 0, y: 0, w: 1, h: 1 }, slots);
+  return slots;
+};
+
+export const getPanelSlots = (panel: ComicPanel) => getGeometrySlots(getPanelGeometry(panel));
+
+export const countSlots = (geometry: PanelGeometry) =>
+  geometry.kind === 'POLYGONS' ? geometry.polygons.length : getGeometrySlots(geometry).length;
+
+export const getSlotCount = (layout: PanelSplitLayout) => countSlots(presetGeometries[layout] ?? presetGeometries.SINGLE);
+
+// Black gap between slots inside a panel (gap-1)
+export const SLOT_GAP = 4;
+// Panel frame (border-4)
+export const PANEL_BORDER = 4;
+// Max width of the VERTICAL (webtoon) column (max-w-4xl)
+export const VERTICAL_MAX_WIDTH = 896;
+
+export const gutterPixels: Record<GutterSize, number> = {
+  'NONE': 0,
+  'TINY': 8,
+  'SMALL': 20,
+  'MEDIUM': 32,
+  'LARGE': 48,
+  'HUGE': 64,
+};
+
+export const getPagePadding = (gridLayout: GridLayout, gutterSize: GutterSize) =>
+  gridLayout === GridLayout.VERTICAL || gutterSize !== 'NONE' ? 32 : 0;
+
+// Desktop column counts for each grid layout
+export const gridColumns: Record<GridLayout, number> = {
+  [GridLayout.STANDARD]: 3,
+  [GridLayout.CLASSIC]: 2,
+  [GridLayout.VERTICAL]: 1,
+  [GridLayout.DYNAMIC]: 4,
+  [GridLayout.STORYBOARD]: 6,
+};
+
+/**
+ * A panel can't be wider than the page grid; clamp spans left over from a wider layout
+ */
+export const getEffectiveColSpan = (panel: Pick<ComicPanel, 'colSpan'>, gridLayout: GridLayout) =>
+  Math.min(panel.colSpan, gridColumns[gridLayout]);
+
+export const aspectRatioValues: Record<ComicPanel['aspectRatio'], number> = {
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+};
+
+/**
+ * The supported aspect ratio closest to `ratio` (width / height). Compared on
+ * a log scale so that 2:1 and 1:2 are equally far from square.
+ */
+export const nearestAspectRatio = (ratio: number): ComicPanel['aspectRatio'] => {
+  const target = Math.log(ratio);
+  return (Object.keys(aspectRatioValues) as ComicPanel['aspectRatio'][]).reduce((best, key) =>
+    Math.abs(Math.log(aspectRatioValues[key]) - target) < Math.abs(Math.log(aspectRatioValues[best]) - target) ? key : best
+  );
+};
+
+/**
+ * Width / height of one slot, from the panel's aspect ratio and interior.
+ * A slanted slot is filled by covering its bounds, so that's what counts.
+ */
+export const getSlotAspectRatio = (panel: ComicPanel, index: number) => {
+  const slots = getPanelSlots(panel);
+  const { rect } = slots[index] ?? slots[0];
+  return aspectRatioValues[panel.aspectRatio] * rect.w / rect.h;
+};
+
+/**
+ * Ratio to request when generating art for a slot, so object-cover crops as little as possible
+ */
+export const getSlotImageAspectRatio = (panel: ComicPanel, index: number) =>
+  nearestAspectRatio(getSlotAspectRatio(panel, index));
+
+/**
+ * Slot rect inside an image area of the given size, with half the slot gap
+ * taken off every interior edge (matching the on-screen gap between slots).
+ */
+export const insetSlotRect = (rect: Rect, width: number, height: number, gap: number = SLOT_GAP): Rect => {
+  const half = gap / 2;
+  const left = rect.x > 0.001 ? half : 0;
+  const right = rect.x + rect.w < 0.999 ? half : 0;
+  const top = rect.y > 0.001 ? half : 0;
+  const bottom = rect.y + rect.h < 0.999 ? half : 0;
+  return {
+    x: rect.x * width + left,
+    y: rect.y * height + top,
+    w: rect.w * width - left - right,
+    h: rect.h * height - top - bottom,
+  };
+};
+
+const EDGE_EPSILON = 0.001;
+
+const isBorderEdge = (a: Point, b: Point) =>
+  [0, 1].some(edge => Math.abs(a.x - edge) < EDGE_EPSILON && Math.abs(b.x - edge) < EDGE_EPSILON) ||
+  [0, 1].some(edge => Math.abs(a.y - edge) < EDGE_EPSILON && Math.abs(b.y - edge) < EDGE_EPSILON);
+
+/**
+ * A slanted slot's corners inside an image area of the given size. Every
+ * interior edge moves in by half the slot gap, so neighbours end up a full
+ * gap apart whatever the angle of the cut between them.
+ */
+export const insetSlotPolygon = (polygon: Point[], width: number, height: number, gap: number = SLOT_GAP): Point[] => {
+  const points = polygon.map(p => ({ x: p.x * width, y: p.y * height }));
+  const center = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+  // Each edge as a point on its moved line and the line's direction
+  const lines = points.map((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy) || 1;
+    let nx = -dy / length;
+    let ny = dx / length;
+    if ((center.x - a.x) * nx + (center.y - a.y) * ny < 0) {
+      nx = -nx;
+      ny = -ny;
+    }
+    const offset = isBorderEdge(polygon[i], polygon[(i + 1) % polygon.length]) ? 0 : gap / 2;
+    return { x: a.x + nx * offset, y: a.y + ny * offset, dx, dy };
+  });
+  // Corner i is where the edges either side of it meet
+  return lines.map((line, i) => {
+    const prev = lines[(i + lines.length - 1) % lines.length];
+    const cross = prev.dx * line.dy - prev.dy * line.dx;
+    if (Math.abs(cross) < 1e-9) return { x: line.x, y: line.y };
+    const t = ((line.x - prev.x) * line.dy - (line.y - prev.y) * line.dx) / cross;
+    return { x: prev.x + prev.dx * t, y: prev.y + prev.dy * t };
+  });
+};
+
+/**
+ * A slot in pixels inside an image area of the given size, gap taken off: its
+ * rect, and for a slanted slot the polygon that rect bounds
+ */
+export const insetSlot = (slot: SlotShape, width: number, height: number, gap: number = SLOT_GAP): SlotShape => {
+  if (!slot.polygon) return { rect: insetSlotRect(slot.rect, width, height, gap) };
+  const polygon = insetSlotPolygon(slot.polygon, width, height, gap);
+  return { rect: getPolygonBounds(polygon), polygon };
+};
+
+export interface PlacedPanel {
+  panel: ComicPanel;
+  rect: Rect; // Outer panel frame, in page pixels
+  imageRect: Rect; // Image area inside the border
+}
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  panels: PlacedPanel[];
+}
+
+const getPanelHeight = (panel: ComicPanel, width: number) => {
+  const imageHeight = (width - PANEL_BORDER * 2) / aspectRatioValues[panel.aspectRatio];
+  return imageHeight + PANEL_BORDER * 2;
+};
+
+/**
+ * Lays a page out the way the browser does at desktop width: a dense CSS grid
+ * (grid-flow-dense) where each row is as tall as its tallest panel, or a
+ * single centred column for the VERTICAL layout.
+ */
+export const layoutPage = (page: Page, pageWidth: number): PageLayout => {
+  const padding = getPagePadding(page.gridLayout, page.gutterSize);
+  const gap = gutterPixels[page.gutterSize];
+  const contentWidth = pageWidth - padding * 2;
+
+  if (page.gridLayout === GridLayout.VERTICAL) {
+    const width = Math.min(contentWidth, VERTICAL_MAX_WIDTH);
+    const x = (pageWidth - width) / 2;
+    let y = padding;
+    const placed = page.panels.map((panel, index) => {
+      const height = getPanelHeight(panel, width);
+      const rect = { x, y: y + (index > 0 ? gap : 0), w: width, h: height };
+      y = rect.y + height;
+      return toPlacedPanel(panel, rect);
+    });
+    return { width: pageWidth, height: y + padding, panels: placed };
+  }
+
+  const columns = gridColumns[page.gridLayout];
+  const columnWidth = (contentWidth - gap * (columns - 1)) / columns;
+
+  // Dense auto-placement: each panel takes the first row/column where its span fits
+  const occupied: boolean[][] = [];
+  const cells: { panel: ComicPanel; row: number; col: number; span: number }[] = [];
+  for (const panel of page.panels) {
+    const span = getEffectiveColSpan(panel, page.gridLayout);
+    let row = 0;
+    let col = 0;
+    search: for (row = 0; ; row++) {
+      occupied[row] = occupied[row] ?? new Array(columns).fill(false);
+      for (col = 0; col + span <= columns; col++) {
+        if (occupied[row].slice(col, col + span).every(taken => !taken)) break search;
+      }
+    }
+    for (let c = col; c < col + span; c++) occupied[row][c] = true;
+    cells.push({ panel, row, col, span });
+  }
+
+  const rowCount = occupied.length;
+  const rowHeights = new Array(rowCount).fill(0);
+  for (const cell of cells) {
+    const width = columnWidth * cell.span + gap * (cell.span - 1);
+    rowHeights[cell.row] = Math.max(rowHeights[cell.row], getPanelHeight(cell.panel, width));
+  }
+
+  const rowTops: number[] = [];
+  let y = padding;
+  rowHeights.forEach((height, row) => {
+    rowTops[row] = y;
+    y += height + (row < rowCount - 1 ? gap : 0);
+  });
+
+  // Items stretch to the row height; the extra space is white card below the art
+  const placed = cells.map(cell => toPlacedPanel(cell.panel, {
+    x: padding + cell.col * (columnWidth + gap),
+    y: rowTops[cell.row],
+    w: columnWidth * cell.span + gap * (cell.span - 1),
+    h: rowHeights[cell.row],
+  }));
+
+  return { width: pageWidth, height: y + padding, panels: placed };
+};
+
+const toPlacedPanel = (panel: ComicPanel, rect: Rect): PlacedPanel => {
+  const imageWidth = rect.w - PANEL_BORDER * 2;
+  return {
+    panel,
+    rect,
+    imageRect: {
+      x: rect.x + PANEL_BORDER,
+      y: rect.y + PANEL_BORDER,
+      w: imageWidth,
+      h: imageWidth / aspectRatioValues[panel.aspectRatio],
+    },
+  };
+};
+
+export interface StripLayout {
+  width: number;
+  height: number;
+  panels: PlacedPanel[];
+  breaks: number[]; // Y positions between panels where a slice can end cleanly
+}
+
+/**
+ * Lays the panels of several pages out as one continuous webtoon strip:
+ * full-width panels stacked in reading order, separated by each page's gutter.
+ */
+export const layoutStrip = (pages: Page[], stripWidth: number = VERTICAL_MAX_WIDTH): StripLayout => {
+  const placed: PlacedPanel[] = [];
+  const breaks: number[] = [];
+  let y = 0;
+  for (const page of pages) {
+    const gap = gutterPixels[page.gutterSize];
+    for (const panel of page.panels) {
+      if (placed.length > 0) {
+        breaks.push(y + gap / 2);
+        y += gap;
+      }
+      const rect = { x: 0, y, w: stripWidth, h: getPanelHeight(panel, stripWidth) };
+      placed.push(toPlacedPanel(panel, rect));
+      y += rect.h;
+    }
+  }
+  return { width: stripWidth, height: y, panels: placed, breaks };
+};
+
+/**
+ * Splits a strip into [top, bottom] ranges no taller than maxHeight, ending
+ * each slice in the last gutter that fits. Panels taller than a slice get cut.
+ */
+export const sliceStrip = (strip: StripLayout, maxHeight: number): [number, number][] => {
+  const slices: [number, number][] = [];
+  let top = 0;
+  while (strip.height - top > maxHeight) {
+    const limit = top + maxHeight;
+    const cut = strip.breaks.filter(y => y > top && y <= limit).pop() ?? limit;
+    slices.push([top, cut]);
+    top = cut;
+  }
+  if (strip.height > top) slices.push([top, strip.height]);
+  return slices;
+};
@@ -0,0 +1,134 @@
+import { ImageMask } from '../types';
+import { SketchStroke, SketchTool, drawSketchStroke } from './sketchService';
+import { loadImage } from './renderService';
+
+/**
+ * Masked edits. A mask is painted over a slot's image in image pixels; the
+ * edit is sent with a black and white copy of it, and everything outside
+ * the mask is put back from the original afterwards, so those pixels come
+ * out exactly as they were whatever the model did to them.
+ */
+
+// The mask being painted. It's working state, not part of the project.
+export interface EditMask {
+  panelId: string;
+  imageId: string;
+  width: number; // Image pixels; 0 until the first stroke
+  height: number;
+  strokes: SketchStroke[]; // PEN adds to the mask, ERASER takes away
+  tool: SketchTool;
+  brushSize: number; // Screen pixels, so the brush looks the same at any zoom
+  feather: number; // Image pixels
+  invert: boolean; // Edit everything except what's painted
+  painting: boolean; // Pointer input on the slot goes to the mask
+}
+
+// Brush diameters in screen pixels
+export const MASK_BRUSH_SIZES = [8, 16, 32, 64];
+
+export const MAX_MASK_FEATHER = 32;
+
+export const MASK_PREVIEW_INK = '#ff2d55';
+
+export const createEditMask = (panelId: string, imageId: string): EditMask => ({
+  panelId,
+  imageId,
+  width: 0,
+  height: 0,
+  strokes: [],
+  tool: 'PEN',
+  brushSize: MASK_BRUSH_SIZES[2],
+  feather: 8,
+  invert: false,
+  painting: true,
+});
+
+export const hasMaskStrokes = (mask: EditMask | null | undefined): mask is EditMask =>
+  !!mask && mask.strokes.length > 0 && mask.width > 0;
+
+// Inverted, the mask starts full and the pen cuts holes in it
+const toCoverageStroke = (stroke: SketchStroke, invert: boolean): SketchStroke =>
+  invert ? { ...stroke, tool: stroke.tool === 'PEN' ? 'ERASER' : 'PEN' } : stroke;
+
+export const drawMaskStroke = (ctx: CanvasRenderingContext2D, stroke: SketchStroke, invert: boolean, ink: string = MASK_PREVIEW_INK) =>
+  drawSketchStroke(ctx, toCoverageStroke(stroke, invert), ink);
+
+/**
+ * Draws the area that will change in the ink colour, transparent elsewhere
+ */
+export const drawMask = (ctx: CanvasRenderingContext2D, strokes: SketchStroke[], invert: boolean, ink: string = MASK_PREVIEW_INK) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (invert) {
+    ctx.fillStyle = ink;
+    ctx.fillRect(0, 0, width, height);
+  }
+  strokes.forEach(stroke => drawMaskStroke(ctx, stroke, invert, ink));
+};
+
+/**
+ * The mask as sent with the edit: a PNG data URL, white where the image may change
+ */
+export const renderEditMask = (mask: EditMask): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d')!;
+  drawMask(ctx, mask.strokes, mask.invert, '#ffffff');
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Puts an edit result over the original through the mask. The result is
+ * stretched to the original's size; outside the mask the original's pixels
+ * are kept as they are, and feathering only fades inward from the mask's edge.
+ */
+export const compositeMaskedEdit = async (original: string, edited: string, mask: ImageMask): Promise<string> => {
+  const [base, result, maskImage] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask.url)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+  const createCanvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d', { willReadFrequently: true })! };
+  };
+
+  // The mask's brightness becomes alpha, thresholded so scaling can't leak past its edge
+  const hard = createCanvas();
+  hard.ctx.drawImage(maskImage, 0, 0, width, height);
+  const pixels = hard.ctx.getImageData(0, 0, width, height);
+  const kept = hard.ctx.createImageData(width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const isMasked = pixels.data[i] >= 128;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = 255;
+    pixels.data[i + 3] = isMasked ? 255 : 0;
+    kept.data[i + 3] = isMasked ? 0 : 255;
+  }
+  hard.ctx.putImageData(pixels, 0, 0);
+
+  // Feathering blurs the kept area into the mask rather than the mask itself,
+  // so a mask that runs off the image doesn't fade out along the image's edge
+  if (mask.feather > 0) {
+    const keep = createCanvas();
+    keep.ctx.putImageData(kept, 0, 0);
+    const soft = createCanvas();
+    soft.ctx.filter = `blur(${mask.feather / 2}px)`;
+    soft.ctx.drawImage(keep.canvas, 0, 0);
+    hard.ctx.globalCompositeOperation = 'destination-out';
+    hard.ctx.drawImage(soft.canvas, 0, 0);
+  }
+
+  const layer = createCanvas();
+  layer.ctx.drawImage(result, 0, 0, width, height);
+  layer.ctx.globalCompositeOperation = 'destination-in';
+  layer.ctx.drawImage(hard.canvas, 0, 0);
+
+  const output = createCanvas();
+  output.ctx.drawImage(base, 0, 0);
+  output.ctx.drawImage(layer.canvas, 0, 0);
+  return output.canvas.toDataURL('image/png');
+};
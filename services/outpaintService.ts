@@ -0,0 +1,113 @@
+import { ExtendDirection, ImageMask } from '../types';
+import { loadImage } from './renderService';
+
+/**
+ * Extending a slot's image when the slot has changed shape. The image is
+ * padded out to the slot's ratio and sent as a masked edit with the new
+ * area as the mask, so the original pixels come back untouched.
+ */
+
+export type { ExtendDirection };
+
+export const extendDirectionLabels: Record<ExtendDirection, string> = {
+  'LEFT': 'Left',
+  'RIGHT': 'Right',
+  'UP': 'Up',
+  'DOWN': 'Down',
+  'ALL': 'All Sides',
+};
+
+// Where the new area goes, as it reads in a prompt
+export const extendDirectionPhrases: Record<ExtendDirection, string> = {
+  'LEFT': 'to the left',
+  'RIGHT': 'to the right',
+  'UP': 'upward',
+  'DOWN': 'downward',
+  'ALL': 'on all sides',
+};
+
+// How far "all sides" zooms out when the image already has the slot's shape
+export const EXTEND_ZOOM_OUT = 1.25;
+
+// The mask reaches this far into the original so the seam gets blended
+const EXTEND_OVERLAP = 8;
+
+const RATIO_TOLERANCE = 0.01;
+
+export const fitsAspectRatio = (width: number, height: number, targetRatio: number) =>
+  Math.abs(Math.log(targetRatio * height / width)) < RATIO_TOLERANCE;
+
+/**
+ * Directions that bring an image to the target ratio: sideways for a slot
+ * that's wider than the image, up or down for one that's taller
+ */
+export const getExtendDirections = (width: number, height: number, targetRatio: number): ExtendDirection[] => {
+  if (fitsAspectRatio(width, height, targetRatio)) return ['ALL'];
+  return targetRatio > width / height ? ['LEFT', 'RIGHT', 'ALL'] : ['UP', 'DOWN', 'ALL'];
+};
+
+// The padded canvas's size, and where the original goes on it
+export interface ExtendedCanvas {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+export const getExtendedCanvas = (width: number, height: number, targetRatio: number, direction: ExtendDirection): ExtendedCanvas => {
+  let newWidth = width;
+  let newHeight = height;
+  if (fitsAspectRatio(width, height, targetRatio)) {
+    newWidth = Math.round(width * EXTEND_ZOOM_OUT);
+    newHeight = Math.round(height * EXTEND_ZOOM_OUT);
+  } else if (targetRatio > width / height) {
+    newWidth = Math.round(height * targetRatio);
+  } else {
+    newHeight = Math.round(width / targetRatio);
+  }
+  return {
+    width: newWidth,
+    height: newHeight,
+    x: direction === 'LEFT' ? newWidth - width : direction === 'RIGHT' ? 0 : Math.round((newWidth - width) / 2),
+    y: direction === 'UP' ? newHeight - height : direction === 'DOWN' ? 0 : Math.round((newHeight - height) / 2),
+  };
+};
+
+/**
+ * The padded image and the mask over its new area. The new area starts as a
+ * blurred stretch of the original so the model sees the colours it's continuing.
+ */
+export const prepareExtendedImage = async (url: string, targetRatio: number, direction: ExtendDirection): Promise<{ image: string; mask: ImageMask }> => {
+  const source = await loadImage(url);
+  const { naturalWidth: width, naturalHeight: height } = source;
+  const area = getExtendedCanvas(width, height, targetRatio, direction);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = area.width;
+  canvas.height = area.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.filter = 'blur(24px)';
+  ctx.drawImage(source, 0, 0, area.width, area.height);
+  ctx.filter = 'none';
+  ctx.drawImage(source, area.x, area.y);
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = area.width;
+  maskCanvas.height = area.height;
+  const maskCtx = maskCanvas.getContext('2d')!;
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, area.width, area.height);
+  // Only edges that border new area get the overlap; the rest of the original is kept whole
+  const inset = (hasNewArea: boolean) => hasNewArea ? EXTEND_OVERLAP : 0;
+  const left = inset(area.x > 0);
+  const top = inset(area.y > 0);
+  const right = inset(area.x + width < area.width);
+  const bottom = inset(area.y + height < area.height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(area.x + left, area.y + top, width - left - right, height - top - bottom);
+
+  return {
+    image: canvas.toDataURL('image/png'),
+    mask: { url: maskCanvas.toDataURL('image/png'), feather: EXTEND_OVERLAP * 2 },
+  };
+};
@@ -0,0 +1,165 @@
+import { ComicProject, ComicPanel, ComicImage, Chapter, Page, GridLayout, GutterSize } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface PageLocation {
+  page: Page;
+  chapter: Chapter;
+  pageNumber: number; // 1-based, counted across all chapters
+}
+
+export const createPage = (gridLayout: GridLayout = GridLayout.STANDARD, gutterSize: GutterSize = 'MEDIUM'): Page => ({
+  id: uuidv4(),
+  panels: [],
+  gridLayout,
+  gutterSize,
+});
+
+export const createChapter = (title: string): Chapter => ({
+  id: uuidv4(),
+  title,
+  pages: [createPage()],
+});
+
+/**
+ * Every page in reading order, with its chapter and page number
+ */
+export const getPageLocations = (project: ComicProject): PageLocation[] => {
+  const locations: PageLocation[] = [];
+  for (const chapter of project.chapters) {
+    for (const page of chapter.pages) {
+      locations.push({ page, chapter, pageNumber: locations.length + 1 });
+    }
+  }
+  return locations;
+};
+
+export const findPageLocation = (project: ComicProject, pageId: string | null): PageLocation | undefined =>
+  getPageLocations(project).find(loc => loc.page.id === pageId);
+
+export const countPanels = (project: ComicProject) =>
+  project.chapters.reduce((total, chapter) => total + chapter.pages.reduce((sum, page) => sum + page.panels.length, 0), 0);
+
+export const updatePage = (project: ComicProject, pageId: string, updater: (page: Page) => Page): ComicProject => ({
+  ...project,
+  chapters: project.chapters.map(chapter => ({
+    ...chapter,
+    pages: chapter.pages.map(page => page.id === pageId ? updater(page) : page),
+  })),
+});
+
+export const updateChapter = (project: ComicProject, chapterId: string, updater: (chapter: Chapter) => Chapter): ComicProject => ({
+  ...project,
+  chapters: project.chapters.map(chapter => chapter.id === chapterId ? updater(chapter) : chapter),
+});
+
+/**
+ * Adds a page to the end of a chapter, copying the grid settings of `template` if given
+ */
+export const addPage = (project: ComicProject, chapterId: string, template?: Page): { project: ComicProject; page: Page } => {
+  const page = createPage(template?.gridLayout, template?.gutterSize);
+  return {
+    project: updateChapter(project, chapterId, chapter => ({ ...chapter, pages: [...chapter.pages, page] })),
+    page,
+  };
+};
+
+export const addChapter = (project: ComicProject): { project: ComicProject; chapter: Chapter } => {
+  const chapter = createChapter(`Chapter ${project.chapters.length + 1}`);
+  return {
+    project: { ...project, chapters: [...project.chapters, chapter] },
+    chapter,
+  };
+};
+
+/**
+ * Removes a page. Empty chapters are kept so they can be refilled.
+ */
+export const removePage = (project: ComicProject, pageId: string): ComicProject => ({
+  ...project,
+  chapters: project.chapters.map(chapter => ({
+    ...chapter,
+    pages: chapter.pages.filter(page => page.id !== pageId),
+  })),
+});
+
+export const removeChapter = (project: ComicProject, chapterId: string): ComicProject => ({
+  ...project,
+  chapters: project.chapters.filter(chapter => chapter.id !== chapterId),
+});
+
+export const findPanel = (project: ComicProject, panelId: string): ComicPanel | undefined => {
+  for (const { page } of getPageLocations(project)) {
+    const panel = page.panels.find(p => p.id === panelId);
+    if (panel) return panel;
+  }
+  return undefined;
+};
+
+/**
+ * Updates one image slot wherever its panel lives. Returns the project
+ * unchanged when the panel or slot is gone, so late results are no-ops.
+ */
+export const updateImageSlot = (project: ComicProject, panelId: string, imageId: string, updater: (image: ComicImage) => ComicImage): ComicProject => {
+  const panel = findPanel(project, panelId);
+  if (!panel || !panel.images.some(img => img.id === imageId)) return project;
+  return {
+    ...project,
+    chapters: project.chapters.map(chapter => ({
+      ...chapter,
+      pages: chapter.pages.map(page => !page.panels.includes(panel) ? page : {
+        ...page,
+        panels: page.panels.map(p => p !== panel ? p : {
+          ...p,
+          images: p.images.map(img => img.id === imageId ? updater(img) : img),
+        }),
+      }),
+    })),
+  };
+};
+
+/**
+ * Moves a panel from whichever page holds it to the end of the target page
+ */
+export const movePanelToPage = (project: ComicProject, panelId: string, targetPageId: string): ComicProject => {
+  let moved: ComicPanel | undefined;
+  for (const { page } of getPageLocations(project)) {
+    moved = page.panels.find(p => p.id === panelId);
+    if (moved) break;
+  }
+  if (!moved) return project;
+  const panel = moved;
+
+  return {
+    ...project,
+    chapters: project.chapters.map(chapter => ({
+      ...chapter,
+      pages: chapter.pages.map(page => {
+        const panels = page.panels.filter(p => p.id !== panelId);
+        return {
+          ...page,
+          panels: page.id === targetPageId ? [...panels, panel] : panels,
+        };
+      }),
+    })),
+  };
+};
+
+/**
+ * The most recent panel prompt at or before the given page, so story assist
+ * can carry on across a page turn. `isPageTurn` is true when the prompt
+ * comes from an earlier page.
+ */
+export const getLastPanelPromptBefore = (project: ComicProject, pageId: string): { prompt: string; pageNumber: number; isPageTurn: boolean } | null => {
+  const locations = getPageLocations(project);
+  const index = locations.findIndex(loc => loc.page.id === pageId);
+  for (let i = index; i >= 0; i--) {
+    const { page, pageNumber } = locations[i];
+    for (let p = page.panels.length - 1; p >= 0; p--) {
+      const lastImageWithPrompt = [...page.panels[p].images].reverse().find(img => img.prompt && img.prompt.trim().length > 0);
+      if (lastImageWithPrompt) {
+        return { prompt: lastImageWithPrompt.prompt, pageNumber, isPageTurn: i !== index };
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,87 @@
+import { ComicImage, ComicPanel } from '../types';
+import { JobTarget } from './jobService';
+import { createEmptyImage } from './imageVersionService';
+import { SlotSources } from './geometryService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Arranging the panels of a page: story order, copies and moving art
+ * between slots. Every helper returns the panels unchanged when an id is gone.
+ */
+
+export type PanelSide = 'BEFORE' | 'AFTER';
+
+/**
+ * Moves a panel to an index in the list as it is without the panel
+ */
+export const movePanel = (panels: ComicPanel[], panelId: string, toIndex: number): ComicPanel[] => {
+  const panel = panels.find(p => p.id === panelId);
+  if (!panel) return panels;
+  const rest = panels.filter(p => p.id !== panelId);
+  const index = Math.max(0, Math.min(toIndex, rest.length));
+  return [...rest.slice(0, index), panel, ...rest.slice(index)];
+};
+
+/**
+ * Moves a panel to just before or after another one, e.g. where it was dropped
+ */
+export const movePanelNextTo = (panels: ComicPanel[], panelId: string, targetId: string, side: PanelSide): ComicPanel[] => {
+  if (panelId === targetId) return panels;
+  const targetIndex = panels.filter(p => p.id !== panelId).findIndex(p => p.id === targetId);
+  if (targetIndex < 0) return panels;
+  return movePanel(panels, panelId, side === 'BEFORE' ? targetIndex : targetIndex + 1);
+};
+
+export const insertPanel = (panels: ComicPanel[], panel: ComicPanel, targetId: string, side: PanelSide): ComicPanel[] => {
+  const index = panels.findIndex(p => p.id === targetId);
+  if (index < 0) return panels;
+  const at = side === 'BEFORE' ? index : index + 1;
+  return [...panels.slice(0, at), panel, ...panels.slice(at)];
+};
+
+/**
+ * A copy with its own ids. Art, versions and lettering come along; pending
+ * candidates stay with the original.
+ */
+export const duplicatePanel = (panel: ComicPanel): ComicPanel => ({
+  ...panel,
+  id: uuidv4(),
+  images: panel.images.map(image => {
+    const { candidates: _, ...rest } = image;
+    return { ...rest, id: uuidv4() };
+  }),
+  balloons: panel.balloons.map(balloon => ({ ...balloon, id: uuidv4() })),
+});
+
+/**
+ * Swaps the images of two slots, in one panel or across two. Images keep
+ * their ids; jobs target a panel and slot, so callers leave busy slots alone.
+ */
+export const swapSlotImages = (panels: ComicPanel[], a: JobTarget, b: JobTarget): ComicPanel[] => {
+  const find = ({ panelId, imageId }: JobTarget) => panels.find(p => p.id === panelId)?.images.find(img => img.id === imageId);
+  const imageA = find(a);
+  const imageB = find(b);
+  if (!imageA || !imageB || imageA === imageB) return panels;
+  const swap = (image: ComicImage) => image === imageA ? imageB : image === imageB ? imageA : image;
+  return panels.map(panel => panel.id !== a.panelId && panel.id !== b.panelId ? panel : { ...panel, images: panel.images.map(swap) });
+};
+
+/**
+ * A panel's images for a new number of slots: empty slots are added at the
+ * end, or the trailing images are dropped
+ */
+export const fitSlotImages = (images: ComicImage[], count: number): ComicImage[] =>
+  images.length >= count
+    ? images.slice(0, count)
+    : [...images, ...Array.from({ length: count - images.length }, () => createEmptyImage())];
+
+/**
+ * A panel's images rearranged for an edited interior: each slot gets the
+ * image it was showing, and new slots start empty
+ */
+export const arrangeSlotImages = (images: ComicImage[], sources: SlotSources): ComicImage[] =>
+  sources.map(source => (source === null ? undefined : images[source]) ?? createEmptyImage());
+
+// Images with art that an arrangement leaves out
+export const countDroppedImages = (images: ComicImage[], sources: SlotSources) =>
+  images.filter((image, index) => image.url && !sources.includes(index)).length;
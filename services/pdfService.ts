@@ -0,0 +1,75 @@
+/**
+ * Minimal PDF writer: one full-bleed JPEG per page. JPEG data is embedded
+ * as-is (DCTDecode), so no re-encoding or extra dependency is needed.
+ */
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  width: number;  // Pixel size of the JPEG
+  height: number;
+}
+
+// A4 width in points; page height follows each image's aspect ratio
+export const PDF_PAGE_WIDTH_PT = 595.28;
+
+const encoder = new TextEncoder();
+
+export const createPdf = (pages: PdfPageImage[], pageWidthPt: number = PDF_PAGE_WIDTH_PT): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, then three per page (page, image, content)
+  const pageObject = (index: number) => 3 + index * 3;
+  const beginObject = (num: number) => {
+    offsets[num] = length;
+    write(`${num} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageNum = pageObject(i);
+    const imageNum = pageNum + 1;
+    const contentNum = pageNum + 2;
+    const widthPt = pageWidthPt;
+    const heightPt = (page.height / page.width) * pageWidthPt;
+    const w = widthPt.toFixed(2);
+    const h = heightPt.toFixed(2);
+
+    beginObject(pageNum);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${imageNum} 0 R >> >> /Contents ${contentNum} 0 R >>\nendobj\n`);
+
+    beginObject(imageNum);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    beginObject(contentNum);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  const objectCount = 2 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let num = 1; num <= objectCount; num++) {
+    write(`${String(offsets[num]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
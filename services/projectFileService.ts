@@ -0,0 +1,400 @@
+import { BalloonType, ComicPanel, ComicProject, GridLayout, SplitNode } from '../types';
+import { countSlots } from './layoutService';
+import { downloadBlob, toFileSlug } from './fileService';
+import { v4 as uuidv4 } from 'uuid';
+
+export const PROJECT_FILE_FORMAT = 'novelgen';
+export const PROJECT_FILE_EXTENSION = '.novelgen.json';
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: ComicProject;
+}
+
+/**
+ * Thrown when an imported file can't be turned into a project.
+ * `issues` lists every problem found, with a path to the offending field.
+ */
+export class ProjectFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+// --- Migrations ---
+
+// Schema 3 overlay types; a plain footer caption (NONE) becomes a caption box
+const legacyOverlayTypes: Record<string, BalloonType> = {
+  'NONE': 'CAPTION',
+  'BUBBLE_LEFT': 'SPEECH',
+  'BUBBLE_RIGHT': 'SPEECH',
+  'THOUGHT': 'THOUGHT',
+  'WHISPER': 'WHISPER',
+  'SHOUT': 'SHOUT',
+  'CAPTION_BOX': 'CAPTION',
+  'ONOMATOPOEIA': 'SFX',
+};
+
+// Each entry upgrades raw project data from `version` to `version + 1`.
+// Add one here whenever a change to types.ts alters the saved shape.
+const migrations: Record<number, (project: any) => any> = {
+  // v1 -> v2: the flat panel list becomes the first page of the first chapter
+  1: ({ panels, gridLayout, gutterSize, ...rest }) => ({
+    ...rest,
+    chapters: [{
+      id: uuidv4(),
+      title: 'Chapter 1',
+      pages: [{ id: uuidv4(), panels, gridLayout, gutterSize }],
+    }],
+  }),
+  // v2 -> v3: every slot image gets a version list, seeded with its current render
+  2: (project) => ({
+    ...project,
+    chapters: project.chapters.map((chapter: any) => ({
+      ...chapter,
+      pages: chapter.pages.map((page: any) => ({
+        ...page,
+        panels: page.panels.map((panel: any) => ({
+          ...panel,
+          images: panel.images.map((image: any) => {
+            if (!image.url) return { ...image, versions: [] };
+            const versionId = uuidv4();
+            return {
+              ...image,
+              versions: [{ id: versionId, url: image.url, prompt: image.prompt, source: 'GENERATE', createdAt: project.updatedAt }],
+              activeVersionId: versionId,
+            };
+          }),
+        })),
+      })),
+    })),
+  }),
+  // v3 -> v4: the single caption + overlay type becomes a list of balloons
+  3: (project) => ({
+    ...project,
+    chapters: project.chapters.map((chapter: any) => ({
+      ...chapter,
+      pages: chapter.pages.map((page: any) => ({
+        ...page,
+        panels: page.panels.map(({ caption, overlayType, ...panel }: any) => ({
+          ...panel,
+          balloons: typeof caption === 'string' && caption.trim()
+            ? [{ id: uuidv4(), type: legacyOverlayTypes[overlayType] ?? 'CAPTION', text: caption, order: 0 }]
+            : [],
+        })),
+      })),
+    })),
+  }),
+};
+
+/**
+ * Upgrades raw project data saved at `fromVersion` to the current schema
+ */
+export const migrateProjectData = (project: any, fromVersion: number): any => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectFileError(`This file was made with a newer version of NovelGen (schema ${fromVersion}). Please update the app to open it.`);
+  }
+  let data = project;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ProjectFileError(`No migration available from schema version ${version}.`);
+    }
+    try {
+      data = migrate(data);
+    } catch (error) {
+      throw new ProjectFileError(`The project could not be upgraded from schema version ${version}: ${(error as Error).message}`);
+    }
+  }
+  return data;
+};
+
+// --- Validation ---
+
+type Validator = (value: unknown, path: string, issues: string[]) => void;
+
+const describe = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const isString: Validator = (value, path, issues) => {
+  if (typeof value !== 'string') issues.push(`${path}: expected a string, got ${describe(value)}`);
+};
+
+const isNumber: Validator = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) issues.push(`${path}: expected a number, got ${describe(value)}`);
+};
+
+const isPositiveNumber: Validator = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) issues.push(`${path}: expected a positive number, got ${JSON.stringify(value)}`);
+};
+
+const isBoolean: Validator = (value, path, issues) => {
+  if (typeof value !== 'boolean') issues.push(`${path}: expected a boolean, got ${describe(value)}`);
+};
+
+const isImageUrl: Validator = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push(`${path}: expected a string, got ${describe(value)}`);
+  } else if (value !== '' && !value.startsWith('data:image/')) {
+    issues.push(`${path}: images must be embedded as data:image URLs`);
+  }
+};
+
+const oneOf = (allowed: readonly unknown[]): Validator => (value, path, issues) => {
+  if (!allowed.includes(value)) {
+    issues.push(`${path}: expected one of ${allowed.map(a => JSON.stringify(a)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+};
+
+const arrayOf = (item: Validator, minLength = 0): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array, got ${describe(value)}`);
+    return;
+  }
+  if (value.length < minLength) issues.push(`${path}: expected at least ${minLength} ${minLength === 1 ? 'entry' : 'entries'}, got ${value.length}`);
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+const objectOf = (shape: Record<string, Validator>, optional: string[] = []): Validator => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push(`${path}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const [key, validate] of Object.entries(shape)) {
+    if (record[key] === undefined) {
+      if (!optional.includes(key)) issues.push(`${path}.${key}: missing required field`);
+      continue;
+    }
+    validate(record[key], `${path}.${key}`, issues);
+  }
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) issues.push(`${path}.${key}: unknown field`);
+  }
+};
+
+const imageVersionSchema = objectOf({
+  id: isString,
+  url: isImageUrl,
+  prompt: isString,
+  source: oneOf(['GENERATE', 'SKETCH', 'EDIT', 'IMPORT']),
+  parentId: isString,
+  createdAt: isNumber,
+}, ['parentId']);
+
+const imageCandidateSchema = objectOf({
+  id: isString,
+  url: isImageUrl,
+  prompt: isString,
+  source: oneOf(['GENERATE', 'SKETCH', 'EDIT', 'IMPORT']),
+  createdAt: isNumber,
+});
+
+const promptRecordSchema = objectOf({
+  id: isString,
+  source: oneOf(['GENERATE', 'SKETCH', 'EDIT']),
+  prompt: isString,
+  sentPrompt: isString,
+  overridden: isBoolean,
+  styleId: isString,
+  sketchUrl: isImageUrl,
+  mask: objectOf({ url: isImageUrl, feather: isNumber }),
+  extend: oneOf(['LEFT', 'RIGHT', 'UP', 'DOWN', 'ALL']),
+  sentAt: isNumber,
+}, ['overridden', 'styleId', 'sketchUrl', 'mask', 'extend']);
+
+const imageSchema = objectOf({
+  id: isString,
+  url: isImageUrl,
+  prompt: isString,
+  versions: arrayOf(imageVersionSchema),
+  activeVersionId: isString,
+  candidates: arrayOf(imageCandidateSchema),
+  promptHistory: arrayOf(promptRecordSchema),
+  sketchUrl: isImageUrl,
+}, ['activeVersionId', 'candidates', 'promptHistory', 'sketchUrl']);
+
+const balloonSchema = objectOf({
+  id: isString,
+  type: oneOf(['SPEECH', 'THOUGHT', 'WHISPER', 'SHOUT', 'CAPTION', 'SFX']),
+  text: isString,
+  speakerId: isString,
+  order: isNumber,
+  position: objectOf({ x: isNumber, y: isNumber, w: isNumber, h: isNumber }),
+  tail: objectOf({ x: isNumber, y: isNumber }),
+}, ['speakerId', 'position', 'tail']);
+
+// Split nodes nest, so the node's type decides which shape to check.
+// A split needs a positive size for each child.
+const splitNodeSchema: Validator = (value, path, issues) => {
+  if ((value as { type?: unknown } | null)?.type === 'SPLIT') {
+    const before = issues.length;
+    objectOf({
+      type: isString,
+      direction: oneOf(['ROW', 'COLUMN']),
+      sizes: arrayOf(isPositiveNumber, 1),
+      children: arrayOf(splitNodeSchema, 1),
+    })(value, path, issues);
+    const { sizes, children } = value as Extract<SplitNode, { type: 'SPLIT' }>;
+    if (issues.length === before && sizes.length !== children.length) {
+      issues.push(`${path}.sizes: expected ${children.length} sizes, one per child, got ${sizes.length}`);
+    }
+  } else {
+    objectOf({ type: oneOf(['SLOT', 'SPLIT']) })(value, path, issues);
+  }
+};
+
+const panelGeometrySchema: Validator = (value, path, issues) => {
+  if ((value as { kind?: unknown } | null)?.kind === 'POLYGONS') {
+    objectOf({ kind: isString, polygons: arrayOf(arrayOf(objectOf({ x: isNumber, y: isNumber }), 3), 1) })(value, path, issues);
+  } else {
+    objectOf({ kind: oneOf(['SPLITS', 'POLYGONS']), root: splitNodeSchema })(value, path, issues);
+  }
+};
+
+const panelFieldsSchema = objectOf({
+  id: isString,
+  images: arrayOf(imageSchema),
+  splitLayout: oneOf(['SINGLE', 'DOUBLE_V', 'DOUBLE_H', 'TRIPLE_V', 'TRIPLE_H', 'QUAD', 'BIG_LEFT', 'BIG_RIGHT', 'BIG_TOP', 'BIG_BOTTOM']),
+  geometry: panelGeometrySchema,
+  balloons: arrayOf(balloonSchema),
+  aspectRatio: oneOf(['1:1', '4:3', '3:4', '16:9', '9:16']),
+  colSpan: oneOf([1, 2, 3, 4, 5, 6]),
+}, ['geometry']);
+
+// A custom geometry has to have exactly one slot per image
+const panelSchema: Validator = (value, path, issues) => {
+  const before = issues.length;
+  panelFieldsSchema(value, path, issues);
+  const { geometry, images } = value as ComicPanel;
+  if (issues.length === before && geometry && countSlots(geometry) !== images.length) {
+    issues.push(`${path}.geometry: has ${countSlots(geometry)} slots for ${images.length} images`);
+  }
+};
+
+const characterReferenceSchema = objectOf({
+  id: isString,
+  url: isImageUrl,
+  source: oneOf(['UPLOAD', 'GENERATE']),
+  createdAt: isNumber,
+});
+
+const characterSchema = objectOf({
+  id: isString,
+  name: isString,
+  description: isString,
+  referenceImages: arrayOf(characterReferenceSchema),
+}, ['referenceImages']);
+
+const pageSchema = objectOf({
+  id: isString,
+  panels: arrayOf(panelSchema),
+  gridLayout: oneOf(Object.values(GridLayout)),
+  gutterSize: oneOf(['NONE', 'TINY', 'SMALL', 'MEDIUM', 'LARGE', 'HUGE']),
+});
+
+const chapterSchema = objectOf({
+  id: isString,
+  title: isString,
+  pages: arrayOf(pageSchema),
+});
+
+const metadataSchema = objectOf({
+  series: isString,
+  issueNumber: isString,
+  writer: isString,
+  artist: isString,
+  summary: isString,
+});
+
+const stylePresetSchema = objectOf({
+  id: isString,
+  name: isString,
+  prompt: isString,
+  avoid: arrayOf(isString),
+  thumbnailUrl: isImageUrl,
+  referenceUrl: isImageUrl,
+}, ['thumbnailUrl', 'referenceUrl']);
+
+const savedLayoutSchema = objectOf({
+  id: isString,
+  name: isString,
+  geometry: panelGeometrySchema,
+});
+
+const projectSchema = objectOf({
+  id: isString,
+  name: isString,
+  createdAt: isNumber,
+  updatedAt: isNumber,
+  chapters: arrayOf(chapterSchema),
+  characters: arrayOf(characterSchema),
+  metadata: metadataSchema,
+  outtakes: arrayOf(imageCandidateSchema),
+  stylePresets: arrayOf(stylePresetSchema),
+  customLayouts: arrayOf(savedLayoutSchema),
+}, ['metadata', 'outtakes', 'stylePresets', 'customLayouts']);
+
+/**
+ * Checks that migrated data matches the current ComicProject shape
+ */
+export const validateProject = (data: unknown): ComicProject => {
+  const issues: string[] = [];
+  projectSchema(data, 'project', issues);
+  if (issues.length === 0 && !(data as ComicProject).chapters.some(chapter => chapter.pages.length > 0)) {
+    issues.push('project.chapters: a project needs at least one page');
+  }
+  if (issues.length > 0) {
+    throw new ProjectFileError(`The project file is invalid (${issues.length} problem${issues.length === 1 ? '' : 's'}).`, issues);
+  }
+  return data as ComicProject;
+};
+
+// --- Import / Export ---
+
+export const serializeProject = (project: ComicProject): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project,
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Parses, migrates and validates a project file.
+ * The imported project gets a fresh id so it never overwrites an existing one.
+ */
+export const parseProjectFile = (text: string): ComicProject => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('This file is not valid JSON.');
+  }
+
+  if (typeof file !== 'object' || file === null || file.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('This is not a NovelGen project file.');
+  }
+  if (typeof file.schemaVersion !== 'number' || !Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+    throw new ProjectFileError('The project file has a missing or invalid schemaVersion.');
+  }
+
+  const project = validateProject(migrateProjectData(file.project, file.schemaVersion));
+  return { ...project, id: uuidv4(), updatedAt: Date.now() };
+};
+
+/**
+ * Downloads the project as a .novelgen.json file
+ */
+export const downloadProjectFile = (project: ComicProject) => {
+  const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+  downloadBlob(blob, `${toFileSlug(project.name)}${PROJECT_FILE_EXTENSION}`);
+};
@@ -0,0 +1,81 @@
+import { ComicImage, ImageMask, PromptRecord } from '../types';
+import { ImageAspectRatio, ImageReference } from './providers/types';
+import { JobTarget } from './jobService';
+import { ExtendDirection, extendDirectionPhrases } from './outpaintService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Image prompts. What the user types is wrapped with the art style, the
+ * character sheet and some fixed wording before it goes out; the composed
+ * text can be inspected and overridden, and what was sent is kept per slot.
+ */
+
+// Each record can carry a sketch, so only the most recent ones are kept
+export const MAX_PROMPT_HISTORY = 20;
+
+export const composeGenerationPrompt = (scene: string, stylePrompt: string, characterContext: string) => `
+      Art Style: ${stylePrompt}.
+      ${characterContext ? `Defined Characters (MUST MATCH EXACTLY): ${characterContext}.` : ''}
+      Scene Description: ${scene}.
+      (Ensure consistent character details). high quality masterpiece.
+    `.trim();
+
+export const composeSketchPrompt = (scene: string, stylePrompt: string, characterContext: string) =>
+  `Turn this rough sketch into a finished comic panel. ${composeGenerationPrompt(scene, stylePrompt, characterContext)}. Maintain the composition of the sketch but apply the requested art style heavily.`;
+
+export const composeEditPrompt = (instruction: string, characterContext: string) =>
+  characterContext ? `Edit Instruction: ${instruction}. (Maintain character consistency: ${characterContext})` : instruction;
+
+export const composeExtendPrompt = (scene: string, direction: ExtendDirection, characterContext: string) =>
+  `The canvas of this comic panel has been extended ${extendDirectionPhrases[direction]}; the new area is white in the edit mask. Fill it so the scene carries on seamlessly, matching the art style, line work, colours and lighting. Do not add borders, frames or gutters. Scene: ${scene}.${characterContext ? ` (Maintain character consistency: ${characterContext})` : ''}`;
+
+/**
+ * An image request that's ready to go, before it's sent or while it's open in the inspector
+ */
+export interface PromptDraft {
+  source: PromptRecord['source'];
+  prompt: string; // What was typed
+  composedPrompt: string; // What will be sent unless it's overridden
+  target: JobTarget | null; // null adds a new panel when the draft is sent
+  aspectRatio: ImageAspectRatio;
+  count: number;
+  references: ImageReference[];
+  styleId?: string;
+  sketch?: string; // SKETCH drafts
+  image?: string; // EDIT drafts: the image being edited
+  mask?: ImageMask; // EDIT drafts limited to a painted region
+  extend?: ExtendDirection; // EDIT drafts that extend the canvas
+}
+
+export const createPromptRecord = (draft: PromptDraft, sentPrompt: string): PromptRecord => {
+  const record: PromptRecord = {
+    id: uuidv4(),
+    source: draft.source,
+    prompt: draft.prompt,
+    sentPrompt,
+    sentAt: Date.now(),
+  };
+  if (sentPrompt !== draft.composedPrompt) record.overridden = true;
+  if (draft.styleId) record.styleId = draft.styleId;
+  if (draft.sketch) record.sketchUrl = draft.sketch;
+  if (draft.mask) record.mask = draft.mask;
+  if (draft.extend) record.extend = draft.extend;
+  return record;
+};
+
+export const addPromptRecord = (image: ComicImage, record: PromptRecord): ComicImage => ({
+  ...image,
+  promptHistory: [record, ...(image.promptHistory ?? [])].slice(0, MAX_PROMPT_HISTORY),
+});
+
+/**
+ * Records whose typed or sent text contains every word of the query, ignoring case
+ */
+export const searchPromptHistory = (records: PromptRecord[], query: string): PromptRecord[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return records;
+  return records.filter(record => {
+    const text = `${record.prompt}\n${record.sentPrompt}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
@@ -0,0 +1,316 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { AIProvider, EditRequestOptions, ImageAspectRatio, ImageReference, ImageRequestOptions, NarrativeType, RequestOptions, ScriptRequest, ShotPlanRequest, ShotSlot } from './types';
+import { getSlotCount, splitLayouts } from '../layoutService';
+import { balloonTypeLabels } from '../balloonService';
+import { normalizeScript } from '../scriptService';
+
+export const GEMINI_MODELS = {
+  image: 'imagen-4.0-generate-001',
+  imageEdit: 'gemini-2.5-flash-image',
+  text: 'gemini-2.5-flash',
+};
+
+/**
+ * Splits a data URL into raw base64 and its mime type (bare base64 is assumed to be JPEG)
+ */
+const toInlineData = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/);
+  return match
+    ? { mimeType: match[1], data: match[2] }
+    : { mimeType: 'image/jpeg', data: dataUrl };
+};
+
+/**
+ * Reference images go after the image being worked on, each introduced by a
+ * short label so the model knows which character or style it shows
+ */
+const referenceParts = (references: ImageReference[]) =>
+  references.flatMap(ref => [
+    { text: ref.role === 'STYLE' ? `Style reference "${ref.label}":` : `Reference sheet for ${ref.label}:` },
+    { inlineData: toInlineData(ref.url) },
+  ]);
+
+const referenceInstruction = (references: ImageReference[], hasImage: boolean) => {
+  if (references.length === 0) return '';
+  const names = Array.from(new Set(references.filter(ref => ref.role !== 'STYLE').map(ref => ref.label)));
+  const hasStyle = references.some(ref => ref.role === 'STYLE');
+  return (hasImage ? ' The first image is the one to work on.' : '')
+    + (names.length > 0 ? ` The reference sheets show how ${names.join(', ')} must look. Keep their faces, hair and costumes exactly as in the references.` : '')
+    + (hasStyle ? ' Match the line work, colouring and rendering of the style reference, but not its content.' : '');
+};
+
+// A mask goes right after the image it belongs to
+const maskParts = (mask?: string) =>
+  mask ? [{ text: 'Edit mask:' }, { inlineData: toInlineData(mask) }] : [];
+
+const maskInstruction = (mask?: string) =>
+  mask ? ' Only change the area that is white in the edit mask. Everything in the black area must stay exactly as it is in the first image.' : '';
+
+/**
+ * Builds the story assistant prompt for each narrative task
+ */
+const buildNarrativePrompt = (type: NarrativeType, context: string, characterContext: string, pageContext: string) => {
+  switch (type) {
+    case 'PLOT':
+      return `You are a comic book writer. Generate a single, visually descriptive scene idea for a comic panel based on this theme (or random if empty): "${context}".
+        ${characterContext ? `Include these established characters in the scene: ${characterContext}` : ''}
+        Output ONLY the visual description suitable for an image generator. Keep it under 40 words. Do not surround the text with quotes.`;
+    case 'DIALOGUE':
+      return `You are a comic book writer. Write a short, punchy dialogue or caption (max 15 words) for a panel described as: "${context}".
+        Output ONLY the text to be written in the speech bubble/caption box. Do not include character names like 'Hero:'. Do not surround with quotes.`;
+    case 'NEXT_PANEL':
+      return `You are a comic book writer.
+        CONTEXT - Previous Panel Description: "${context}".
+        ${characterContext ? `CONTEXT - Established Characters/Setting: ${characterContext}.` : ''}
+        ${pageContext ? `CONTEXT - Page Position: ${pageContext} A page turn is a natural place for a reveal or a change of scene; panels on the same page should flow continuously.` : ''}
+
+        Task: Write a visual description for the NEXT panel to continue the story.
+
+        CRITICAL INSTRUCTION: You MUST explicitly mention and describe the characters based on the 'Established Characters' context provided.
+        If the previous panel had multiple characters, ensure the next panel maintains their distinct identities.
+
+        VERY IMPORTANT: Do NOT use vague pronouns like 'he', 'she', or 'they'. ALWAYS follow names with a brief visual trait from the context.
+        Example: Instead of "Alice jumps", write "Alice, the blonde woman in red armor, jumps".
+
+        Output ONLY the visual description for the image generator. Keep it under 40 words. Do not surround with quotes.`;
+  }
+};
+
+// A slot's label plus the art closest to it (or the previous page's last panel)
+const describeShotSlot = ({ label, nearbyPrompts }: ShotSlot) =>
+  nearbyPrompts.length > 0 ? `${label} (nearest art: ${nearbyPrompts.map(prompt => `"${prompt}"`).join('; ')})` : label;
+
+const buildShotPlanPrompt = ({ pageOutline, slots, characterContext }: ShotPlanRequest) => `You are a comic book artist planning the empty slots of a page.
+        PAGE OUTLINE (slots marked [EMPTY n] still need art):
+        ${pageOutline}
+        ${characterContext ? `ESTABLISHED CHARACTERS: ${characterContext}.` : ''}
+
+        Task: Write one visual description for each empty slot, in this order:
+        ${slots.map((slot, i) => `${i + 1}. ${describeShotSlot(slot)}`).join('\n        ')}
+
+        Each description must fit the story around it, continuing from its nearest art where given, and use a DIFFERENT shot (e.g. establishing shot, close-up, over-the-shoulder, reaction, detail insert) so the slots don't repeat each other.
+        Name characters with a brief visual trait from the established characters instead of pronouns.
+        Keep each description under 40 words. Return exactly ${slots.length} descriptions.`;
+
+const buildScriptPrompt = ({ premise, pageCount, characters, columns, previousPanel }: ScriptRequest) => `You are a comic book writer scripting ${pageCount} page${pageCount === 1 ? '' : 's'} of a comic.
+        PREMISE: "${premise}"
+        ${characters.length > 0 ? `CHARACTERS:\n        ${characters.map(c => `- ${c.name}: ${c.description}`).join('\n        ')}` : ''}
+        ${previousPanel ? `The story so far ended on this panel: "${previousPanel}"` : ''}
+
+        Write exactly ${pageCount} page${pageCount === 1 ? '' : 's'} of 3 to 6 panels each. Pages are a grid ${columns} column${columns === 1 ? '' : 's'} wide: give each panel a colSpan from 1 to ${columns}, and let the spans of a row add up to ${columns}.
+        A panel can be split into slots. splitLayout is one of:
+        ${splitLayouts.map(layout => `${layout} (${getSlotCount(layout)} slot${getSlotCount(layout) === 1 ? '' : 's'})`).join(', ')}.
+        Use SINGLE for most panels and splits for quick sequences or simultaneous action.
+        For each panel give "shots": one visual description per slot, in slot order, under 40 words each, for an image generator. Name characters with a brief visual trait instead of pronouns.
+        Give "lines" in reading order: type is one of ${Object.keys(balloonTypeLabels).join(', ')}; speaker is exactly one of the character names above (or empty for CAPTION and SFX). Keep each line under 20 words and leave room for the art.`;
+
+const scriptSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      panels: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            splitLayout: { type: Type.STRING, enum: splitLayouts },
+            colSpan: { type: Type.INTEGER },
+            shots: { type: Type.ARRAY, items: { type: Type.STRING } },
+            lines: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  type: { type: Type.STRING, enum: Object.keys(balloonTypeLabels) },
+                  speaker: { type: Type.STRING },
+                  text: { type: Type.STRING },
+                },
+                required: ['type', 'speaker', 'text'],
+              },
+            },
+          },
+          required: ['splitLayout', 'colSpan', 'shots', 'lines'],
+        },
+      },
+    },
+    required: ['panels'],
+  },
+};
+
+/**
+ * Google Gemini / Imagen backed provider. The client is created on first
+ * use, so a missing key only fails the requests that actually need it.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) {
+      throw new Error('No Gemini API key is configured. Set GEMINI_API_KEY in .env.local or switch to the offline provider.');
+    }
+    client = client ?? new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  /**
+   * Image + text prompt -> new image, using Gemini 2.5 Flash Image (Nano Banana).
+   * Without an image it draws from the text and references alone.
+   */
+  const transformImage = async (image: string | null, text: string, failure: string, options: EditRequestOptions, aspectRatio?: ImageAspectRatio): Promise<string> => {
+    const references = options.references ?? [];
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODELS.imageEdit,
+      contents: {
+        parts: [
+          ...(image ? [{ inlineData: toInlineData(image) }] : []),
+          ...maskParts(options.mask),
+          ...referenceParts(references),
+          { text: text + referenceInstruction(references, image !== null) + maskInstruction(options.mask) },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        imageConfig: aspectRatio ? { aspectRatio } : undefined,
+        abortSignal: options.signal,
+      },
+    });
+
+    // Parse the response for the image part
+    const parts = response.candidates?.[0]?.content?.parts;
+    if (!parts) throw new Error("No content in response");
+
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:${part.inlineData.mimeType ?? 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+    throw new Error(failure);
+  };
+
+  /**
+   * The image model returns one image per call, so candidates are separate
+   * requests. Partial results are kept; only a total failure throws.
+   */
+  const transformImageCandidates = async (image: string | null, text: string, failure: string, options: EditRequestOptions, aspectRatio?: ImageAspectRatio): Promise<string[]> => {
+    const results = await Promise.allSettled(
+      Array.from({ length: Math.max(1, options.count ?? 1) }, () => transformImage(image, text, failure, options, aspectRatio))
+    );
+    const urls = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    if (urls.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+    return urls;
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: 'Imagen 4 for new panels, Gemini 2.5 Flash for edits and story text. Needs an API key.',
+
+    async generateComicImage(prompt: string, aspectRatio: ImageAspectRatio = '1:1', options: ImageRequestOptions = {}) {
+      try {
+        // Imagen takes text only, so requests with reference images go to the Gemini image model
+        if (options.references?.length) {
+          return await transformImageCandidates(null, prompt, "No image generated", options, aspectRatio);
+        }
+        const response = await getClient().models.generateImages({
+          model: GEMINI_MODELS.image,
+          prompt: prompt,
+          config: {
+            numberOfImages: options.count ?? 1,
+            outputMimeType: 'image/jpeg',
+            aspectRatio: aspectRatio,
+            abortSignal: options.signal,
+          },
+        });
+
+        // Filtered candidates come back without bytes, so there may be fewer than asked for
+        const images = (response.generatedImages ?? []).flatMap(generated =>
+          generated.image?.imageBytes ? [`data:image/jpeg;base64,${generated.image.imageBytes}`] : []
+        );
+        if (images.length === 0) {
+          throw new Error("No image generated");
+        }
+        return images;
+      } catch (error) {
+        console.error("Error generating image:", error);
+        throw error;
+      }
+    },
+
+    async generateImageFromSketch(sketch: string, prompt: string, options: ImageRequestOptions = {}) {
+      try {
+        return await transformImageCandidates(sketch, prompt, "No image data found in sketch response", options);
+      } catch (error) {
+        console.error("Error transforming sketch:", error);
+        throw error;
+      }
+    },
+
+    async editComicImage(image: string, editPrompt: string, options: EditRequestOptions = {}) {
+      try {
+        return await transformImageCandidates(image, editPrompt, "No image data found in edit response", options);
+      } catch (error) {
+        console.error("Error editing image:", error);
+        throw error;
+      }
+    },
+
+    async planShots(request: ShotPlanRequest, options: RequestOptions = {}) {
+      try {
+        const response = await getClient().models.generateContent({
+          model: GEMINI_MODELS.text,
+          contents: buildShotPlanPrompt(request),
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+            abortSignal: options.signal,
+          },
+        });
+
+        const parsed: unknown = JSON.parse(response.text || '[]');
+        if (!Array.isArray(parsed)) throw new Error("Shot plan was not a list");
+        // Pad or trim so every slot lines up with a description
+        return request.slots.map((_, i) => typeof parsed[i] === 'string' ? parsed[i].trim() : '');
+      } catch (error) {
+        console.error("Error planning shots:", error);
+        throw error;
+      }
+    },
+
+    async writeScript(request: ScriptRequest, options: RequestOptions = {}) {
+      try {
+        const response = await getClient().models.generateContent({
+          model: GEMINI_MODELS.text,
+          contents: buildScriptPrompt(request),
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: scriptSchema,
+            abortSignal: options.signal,
+          },
+        });
+
+        return normalizeScript(JSON.parse(response.text || '[]'), request.columns);
+      } catch (error) {
+        console.error("Error writing script:", error);
+        throw error;
+      }
+    },
+
+    async generateNarrativeElement(type: NarrativeType, context: string, characterContext: string = '', pageContext: string = '', options: RequestOptions = {}) {
+      try {
+        const response = await getClient().models.generateContent({
+          model: GEMINI_MODELS.text,
+          contents: buildNarrativePrompt(type, context, characterContext, pageContext),
+          config: { abortSignal: options.signal },
+        });
+
+        let text = response.text?.trim() || '';
+        // Clean up quotes if they still appear
+        text = text.replace(/^["']|["']$/g, '');
+        return text;
+      } catch (error) {
+        console.error("Error generating narrative:", error);
+        throw error;
+      }
+    },
+  };
+};
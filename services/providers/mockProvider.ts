@@ -0,0 +1,224 @@
+import { AIProvider, EditRequestOptions, ImageAspectRatio, ImageReference, ImageRequestOptions, NarrativeType, RequestOptions, ScriptPage, ScriptRequest, ShotPlanRequest } from './types';
+import { normalizeScript } from '../scriptService';
+
+/**
+ * Offline provider for working without an API key and for automated tests.
+ * Output depends only on the inputs: the same prompt always gives the same
+ * placeholder image and the same canned text.
+ */
+
+export interface MockProviderOptions {
+  delayMs?: number; // Simulated latency so loading states still show
+}
+
+const IMAGE_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '4:3': [1024, 768],
+  '3:4': [768, 1024],
+  '16:9': [1024, 576],
+  '9:16': [576, 1024],
+};
+
+const PALETTE = ['#ff4757', '#eccc68', '#1e90ff', '#2ed573', '#a55eea', '#ff7f50', '#70a1ff', '#7bed9f'];
+
+const CANNED_TEXT: Record<NarrativeType, string[]> = {
+  'PLOT': [
+    'A lone courier in a yellow raincoat sprints across a rain-slicked rooftop as a neon airship looms overhead.',
+    'Two rival detectives share an umbrella under a flickering streetlamp, eyeing the same sealed envelope.',
+    'A giant stone guardian wakes in a mossy forest clearing while a small fox watches from a hollow log.',
+    'An inventor with soot-streaked goggles unveils a brass robot to a crowd in a crowded market square.',
+  ],
+  'DIALOGUE': [
+    "We're not done yet. Not even close.",
+    'You were supposed to be the lookout!',
+    'Whatever happens next... stay behind me.',
+    'That was NOT part of the plan.',
+  ],
+  'NEXT_PANEL': [
+    'Close-up on the hero, the tall woman in the yellow raincoat, gritting her teeth as sparks fly behind her.',
+    'Wide shot of the street below, the crowd scattering as the shadow of the airship passes over them.',
+    'Over-the-shoulder view of the detective, the gray-haired man in a trench coat, tearing open the envelope.',
+    'The small fox, red fur glowing in the torchlight, leaps onto the stone guardian\'s outstretched hand.',
+  ],
+};
+
+const SHOT_TYPES = [
+  'Wide establishing shot of',
+  'Close-up on',
+  'Over-the-shoulder view of',
+  'Low-angle shot of',
+  'Detail insert of',
+  'Reaction shot during',
+];
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Break the prompt into a few short lines for the placeholder label
+const labelLines = (text: string, maxChars: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] += '...';
+  }
+  return lines;
+};
+
+const svgDataUrl = (svg: string) => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(svg)) binary += String.fromCharCode(byte);
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const labelSvg = (width: number, title: string, text: string) => {
+  const lines = labelLines(text, Math.floor(width / 22), 4);
+  const boxHeight = 70 + lines.length * 34;
+  return `<g font-family="sans-serif">
+    <rect x="32" y="32" width="${width - 64}" height="${boxHeight}" rx="12" fill="#000" fill-opacity="0.7"/>
+    <text x="56" y="78" font-size="26" font-weight="bold" fill="#eccc68">${escapeXml(title)}</text>
+    ${lines.map((l, i) => `<text x="56" y="${118 + i * 34}" font-size="24" fill="#fff">${escapeXml(l)}</text>`).join('')}
+  </g>`;
+};
+
+const placeholderImage = (seed: string, aspectRatio: ImageAspectRatio, title: string, prompt: string) => {
+  const [width, height] = IMAGE_SIZES[aspectRatio] ?? IMAGE_SIZES['1:1'];
+  const hash = hashString(seed);
+  const from = PALETTE[hash % PALETTE.length];
+  const to = PALETTE[(hash >>> 8) % PALETTE.length];
+  const cx = 0.2 + ((hash >>> 16) % 60) / 100;
+  return svgDataUrl(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <circle cx="${Math.round(width * cx)}" cy="${Math.round(height * 0.62)}" r="${Math.round(Math.min(width, height) * 0.22)}" fill="#fff" fill-opacity="0.25"/>
+  <path d="M0 ${height} L${Math.round(width * 0.35)} ${Math.round(height * 0.55)} L${Math.round(width * 0.6)} ${Math.round(height * 0.8)} L${Math.round(width * 0.8)} ${Math.round(height * 0.6)} L${width} ${height} Z" fill="#000" fill-opacity="0.35"/>
+  ${labelSvg(width, title, prompt || 'Untitled panel')}
+</svg>`);
+};
+
+// Wraps the source image and stamps the instruction on top, so the result visibly depends on both
+const derivedImage = (source: string, title: string, prompt: string, tint: string) => {
+  const [width, height] = IMAGE_SIZES['1:1'];
+  return svgDataUrl(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="#222"/>
+  <image href="${source}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+  <rect width="100%" height="100%" fill="${tint}" fill-opacity="0.18"/>
+  ${labelSvg(width, title, prompt)}
+</svg>`);
+};
+
+// Shows which references a request carried, e.g. " + ALICE, BOB"
+const referenceTag = (references: ImageReference[] = []) =>
+  references.length > 0 ? ` + ${Array.from(new Set(references.map(ref => ref.label.toUpperCase()))).join(', ')}` : '';
+
+// Candidate 1 matches a single-image request; later ones get their own seed and label
+const takes = (count: number, make: (seed: string, title: string, index: number) => string, prompt: string, title: string) =>
+  Array.from({ length: Math.max(1, count) }, (_, i) =>
+    i === 0 ? make(prompt, title, i) : make(`${prompt}#${i + 1}`, `${title} (TAKE ${i + 1})`, i)
+  );
+
+/**
+ * A fixed page shape: a full-width establishing panel, a row of two (the
+ * second split on every other page) and a full-width closer.
+ */
+const mockScript = ({ premise, pageCount, characters, columns }: ScriptRequest): ScriptPage[] => {
+  const subject = premise.trim().replace(/\.$/, '') || 'the scene';
+  const names = characters.map(c => c.name.trim()).filter(Boolean);
+  const offset = hashString(premise);
+  const dialogue = CANNED_TEXT['DIALOGUE'];
+  const half = Math.max(1, Math.floor(columns / 2));
+
+  return normalizeScript(Array.from({ length: pageCount }, (_, page) => {
+    const shot = (index: number) => `${SHOT_TYPES[(offset + page * 4 + index) % SHOT_TYPES.length]} ${subject.charAt(0).toLowerCase()}${subject.slice(1)}`;
+    const line = (index: number) => ({
+      type: 'SPEECH',
+      speaker: names.length > 0 ? names[(page + index) % names.length] : '',
+      text: dialogue[(offset + page + index) % dialogue.length],
+    });
+    return {
+      panels: [
+        { splitLayout: 'SINGLE', colSpan: columns, shots: [shot(0)], lines: [{ type: 'CAPTION', speaker: '', text: page === 0 ? subject : `Page ${page + 1}.` }] },
+        { splitLayout: 'SINGLE', colSpan: half, shots: [shot(1)], lines: [line(0)] },
+        page % 2 === 0
+          ? { splitLayout: 'SINGLE', colSpan: columns - half || 1, shots: [shot(2)], lines: [line(1)] }
+          : { splitLayout: 'DOUBLE_V', colSpan: columns - half || 1, shots: [shot(2), shot(3)], lines: [line(1)] },
+        { splitLayout: 'SINGLE', colSpan: columns, shots: [shot(4)], lines: [{ type: 'SFX', speaker: '', text: 'KRAK!' }] },
+      ],
+    };
+  }), columns);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was cancelled', 'AbortError'));
+  };
+  if (signal?.aborted) return abort();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+export const createMockProvider = ({ delayMs = 400 }: MockProviderOptions = {}): AIProvider => ({
+  id: 'mock',
+  name: 'Offline Mock',
+  description: 'Placeholder images and canned story text. No network or API key needed.',
+
+  async generateComicImage(prompt: string, aspectRatio: ImageAspectRatio = '1:1', { signal, count = 1, references }: ImageRequestOptions = {}) {
+    await wait(delayMs, signal);
+    return takes(count, (seed, title) => placeholderImage(seed, aspectRatio, title, prompt), prompt, `MOCK IMAGE${referenceTag(references)}`);
+  },
+
+  async generateImageFromSketch(sketch: string, prompt: string, { signal, count = 1, references }: ImageRequestOptions = {}) {
+    await wait(delayMs, signal);
+    return takes(count, (seed, title) => derivedImage(sketch, title, prompt, PALETTE[hashString(seed) % PALETTE.length]), prompt, `MOCK FROM SKETCH${referenceTag(references)}`);
+  },
+
+  async editComicImage(image: string, editPrompt: string, { signal, count = 1, references, mask }: EditRequestOptions = {}) {
+    await wait(delayMs, signal);
+    // The whole image is tinted; callers put back what's outside a mask
+    return takes(count, (seed, title) => derivedImage(image, title, editPrompt, PALETTE[hashString(seed) % PALETTE.length]), editPrompt, `MOCK ${mask ? 'MASKED ' : ''}EDIT${referenceTag(references)}`);
+  },
+
+  async planShots({ slots }: ShotPlanRequest, { signal }: RequestOptions = {}) {
+    await wait(delayMs, signal);
+    // Consecutive shot types keep neighbouring slots distinct
+    const offset = hashString(slots.map(slot => slot.label).join('|'));
+    return slots.map((slot, index) => {
+      const subject = slot.nearbyPrompts[0]?.replace(/\.$/, '') || 'the scene';
+      const shot = SHOT_TYPES[(offset + index) % SHOT_TYPES.length];
+      return `${shot} ${subject.charAt(0).toLowerCase()}${subject.slice(1)}`;
+    });
+  },
+
+  async writeScript(request: ScriptRequest, { signal }: RequestOptions = {}) {
+    await wait(delayMs, signal);
+    return mockScript(request);
+  },
+
+  async generateNarrativeElement(type: NarrativeType, context: string, characterContext: string = '', pageContext: string = '', { signal }: RequestOptions = {}) {
+    await wait(delayMs, signal);
+    const options = CANNED_TEXT[type];
+    return options[hashString(`${context}|${characterContext}|${pageContext}`) % options.length];
+  },
+});
@@ -0,0 +1,87 @@
+import { BalloonType, ComicPanel, PanelSplitLayout } from '../../types';
+
+export type ImageAspectRatio = ComicPanel['aspectRatio'];
+
+export type NarrativeType = 'PLOT' | 'DIALOGUE' | 'NEXT_PANEL';
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborts the request when a job is cancelled
+}
+
+// An extra image sent to keep something consistent, e.g. a character's reference sheet
+export interface ImageReference {
+  label: string; // What the image shows, e.g. the character's name
+  url: string;
+  role?: 'CHARACTER' | 'STYLE'; // A character to match (default), or an art style to copy
+}
+
+export interface ImageRequestOptions extends RequestOptions {
+  count?: number; // How many candidates to return (default 1)
+  references?: ImageReference[];
+}
+
+export interface EditRequestOptions extends ImageRequestOptions {
+  mask?: string; // Black and white image of the same shape; only the white area should change
+}
+
+// One empty slot that needs a shot description
+export interface ShotSlot {
+  label: string; // e.g. "Panel 2, slot 3 of 4"
+  nearbyPrompts: string[]; // Prompts of the closest filled slots, nearest first
+}
+
+export interface ShotPlanRequest {
+  pageOutline: string; // Every panel and slot on the page, with the empty ones marked
+  slots: ShotSlot[];
+  characterContext: string;
+}
+
+export interface ScriptRequest {
+  premise: string;
+  pageCount: number;
+  characters: { name: string; description: string }[];
+  columns: number; // Grid columns per row on the page, the widest a panel can span
+  previousPanel?: string; // Where the story left off, if it's a continuation
+}
+
+// One line of lettering; speaker is a character name, or empty for captions and sound effects
+export interface ScriptLine {
+  type: BalloonType;
+  speaker: string;
+  text: string;
+}
+
+export interface ScriptPanel {
+  splitLayout: PanelSplitLayout;
+  colSpan: ComicPanel['colSpan'];
+  shots: string[]; // One shot description per slot of the split layout, in slot order
+  lines: ScriptLine[];
+}
+
+export interface ScriptPage {
+  panels: ScriptPanel[];
+}
+
+/**
+ * A backend that can draw panels and write story text. Images go in and
+ * come out as data URLs so providers can be swapped without touching callers.
+ * Image prompts arrive fully composed (see promptService) and are sent as
+ * they are, so what the prompt inspector shows is what the model gets.
+ */
+export interface AIProvider {
+  id: string;
+  name: string;
+  description: string;
+  /** Text-to-image for a new panel. Image methods resolve to one data URL per candidate. */
+  generateComicImage(prompt: string, aspectRatio?: ImageAspectRatio, options?: ImageRequestOptions): Promise<string[]>;
+  /** Finished art from a rough sketch, keeping its composition */
+  generateImageFromSketch(sketch: string, prompt: string, options?: ImageRequestOptions): Promise<string[]>;
+  /** Image + instruction -> edited image */
+  editComicImage(image: string, editPrompt: string, options?: EditRequestOptions): Promise<string[]>;
+  /** One distinct shot description per requested slot, in the same order */
+  planShots(request: ShotPlanRequest, options?: RequestOptions): Promise<string[]>;
+  /** A full script of pages and panels from a premise */
+  writeScript(request: ScriptRequest, options?: RequestOptions): Promise<ScriptPage[]>;
+  /** Short story text for the story assistant */
+  generateNarrativeElement(type: NarrativeType, context: string, characterContext?: string, pageContext?: string, options?: RequestOptions): Promise<string>;
+}
@@ -0,0 +1,532 @@
+import { BalloonType, Chapter, Character, ComicProject, GridLayout, PanelSplitLayout } from '../types';
+import { ScriptLine, ScriptPage, ScriptPanel } from './providers/types';
+import { fitShots, createPanelsFromScript, addScriptSpeakers } from './scriptService';
+import { createPage, getPageLocations } from './pageService';
+import { gridColumns, splitLayouts } from './layoutService';
+import { getOrderedBalloons } from './balloonService';
+import { downloadBlob, toFileSlug } from './fileService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Plain-text comic scripts in and out. Two formats are read:
+ *
+ * - The usual comic script convention, optionally as markdown:
+ *   PAGE ONE / Panel 1 / description / CHARACTER: dialogue
+ * - Fountain screenplays, where page breaks (===) and scene headings start
+ *   pages and each action paragraph becomes a panel.
+ *
+ * Writing always produces the comic script format.
+ */
+
+export const SCRIPT_FILE_EXTENSION = '.md';
+
+/**
+ * Thrown when a script can't be read. `issues` lists each problem with its line number.
+ */
+export class ScriptFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ScriptFileError';
+    this.issues = issues;
+  }
+}
+
+export interface ParsedScript {
+  title: string;
+  pages: ScriptPage[];
+  speakers: string[]; // Every speaker name, in order of first appearance
+}
+
+// --- Shared ---
+
+const ONES = ['', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN', 'ELEVEN', 'TWELVE', 'THIRTEEN', 'FOURTEEN', 'FIFTEEN', 'SIXTEEN', 'SEVENTEEN', 'EIGHTEEN', 'NINETEEN'];
+const TENS = ['', '', 'TWENTY', 'THIRTY', 'FORTY', 'FIFTY', 'SIXTY', 'SEVENTY', 'EIGHTY', 'NINETY'];
+
+// Page numbers are spelled out up to 99 (PAGE TWENTY-ONE), as scripts usually do
+const numberToWords = (n: number) =>
+  n < 20 ? ONES[n] : n < 100 ? TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '') : String(n);
+
+const NUMBER_PATTERN = `\\d+|${Array.from({ length: 99 }, (_, i) => numberToWords(i + 1)).sort((a, b) => b.length - a.length).join('|')}`;
+
+// PAGE ONE, Page 2 (five panels), ## PAGE THREE - notes
+const PAGE_HEADING = new RegExp(`^pages?\\s+(${NUMBER_PATTERN})\\b\\s*(?:\\(([^)]*)\\))?\\s*(?:[-.:–—]\\s*)?(.*)$`, 'i');
+// Panel 1, PANEL TWO (double v, 2 cols): description on the same line
+const PANEL_HEADING = new RegExp(`^panel\\s+(${NUMBER_PATTERN})\\b\\s*(?:\\(([^)]*)\\))?\\s*(?:[-.:–—]\\s*)?(.*)$`, 'i');
+// ALICE: text, 2. BOB (WHISPER): text, **ALICE:** text
+const DIALOGUE_LINE = /^(?:\d+[.)]\s*)?([^:()]+?)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/;
+
+// Speaker names that stand for a balloon type rather than a character
+const typeKeywords: Record<string, BalloonType> = {
+  'CAPTION': 'CAPTION',
+  'NARRATION': 'CAPTION',
+  'NARRATOR': 'CAPTION',
+  'SFX': 'SFX',
+  'FX': 'SFX',
+  'SOUND': 'SFX',
+  'SPEECH': 'SPEECH',
+  'BALLOON': 'SPEECH',
+  'THOUGHT': 'THOUGHT',
+  'WHISPER': 'WHISPER',
+  'SHOUT': 'SHOUT',
+};
+
+// Parentheticals after a speaker that change the balloon; anything else (OFF, CONT'D) is just speech
+const modifierTypes: Record<string, BalloonType> = {
+  'THOUGHT': 'THOUGHT', 'THOUGHTS': 'THOUGHT', 'THINKING': 'THOUGHT', 'THINKS': 'THOUGHT',
+  'WHISPER': 'WHISPER', 'WHISPERS': 'WHISPER', 'WHISPERING': 'WHISPER', 'QUIETLY': 'WHISPER', 'SOFTLY': 'WHISPER',
+  'SHOUT': 'SHOUT', 'SHOUTS': 'SHOUT', 'SHOUTING': 'SHOUT', 'YELLING': 'SHOUT', 'YELLS': 'SHOUT', 'SCREAMING': 'SHOUT', 'BIG': 'SHOUT', 'LOUD': 'SHOUT',
+};
+
+// Capitalised words that start description lines ("CLOSE-UP: her hand", "INT. BAR: night", "CUT TO:"), not speakers
+const shotWords = new Set([
+  'SHOT', 'SHOTS', 'CLOSE', 'CLOSEUP', 'CU', 'ECU', 'WIDE', 'MEDIUM', 'MED', 'ESTABLISHING', 'ANGLE', 'POV', 'INSERT',
+  'PAN', 'ZOOM', 'TRACKING', 'OVERHEAD', 'AERIAL', 'TIGHT', 'REVERSE', 'OTS', 'EXTREME', 'SPLASH', 'INSET', 'VIEW',
+  'INT', 'EXT', 'EST', 'CUT', 'FADE', 'DISSOLVE', 'SMASH', 'INTERCUT', 'FLASHBACK', 'MONTAGE',
+  'SETTING', 'LOCATION', 'SCENE', 'BACKGROUND', 'FOREGROUND', 'BG', 'FG', 'NOTE', 'NOTES', 'PANEL', 'PAGE',
+]);
+
+// A speaker cue is a short name; capitals alone don't make one when the words are shot or scene vocabulary
+const isSpeakerCue = (name: string) => {
+  const words = name.trim().toUpperCase().split(/[\s./\-]+/).filter(Boolean);
+  return words.length > 0 && words.length <= 4 && !words.some(word => shotWords.has(word));
+};
+
+// Written for a slot without a description, so the shots after it keep their slots
+const EMPTY_SHOT = '(Empty slot)';
+
+const isEmptyShot = (shot: string) => shot.toLowerCase() === EMPTY_SHOT.toLowerCase();
+
+// Lines starting with ! are always description, as in Fountain; written before descriptions that would read as something else
+const FORCED_DESCRIPTION = '!';
+
+const isAllCaps = (value: string) => /\p{L}/u.test(value) && value === value.toUpperCase();
+
+// ALICE -> Alice, DR. MOREAU -> Dr. Moreau; names already in mixed case are kept
+const toDisplayName = (name: string) =>
+  isAllCaps(name) ? name.toLowerCase().replace(/(^|[\s.'-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase()) : name;
+
+// Strips markdown decoration from a line: headings, quotes, bullets and emphasis
+const stripMarkdown = (line: string) =>
+  line
+    .replace(/^\s*#+\s*/, '')
+    .replace(/^\s*>\s?/, '')
+    .replace(/^\s*[-*+]\s+/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2')
+    .trim();
+
+/**
+ * Collects lines and speakers as they're parsed, so both parsers build the same script
+ */
+const createScriptBuilder = () => {
+  const pages: ScriptPage[] = [];
+  const speakers: string[] = [];
+  let panel: ScriptPanel | null = null;
+
+  const builder = {
+    pages,
+    speakers,
+    get panel() { return panel; },
+    startPage() {
+      pages.push({ panels: [] });
+      panel = null;
+    },
+    startPanel(splitLayout: PanelSplitLayout = 'SINGLE', colSpan: ScriptPanel['colSpan'] = 1) {
+      if (pages.length === 0) builder.startPage();
+      panel = { splitLayout, colSpan, shots: [], lines: [] };
+      pages[pages.length - 1].panels.push(panel);
+      return panel;
+    },
+    addLine(speaker: string, modifier: string, text: string) {
+      if (!panel) builder.startPanel();
+      const keyword = typeKeywords[speaker.toUpperCase()];
+      const modifierType = modifierTypes[modifier.toUpperCase().replace(/[^A-Z ]/g, '').trim()];
+      const type: BalloonType = keyword && keyword !== 'SPEECH' ? keyword : modifierType ?? keyword ?? 'SPEECH';
+      const name = keyword || type === 'CAPTION' || type === 'SFX' ? '' : toDisplayName(speaker);
+      if (name && !speakers.some(s => s.toLowerCase() === name.toLowerCase())) speakers.push(name);
+      const line: ScriptLine = { type, speaker: name, text };
+      panel!.lines.push(line);
+      return line;
+    },
+  };
+  return builder;
+};
+
+const finishScript = (title: string, pages: ScriptPage[], speakers: string[], issues: string[]): ParsedScript => {
+  const script = pages
+    .map(page => ({
+      panels: page.panels.map(panel => ({ ...panel, shots: fitShots(mergeShots(panel), panel.splitLayout) })),
+    }))
+    .filter(page => page.panels.length > 0);
+  if (script.length === 0 && issues.length === 0) {
+    issues.push('Line 1: no panels found. Start each page with "PAGE ONE" and each panel with "Panel 1".');
+  }
+  if (issues.length > 0) {
+    throw new ScriptFileError(`The script has ${issues.length} problem${issues.length === 1 ? '' : 's'}.`, issues);
+  }
+  return { title, pages: script, speakers };
+};
+
+const joinShots = (shots: string[]) => shots.filter(shot => !isEmptyShot(shot)).join(' ');
+
+// A SINGLE panel described in several paragraphs is still one shot; split panels get one paragraph per slot
+const mergeShots = (panel: ScriptPanel) => {
+  const shots = panel.shots.map(shot => shot.trim()).filter(Boolean);
+  if (shots.length <= 1 || panel.splitLayout === 'SINGLE') return [joinShots(shots)];
+  const count = fitShots([], panel.splitLayout).length;
+  const fitted = shots.length <= count ? shots : [...shots.slice(0, count - 1), joinShots(shots.slice(count - 1))];
+  return fitted.map(shot => isEmptyShot(shot) ? '' : shot);
+};
+
+// --- Comic script ---
+
+/**
+ * Panel heading options, e.g. "double v, 2 cols" or "wide"
+ */
+const parsePanelOptions = (options: string, lineNumber: number, issues: string[]) => {
+  let splitLayout: PanelSplitLayout = 'SINGLE';
+  let colSpan: ScriptPanel['colSpan'] = 1;
+  for (const raw of options.split(',')) {
+    const option = raw.trim().toLowerCase();
+    if (!option) continue;
+    const layout = splitLayouts.find(l => l.toLowerCase() === option.replace(/[\s-]+/g, '_'));
+    const span = option.match(/^(\d+)\s*(?:cols?|columns?)$/);
+    if (layout) {
+      splitLayout = layout;
+    } else if (span && Number(span[1]) >= 1 && Number(span[1]) <= 6) {
+      colSpan = Number(span[1]) as ScriptPanel['colSpan'];
+    } else if (option === 'wide' || option === 'full width') {
+      colSpan = gridColumns[GridLayout.STANDARD] as ScriptPanel['colSpan'];
+    } else {
+      issues.push(`Line ${lineNumber}: unknown panel option "${raw.trim()}". Use a split such as "double v", a width such as "2 cols", or "wide".`);
+    }
+  }
+  return { splitLayout, colSpan };
+};
+
+/**
+ * Reads the PAGE / Panel / CHARACTER: dialogue convention. Text before the
+ * first page is treated as title matter and notes between a page heading
+ * and its first panel are skipped. `knownNames` lets mixed-case speakers
+ * ("Alice: hi") count as dialogue; otherwise speakers must be short names in
+ * capitals that aren't shot or scene vocabulary. Lines that only look like
+ * dialogue because of a shot or scene word are description, even right
+ * after a balloon. A line starting with ! is always description.
+ */
+export const parseComicScript = (text: string, knownNames: string[] = []): ParsedScript => {
+  const issues: string[] = [];
+  const script = createScriptBuilder();
+  const known = new Set(knownNames.map(name => name.trim().toLowerCase()).filter(Boolean));
+  let title = '';
+  let shot: string[] | null = null; // Paragraph of description being collected
+  let lastLine: ScriptLine | null = null; // Dialogue that the next line may continue
+
+  const addDescription = (line: string) => {
+    const panel = script.panel;
+    if (!panel) {
+      // Title matter before the first page; a bare first line can name the script
+      if (!title && script.pages.length === 0) title = line.replace(/^title\s*:\s*/i, '');
+      return;
+    }
+    if (!shot) {
+      shot = [];
+      panel.shots.push('');
+    }
+    shot.push(line);
+    panel.shots[panel.shots.length - 1] = shot.join(' ');
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const isForced = rawLine.trimStart().startsWith(FORCED_DESCRIPTION);
+    const line = isForced ? rawLine.trim().slice(FORCED_DESCRIPTION.length).trim() : stripMarkdown(rawLine);
+    const isHeading = /^\s*#/.test(rawLine);
+
+    if (!line) {
+      shot = null;
+      lastLine = null;
+      return;
+    }
+
+    if (isForced) {
+      lastLine = null;
+      addDescription(line);
+      return;
+    }
+
+    const page = line.match(PAGE_HEADING);
+    const panelHeading = line.match(PANEL_HEADING);
+    if (page) {
+      script.startPage();
+      shot = null;
+      lastLine = null;
+      return;
+    }
+    if (panelHeading) {
+      const { splitLayout, colSpan } = parsePanelOptions(panelHeading[2] ?? '', lineNumber, issues);
+      const panel = script.startPanel(splitLayout, colSpan);
+      // "Panel 1: Wide shot of..." starts the description on the heading line
+      shot = panelHeading[3] ? [panelHeading[3]] : null;
+      if (shot) panel.shots.push(shot[0]);
+      lastLine = null;
+      return;
+    }
+    if (isHeading) {
+      // The first heading before any page names the script; later ones (chapters) are skipped
+      if (!title && script.pages.length === 0) title = line;
+      shot = null;
+      lastLine = null;
+      return;
+    }
+
+    const dialogue = line.match(DIALOGUE_LINE);
+    const isKnown = !!dialogue && known.has(dialogue[1].trim().toLowerCase());
+    if (dialogue && ((isAllCaps(dialogue[1]) && isSpeakerCue(dialogue[1])) || isKnown)) {
+      const [, speaker, modifier = '', spoken] = dialogue;
+      if (!script.panel) {
+        // Speakers on a title page ("WRITER: ...") aren't dialogue yet
+        if (script.pages.length === 0) return;
+        issues.push(`Line ${lineNumber}: dialogue for ${speaker.trim()} comes before the page's first panel. Add a "Panel 1" heading above it.`);
+        return;
+      }
+      if (!spoken.trim()) {
+        issues.push(`Line ${lineNumber}: "${speaker.trim()}:" has no dialogue after it.`);
+        return;
+      }
+      lastLine = script.addLine(speaker.trim(), modifier, spoken.trim());
+      shot = null;
+      return;
+    }
+
+    // "CLOSE-UP: her hand trembles." looks like dialogue but names a shot, so it
+    // describes the panel rather than continuing the balloon above it
+    if (dialogue && !isKnown && !isSpeakerCue(dialogue[1])) {
+      lastLine = null;
+      addDescription(line);
+      return;
+    }
+
+    if (lastLine) {
+      lastLine.text += ` ${line}`;
+      return;
+    }
+
+    addDescription(line);
+  });
+
+  return finishScript(title, script.pages, script.speakers, issues);
+};
+
+// --- Fountain ---
+
+const TITLE_PAGE_KEY = /^(?:title|credit|author|authors|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+const SCENE_HEADING = /^(?:\.(?!\.)|(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[\s.])/i;
+const TRANSITION = /^(?:>(?!.*<$)|[A-Z\s]+TO:$)/;
+
+/**
+ * Blanks out boneyard (/* *\/) and note ([[ ]]) text while keeping line
+ * breaks, so line numbers still match the original file.
+ */
+const stripFountainComments = (text: string, issues: string[]) => {
+  let result = text;
+  for (const [open, close, name] of [['/*', '*/', 'boneyard'], ['[[', ']]', 'note']] as const) {
+    let start = result.indexOf(open);
+    while (start !== -1) {
+      const end = result.indexOf(close, start + open.length);
+      if (end === -1) {
+        const lineNumber = result.slice(0, start).split('\n').length;
+        issues.push(`Line ${lineNumber}: this ${name} (${open}) is never closed with ${close}.`);
+        result = result.slice(0, start);
+        break;
+      }
+      const hidden = result.slice(start, end + close.length).replace(/[^\n]/g, '');
+      result = result.slice(0, start) + hidden + result.slice(end + close.length);
+      start = result.indexOf(open, start + hidden.length);
+    }
+  }
+  return result;
+};
+
+const stripEmphasis = (text: string) => text.replace(/\\([*_])/g, '$1').replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2');
+
+/**
+ * Reads a Fountain screenplay. Forced page breaks (===) and scene headings
+ * start a new page, each action paragraph starts a panel, and dialogue goes
+ * on the panel above it. Transitions, sections and synopses are skipped.
+ */
+export const parseFountain = (text: string): ParsedScript => {
+  const issues: string[] = [];
+  const script = createScriptBuilder();
+  const lines = stripFountainComments(text, issues).split(/\r?\n/);
+  let title = '';
+  let sceneHeading = '';
+
+  // Group lines into paragraphs, remembering where each one starts
+  const blocks: { lineNumber: number; lines: string[] }[] = [];
+  let current: { lineNumber: number; lines: string[] } | null = null;
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { lineNumber: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line.trim());
+  });
+
+  // Title page: "Key: value" lines at the very top
+  if (blocks[0] && TITLE_PAGE_KEY.test(blocks[0].lines[0])) {
+    const titlePage = blocks.shift()!;
+    const titleIndex = titlePage.lines.findIndex(line => /^title\s*:/i.test(line));
+    if (titleIndex !== -1) {
+      const inline = titlePage.lines[titleIndex].replace(/^title\s*:/i, '').trim();
+      // A multi-line value continues on the following indented lines
+      title = stripEmphasis(inline || titlePage.lines.slice(titleIndex + 1).find(line => !/^[A-Za-z ]+:/.test(line)) || '');
+    }
+  }
+
+  for (const block of blocks) {
+    const [first, ...rest] = block.lines;
+
+    if (/^={3,}$/.test(first)) {
+      script.startPage();
+      continue;
+    }
+    if (first.startsWith('#') || first.startsWith('=')) continue;
+    if (rest.length === 0 && SCENE_HEADING.test(first)) {
+      if (script.pages.length === 0 || script.pages[script.pages.length - 1].panels.length > 0) script.startPage();
+      sceneHeading = stripEmphasis(first.replace(/^\./, '').replace(/\s*#[^#]*#$/, '').trim());
+      continue;
+    }
+    if (rest.length === 0 && (TRANSITION.test(first) || /^>.*<$/.test(first))) continue;
+
+    // Character cue: capitals (or forced with @) followed by dialogue
+    const cue = first.match(/^@?([^(^]+?)\s*(?:\(([^)]*)\))?\s*\^?$/);
+    const isCue = rest.length > 0 && !first.startsWith('!') && cue && (first.startsWith('@') || isAllCaps(cue[1]));
+    if (isCue) {
+      let modifier = cue[2] ?? '';
+      const spoken: string[] = [];
+      for (const line of rest) {
+        const parenthetical = line.match(/^\((.*)\)$/);
+        if (parenthetical) {
+          if (spoken.length === 0) modifier = parenthetical[1];
+        } else {
+          spoken.push(stripEmphasis(line.replace(/^~/, '')));
+        }
+      }
+      if (spoken.length === 0) {
+        issues.push(`Line ${block.lineNumber}: ${cue[1].trim()} has a parenthetical but no dialogue.`);
+        continue;
+      }
+      if (!script.panel) {
+        // Dialogue with no action above it still needs a panel to go in
+        script.startPanel().shots.push(sceneHeading);
+        sceneHeading = '';
+      }
+      script.addLine(cue[1].trim(), modifier, spoken.join(' '));
+      continue;
+    }
+
+    // Action: a new panel, opened by the scene heading if it's the first in the scene
+    const action = stripEmphasis(block.lines.map(line => line.replace(/^!/, '')).join(' '));
+    script.startPanel().shots.push(sceneHeading ? `${sceneHeading}. ${action}` : action);
+    sceneHeading = '';
+  }
+
+  return finishScript(title, script.pages, script.speakers, issues);
+};
+
+/**
+ * Picks the parser from the file extension, or for plain text, from
+ * whether the script uses PAGE / Panel headings
+ */
+export const parseScriptFile = (text: string, fileName: string, knownNames: string[] = []): ParsedScript => {
+  const isFountain = /\.(fountain|spmd)$/i.test(fileName)
+    || (!/\.(md|markdown)$/i.test(fileName) && !text.split(/\r?\n/).some(line => PAGE_HEADING.test(stripMarkdown(line)) || PANEL_HEADING.test(stripMarkdown(line))));
+  return isFountain ? parseFountain(text) : parseComicScript(text, knownNames);
+};
+
+/**
+ * Turns a parsed script into a chapter of empty panels. Speakers who aren't
+ * characters yet are added as new characters with an empty description.
+ */
+export const createChapterFromScript = (script: ParsedScript, characters: Character[], fallbackTitle: string): { chapter: Chapter; characters: Character[] } => {
+  const allCharacters = addScriptSpeakers(characters, script.speakers);
+
+  return {
+    chapter: {
+      id: uuidv4(),
+      title: script.title || fallbackTitle,
+      pages: script.pages.map(page => {
+        const created = createPage();
+        return { ...created, panels: createPanelsFromScript(page, allCharacters, created.gridLayout) };
+      }),
+    },
+    characters: allCharacters,
+  };
+};
+
+// --- Writing ---
+
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Descriptions that would read back as dialogue, a heading or an empty slot get forced
+const describeShot = (prompt: string) =>
+  DIALOGUE_LINE.test(prompt) || PAGE_HEADING.test(prompt) || PANEL_HEADING.test(prompt) || isEmptyShot(prompt) ||
+  prompt.startsWith(FORCED_DESCRIPTION) || stripMarkdown(prompt) !== prompt
+    ? `${FORCED_DESCRIPTION}${prompt}`
+    : prompt;
+
+/**
+ * Writes the project out in the comic script format parseComicScript reads
+ */
+export const serializeComicScript = (project: ComicProject): string => {
+  const names = new Map(project.characters.map(c => [c.id, c.name.trim()]));
+  const out: string[] = [`# ${project.name}`, ''];
+  let chapterId = '';
+
+  for (const { chapter, page, pageNumber } of getPageLocations(project)) {
+    if (chapter.id !== chapterId) {
+      chapterId = chapter.id;
+      out.push(`## ${chapter.title}`, '');
+    }
+    out.push(`PAGE ${numberToWords(pageNumber)}`, '');
+
+    page.panels.forEach((panel, index) => {
+      const options = [
+        panel.splitLayout !== 'SINGLE' ? panel.splitLayout.replace('_', ' ').toLowerCase() : '',
+        panel.colSpan > 1 ? `${panel.colSpan} cols` : '',
+      ].filter(Boolean);
+      out.push(`Panel ${index + 1}${options.length > 0 ? ` (${options.join(', ')})` : ''}`, '');
+
+      // Every slot gets a paragraph, so on the way back in each shot lands in its own slot
+      for (const image of panel.images) {
+        const prompt = oneLine(image.prompt);
+        out.push(prompt ? describeShot(prompt) : EMPTY_SHOT, '');
+      }
+
+      const lines = getOrderedBalloons(panel).filter(balloon => balloon.text.trim());
+      for (const balloon of lines) {
+        const speaker = balloon.speakerId ? names.get(balloon.speakerId) : '';
+        const text = oneLine(balloon.text);
+        if (balloon.type === 'CAPTION' || balloon.type === 'SFX' || !speaker) {
+          out.push(`${balloon.type}: ${text}`);
+        } else {
+          out.push(`${speaker.toUpperCase()}${balloon.type === 'SPEECH' ? '' : ` (${balloon.type})`}: ${text}`);
+        }
+      }
+      if (lines.length > 0) out.push('');
+    });
+  }
+
+  return out.join('\n').replace(/\n+$/, '\n');
+};
+
+export const downloadComicScript = (project: ComicProject) => {
+  const blob = new Blob([serializeComicScript(project)], { type: 'text/markdown' });
+  downloadBlob(blob, `${toFileSlug(project.name)}-script${SCRIPT_FILE_EXTENSION}`);
+};
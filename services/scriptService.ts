@@ -0,0 +1,131 @@
+import { Character, ComicPanel, ComicProject, GridLayout, PanelSplitLayout } from '../types';
+import { ScriptLine, ScriptPage, ScriptPanel } from './providers/types';
+import { getEffectiveColSpan, getSlotCount, nearestAspectRatio, splitLayouts } from './layoutService';
+import { createEmptyImage } from './imageVersionService';
+import { addBalloon, balloonTypeLabels } from './balloonService';
+import { createPage, findPageLocation, updateChapter } from './pageService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Page scripts written from a premise: checked and tidied after they come
+ * back from the model, then turned into empty panels ready for generation.
+ */
+
+export const MAX_SCRIPT_PAGES = 6;
+export const MAX_SCRIPT_PANELS_PER_PAGE = 8;
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const clampSpan = (value: unknown, columns: number): ScriptPanel['colSpan'] => {
+  const span = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : 1;
+  return Math.min(Math.max(span, 1), columns, 6) as ScriptPanel['colSpan'];
+};
+
+/**
+ * Pads or trims shot descriptions to one per slot of the layout
+ */
+export const fitShots = (shots: string[], layout: PanelSplitLayout): string[] =>
+  Array.from({ length: getSlotCount(layout) }, (_, i) => shots[i] ?? '');
+
+const normalizeLine = (raw: any): ScriptLine | null => {
+  const text = asString(raw?.text);
+  if (!text) return null;
+  const type = raw?.type in balloonTypeLabels ? raw.type : 'SPEECH';
+  // Captions and sound effects aren't spoken by anyone
+  const speaker = type === 'CAPTION' || type === 'SFX' ? '' : asString(raw?.speaker);
+  return { type, speaker, text };
+};
+
+const normalizePanel = (raw: any, columns: number): ScriptPanel => {
+  const splitLayout: PanelSplitLayout = splitLayouts.includes(raw?.splitLayout) ? raw.splitLayout : 'SINGLE';
+  const shots = Array.isArray(raw?.shots) ? raw.shots.map(asString) : [asString(raw?.shots)];
+  const lines = Array.isArray(raw?.lines) ? raw.lines.map(normalizeLine).filter((line: ScriptLine | null): line is ScriptLine => line !== null) : [];
+  return { splitLayout, colSpan: clampSpan(raw?.colSpan, columns), shots: fitShots(shots, splitLayout), lines };
+};
+
+/**
+ * Turns whatever JSON came back into a well-formed script: unknown layouts
+ * become SINGLE, spans fit the grid and every panel has one shot per slot.
+ * Throws if there's nothing usable in it.
+ */
+export const normalizeScript = (raw: unknown, columns: number): ScriptPage[] => {
+  if (!Array.isArray(raw)) throw new Error('Script was not a list of pages');
+  const pages = raw
+    .slice(0, MAX_SCRIPT_PAGES)
+    .map((page: any) => ({
+      panels: (Array.isArray(page?.panels) ? page.panels : [])
+        .slice(0, MAX_SCRIPT_PANELS_PER_PAGE)
+        .map((panel: unknown) => normalizePanel(panel, columns))
+        .filter((panel: ScriptPanel) => panel.shots.some(Boolean) || panel.lines.length > 0),
+    }))
+    .filter(page => page.panels.length > 0);
+  if (pages.length === 0) throw new Error('Script had no panels');
+  return pages;
+};
+
+// Matches a script speaker to a character by name, ignoring case
+const findSpeakerId = (characters: Character[], speaker: string) => {
+  const name = speaker.trim().toLowerCase();
+  return name ? characters.find(c => c.name.trim().toLowerCase() === name)?.id : undefined;
+};
+
+/**
+ * Characters for every speaker in the script, adding the ones that don't
+ * exist yet with an empty description so no line loses its speaker
+ */
+export const addScriptSpeakers = (characters: Character[], speakers: string[]): Character[] => {
+  const added: Character[] = [];
+  for (const speaker of speakers) {
+    const name = speaker.trim();
+    if (name && !findSpeakerId([...characters, ...added], name)) added.push({ id: uuidv4(), name, description: '' });
+  }
+  return [...characters, ...added];
+};
+
+// Speakers in the order they first talk
+export const getScriptSpeakers = (script: ScriptPage[]) =>
+  script.flatMap(page => page.panels.flatMap(panel => panel.lines.map(line => line.speaker)));
+
+/**
+ * Empty panel skeletons for one script page: a slot per shot, waiting for
+ * art, with the dialogue already lettered. Panels are as tall as one column
+ * is wide, so panels that span several columns of the page's grid get a
+ * wide aspect ratio.
+ */
+export const createPanelsFromScript = (page: ScriptPage, characters: Character[], gridLayout: GridLayout): ComicPanel[] =>
+  page.panels.map(panel => ({
+    id: uuidv4(),
+    images: fitShots(panel.shots, panel.splitLayout).map(shot => createEmptyImage(shot.trim())),
+    splitLayout: panel.splitLayout,
+    balloons: panel.lines
+      .filter(line => line.text.trim())
+      .reduce((balloons, line) => addBalloon(balloons, line.type, line.text.trim(), findSpeakerId(characters, line.speaker)), [] as ComicPanel['balloons']),
+    aspectRatio: nearestAspectRatio(getEffectiveColSpan(panel, gridLayout)),
+    colSpan: panel.colSpan,
+  }));
+
+/**
+ * Adds a script's pages right after `pageId`, using that page's grid
+ * settings. If that page is still empty, the first script page goes on it.
+ * Speakers who aren't characters yet are added as characters.
+ * Returns the ids of the pages the script landed on.
+ */
+export const insertScriptPages = (project: ComicProject, pageId: string, script: ScriptPage[], characters: Character[]): { project: ComicProject; pageIds: string[] } => {
+  const location = findPageLocation(project, pageId);
+  if (!location || script.length === 0) return { project, pageIds: [] };
+  const { chapter, page: anchor } = location;
+  const reuseAnchor = anchor.panels.length === 0;
+  const allCharacters = addScriptSpeakers(characters, getScriptSpeakers(script));
+
+  const pages = script.map((scriptPage, i) => ({
+    ...(reuseAnchor && i === 0 ? anchor : createPage(anchor.gridLayout, anchor.gutterSize)),
+    panels: createPanelsFromScript(scriptPage, allCharacters, anchor.gridLayout),
+  }));
+
+  const next = updateChapter(project, chapter.id, ch => {
+    const index = ch.pages.findIndex(p => p.id === anchor.id);
+    const before = ch.pages.slice(0, reuseAnchor ? index : index + 1);
+    return { ...ch, pages: [...before, ...pages, ...ch.pages.slice(index + 1)] };
+  });
+  return { project: { ...next, characters: allCharacters }, pageIds: pages.map(p => p.id) };
+};
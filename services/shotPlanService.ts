@@ -0,0 +1,86 @@
+import { ComicPanel } from '../types';
+import { ShotPlanRequest } from './providers/types';
+import { getBalloonText } from './balloonService';
+import { countSlots } from './layoutService';
+
+/**
+ * Finds the empty image slots on a page and describes the page around them,
+ * so the story assistant can suggest a shot for each one in one go.
+ */
+
+export interface EmptySlot {
+  panelId: string;
+  imageId: string;
+  label: string;
+  prompt: string; // Shot already written for the slot, e.g. by a page script
+}
+
+const slotLabel = (panelNumber: number, slotNumber: number, slotCount: number) =>
+  slotCount > 1 ? `Panel ${panelNumber}, slot ${slotNumber} of ${slotCount}` : `Panel ${panelNumber}`;
+
+/**
+ * Empty slots in reading order, limited to one panel when panelId is given.
+ * Slots in `excludeImageIds` (e.g. already being generated) and slots with
+ * candidates waiting for a pick are skipped.
+ */
+export const findEmptySlots = (panels: ComicPanel[], panelId?: string, excludeImageIds: string[] = []): EmptySlot[] => {
+  const slots: EmptySlot[] = [];
+  panels.forEach((panel, panelIndex) => {
+    if (panelId && panel.id !== panelId) return;
+    panel.images.forEach((img, slotIndex) => {
+      if (img.url || img.candidates?.length || excludeImageIds.includes(img.id)) return;
+      slots.push({ panelId: panel.id, imageId: img.id, label: slotLabel(panelIndex + 1, slotIndex + 1, panel.images.length), prompt: img.prompt.trim() });
+    });
+  });
+  return slots;
+};
+
+/**
+ * Filled slot prompts ordered by distance from the given slot: same panel
+ * first, then outward through the neighbouring panels.
+ */
+const getNearbyPrompts = (panels: ComicPanel[], panelIndex: number, slotIndex: number, limit = 3) => {
+  const candidates: { prompt: string; distance: number }[] = [];
+  panels.forEach((panel, p) => {
+    panel.images.forEach((img, s) => {
+      const prompt = img.prompt.trim();
+      if (!img.url || !prompt) return;
+      const distance = p === panelIndex ? Math.abs(s - slotIndex) : 10 * Math.abs(p - panelIndex) + s;
+      candidates.push({ prompt, distance });
+    });
+  });
+  return candidates.sort((a, b) => a.distance - b.distance).slice(0, limit).map(c => c.prompt);
+};
+
+// Custom interiors have no preset name; the slot count and whether the cuts are slanted say enough
+const describeSplit = (panel: ComicPanel) => {
+  if (!panel.geometry) return `${panel.splitLayout.replace('_', ' ').toLowerCase()} split`;
+  return `${countSlots(panel.geometry)}-slot ${panel.geometry.kind === 'POLYGONS' ? 'slanted' : 'custom'} split`;
+};
+
+export const buildShotPlanRequest = (panels: ComicPanel[], slots: EmptySlot[], characterContext: string, previousPagePrompt: string = ''): ShotPlanRequest => {
+  const markers = new Map(slots.map((slot, i) => [slot.imageId, i + 1]));
+
+  const lines: string[] = [];
+  if (previousPagePrompt) lines.push(`(Previous page ended with: ${previousPagePrompt})`);
+  panels.forEach((panel, p) => {
+    const lettering = getBalloonText(panel);
+    lines.push(`Panel ${p + 1} (${describeSplit(panel)}${lettering ? `, lettering "${lettering}"` : ''}):`);
+    panel.images.forEach((img, s) => {
+      const marker = markers.get(img.id);
+      const content = marker ? `[EMPTY ${marker}]` : img.url ? img.prompt || '(image without description)' : '(empty, leave as is)';
+      lines.push(`  Slot ${s + 1}: ${content}`);
+    });
+  });
+
+  return {
+    pageOutline: lines.join('\n'),
+    slots: slots.map(slot => {
+      const panelIndex = panels.findIndex(p => p.id === slot.panelId);
+      const slotIndex = panels[panelIndex]?.images.findIndex(img => img.id === slot.imageId) ?? 0;
+      const nearby = getNearbyPrompts(panels, panelIndex, slotIndex);
+      return { label: slot.label, nearbyPrompts: nearby.length > 0 || !previousPagePrompt ? nearby : [previousPagePrompt] };
+    }),
+    characterContext,
+  };
+};
@@ -0,0 +1,84 @@
+import { Point } from './layoutService';
+
+/**
+ * The in-app sketch pad. A sketch is a list of strokes over an optional base
+ * image (a sketch being drawn over); it's flattened onto white for the
+ * sketch-to-panel transform.
+ */
+
+export type SketchTool = 'PEN' | 'ERASER';
+
+export interface SketchStroke {
+  tool: SketchTool;
+  width: number; // Canvas pixels
+  points: Point[]; // Canvas pixels
+}
+
+// Long side of the sketch canvas; plenty for a rough sketch and small enough to send
+export const SKETCH_LONG_SIDE = 1024;
+
+export const SKETCH_LINE_WIDTHS = [3, 6, 12, 24];
+
+export const SKETCH_INK = '#111111';
+
+export const getSketchSize = (aspectRatio: number) =>
+  aspectRatio >= 1
+    ? { width: SKETCH_LONG_SIDE, height: Math.round(SKETCH_LONG_SIDE / aspectRatio) }
+    : { width: Math.round(SKETCH_LONG_SIDE * aspectRatio), height: SKETCH_LONG_SIDE };
+
+/**
+ * Draws one stroke; the eraser cuts through to transparent, base image included
+ */
+export const drawSketchStroke = (ctx: CanvasRenderingContext2D, stroke: SketchStroke, ink: string = SKETCH_INK) => {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+  ctx.save();
+  ctx.globalCompositeOperation = stroke.tool === 'ERASER' ? 'destination-out' : 'source-over';
+  ctx.strokeStyle = ink;
+  ctx.fillStyle = ink;
+  ctx.lineWidth = stroke.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (rest.length === 0) {
+    // A tap leaves a dot
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, stroke.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    ctx.beginPath();
+    ctx.moveTo(first.x, first.y);
+    rest.forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Redraws the base image and every stroke. A base of another shape (an
+ * uploaded sketch) is cropped to cover the canvas, like art in a slot.
+ */
+export const drawSketch = (ctx: CanvasRenderingContext2D, base: HTMLImageElement | null, strokes: SketchStroke[]) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (base) {
+    const scale = Math.max(width / base.width, height / base.height);
+    const w = base.width * scale;
+    const h = base.height * scale;
+    ctx.drawImage(base, (width - w) / 2, (height - h) / 2, w, h);
+  }
+  strokes.forEach(stroke => drawSketchStroke(ctx, stroke));
+};
+
+/**
+ * The sketch as a PNG data URL on a white background, the way an uploaded sketch would look
+ */
+export const flattenSketch = (canvas: HTMLCanvasElement): string => {
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const ctx = output.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(canvas, 0, 0);
+  return output.toDataURL('image/png');
+};
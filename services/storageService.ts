@@ -0,0 +1,129 @@
+import { ComicProject, ProjectSummary } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateProjectData } from './projectFileService';
+import { createChapter, countPanels } from './pageService';
+import { v4 as uuidv4 } from 'uuid';
+
+const DB_NAME = 'novelgen-ai';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+const LAST_PROJECT_KEY = 'novelgen:lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const toSummary = (project: ComicProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  pageCount: project.chapters.reduce((total, chapter) => total + chapter.pages.length, 0),
+  panelCount: countPanels(project),
+});
+
+/**
+ * Creates a new project with one chapter holding one empty page
+ */
+export const createProject = (name: string): ComicProject => {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    chapters: [createChapter('Chapter 1')],
+    characters: [],
+  };
+};
+
+/**
+ * Lists all saved projects, most recently updated first
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+  const summaries = await requestToPromise(tx.objectStore(SUMMARIES_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a full project, including all image data, upgraded to the current schema
+ */
+export const loadProject = async (id: string): Promise<ComicProject | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<any>);
+  if (!record) return null;
+  // Records saved before versioning was added are schema 1
+  const { schemaVersion = 1, ...data } = record;
+  return migrateProjectData(data, schemaVersion) as ComicProject;
+};
+
+/**
+ * Writes the project and its summary in a single transaction
+ */
+export const saveProject = async (project: ComicProject): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION });
+  tx.objectStore(SUMMARIES_STORE).put(toSummary(project));
+  await transactionDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Storage can be unavailable in private mode; restoring is best effort
+  }
+};
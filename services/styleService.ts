@@ -0,0 +1,100 @@
+import { ComicStyle, StylePreset } from '../types';
+import { ImageReference } from './providers/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Art styles. The built-in ComicStyles ship with the app; projects can add
+ * their own presets. A style is picked by id: a ComicStyle for the built-ins,
+ * the preset's id otherwise.
+ */
+
+export type StyleId = ComicStyle | string;
+
+export const DEFAULT_STYLE: ComicStyle = 'MODERN';
+
+export const builtInStyles: Record<ComicStyle, { label: string; prompt: string }> = {
+  'MODERN': { label: 'Modern', prompt: 'modern comic book style, crisp lines, vibrant colors, digital art' },
+  'SUPERHERO': { label: 'Superhero (Marvel)', prompt: 'classic american superhero comic style, marvel style, dynamic action poses, bold colors, detailed muscle anatomy, cinematic composition' },
+  'MANGA': { label: 'Manga / Anime', prompt: 'manga style, anime aesthetic, expressive characters, detailed ink lines, screentones' },
+  'GHIBLI': { label: 'Studio Ghibli', prompt: 'studio ghibli style, hayao miyazaki art style, beautiful painted backgrounds, whimsical, soft colors, highly detailed nature' },
+  'NOIR': { label: 'Noir (B&W)', prompt: 'film noir style, high contrast black and white comic, dramatic shadows, mysterious atmosphere, frank miller style' },
+  'RETRO': { label: 'Vintage 50s', prompt: 'vintage 1950s comic style, halftone dots, retro color palette, aged paper texture, golden age comics' },
+  'CYBERPUNK': { label: 'Cyberpunk', prompt: 'cyberpunk style, neon lights, futuristic city, high tech, rain-slicked streets, vibrant neon colors' },
+  'FANTASY': { label: 'Epic Fantasy', prompt: 'fantasy comic style, oil painting aesthetic, epic lighting, dungeons and dragons art style' },
+  'HORROR': { label: 'Horror / Dark', prompt: 'horror comic style, junji ito style, eerie atmosphere, dark gritty details, high contrast' },
+  'SKETCH': { label: 'Sketch', prompt: 'rough sketch comic style, pencil textures, loose lines, charcoal, artistic unfinished look' },
+  'WATERCOLOR': { label: 'Watercolor', prompt: 'watercolor comic style, artistic, soft edges, bleeding colors, dreamlike atmosphere' },
+};
+
+export const isBuiltInStyle = (id: StyleId): id is ComicStyle => id in builtInStyles;
+
+export interface ResolvedStyle {
+  name: string;
+  prompt: string;
+  avoid: string[];
+  reference?: ImageReference;
+}
+
+/**
+ * Looks up a style by id. A preset that has since been deleted falls back to the default style.
+ */
+export const resolveStyle = (id: StyleId, presets: StylePreset[] = []): ResolvedStyle => {
+  const preset = presets.find(p => p.id === id);
+  if (preset) {
+    return {
+      name: preset.name,
+      prompt: preset.prompt.trim(),
+      avoid: preset.avoid,
+      reference: preset.referenceUrl ? { label: preset.name, url: preset.referenceUrl, role: 'STYLE' } : undefined,
+    };
+  }
+  const builtIn = builtInStyles[isBuiltInStyle(id) ? id : DEFAULT_STYLE];
+  return { name: builtIn.label, prompt: builtIn.prompt, avoid: [] };
+};
+
+/**
+ * The text that goes after "Art Style:" in a generation prompt. Image models
+ * here take no negative prompt, so the things to avoid are spelled out.
+ */
+export const getStylePrompt = (style: ResolvedStyle) => {
+  const avoid = style.avoid.map(item => item.trim()).filter(Boolean);
+  return `${style.prompt || 'comic book style'}${avoid.length > 0 ? `. Avoid: ${avoid.join(', ')}` : ''}`;
+};
+
+/**
+ * "no text, blurry\nphotorealism" -> ['no text', 'blurry', 'photorealism']
+ */
+export const parseAvoidList = (text: string) =>
+  text.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+export const createStylePreset = (from: ResolvedStyle = resolveStyle(DEFAULT_STYLE)): StylePreset => ({
+  id: uuidv4(),
+  name: `${from.name} (custom)`,
+  prompt: from.prompt,
+  avoid: [...from.avoid],
+});
+
+export const duplicateStylePreset = (preset: StylePreset): StylePreset => ({
+  ...preset,
+  id: uuidv4(),
+  name: `${preset.name} copy`,
+  avoid: [...preset.avoid],
+});
+
+export const updateStylePreset = (presets: StylePreset[], id: string, changes: Partial<Omit<StylePreset, 'id'>>): StylePreset[] =>
+  presets.map(preset => {
+    if (preset.id !== id) return preset;
+    const updated: StylePreset = { ...preset, ...changes };
+    // Cleared images are dropped rather than stored as empty strings
+    if (!updated.thumbnailUrl) delete updated.thumbnailUrl;
+    if (!updated.referenceUrl) delete updated.referenceUrl;
+    return updated;
+  });
+
+/**
+ * A fixed sample scene, so thumbnails of different styles can be compared side by side
+ */
+export const buildStyleSamplePrompt = (style: ResolvedStyle) => `
+      A single comic panel: a young traveller with a backpack stands on a rooftop at dusk, looking over a busy city street, a cat sitting beside them.
+      No text or speech balloons. Art Style: ${getStylePrompt(style)}.
+    `.trim();
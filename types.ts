@@ -1,9 +1,57 @@
 
 
-export interface ComicImage {
+export type ImageVersionSource = 'GENERATE' | 'SKETCH' | 'EDIT' | 'IMPORT';
+
+export interface ImageVersion {
   id: string;
-  url: string; // Base64 or empty if placeholder
+  url: string;
+  prompt: string; // Scene description for generations, instruction for edits
+  source: ImageVersionSource;
+  parentId?: string; // Version this one was derived from
+  createdAt: number;
+}
+
+// A generated image that isn't part of a slot's history: a candidate waiting to be picked, or an outtake
+export interface ImageCandidate {
+  id: string;
+  url: string;
   prompt: string;
+  source: ImageVersionSource;
+  createdAt: number;
+}
+
+// Which side of an image an outpainting run added canvas on
+export type ExtendDirection = 'LEFT' | 'RIGHT' | 'UP' | 'DOWN' | 'ALL';
+
+// The region a masked edit may change, black and white with white where it may
+export interface ImageMask {
+  url: string;
+  feather: number; // Pixels the edit fades out over inside the mask's edge
+}
+
+// A prompt exactly as a provider received it, kept on the slot so it can be found and sent again
+export interface PromptRecord {
+  id: string;
+  source: Exclude<ImageVersionSource, 'IMPORT'>;
+  prompt: string; // What was typed: the scene description or the edit instruction
+  sentPrompt: string; // The full text that was sent, after composing or a manual override
+  overridden?: boolean; // The composed prompt was edited by hand before sending
+  styleId?: string; // Style of generations, for its reference image on a re-run
+  sketchUrl?: string; // SKETCH runs need their sketch to be sent again
+  mask?: ImageMask; // Masked EDIT runs change only this region again
+  extend?: ExtendDirection; // Extend-canvas runs pad the slot's current image again instead of reusing the mask
+  sentAt: number;
+}
+
+export interface ComicImage {
+  id: string;
+  url: string; // Base64 or empty if placeholder. Mirrors the active version.
+  prompt: string; // Scene description of the active version
+  versions: ImageVersion[]; // Oldest first
+  activeVersionId?: string;
+  candidates?: ImageCandidate[]; // Results of a multi-candidate generation, waiting for a pick
+  promptHistory?: PromptRecord[]; // Newest first
+  sketchUrl?: string; // Sketch of the latest sketch transform, kept to transform again in another style
 }
 
 export type PanelSplitLayout = 
@@ -18,14 +66,58 @@ export type PanelSplitLayout =
   | 'BIG_TOP' 
   | 'BIG_BOTTOM';
 
+// Children of a split sit side by side (ROW) or stacked (COLUMN)
+export type SplitDirection = 'ROW' | 'COLUMN';
+
+export type SplitNode =
+  | { type: 'SLOT' }
+  | { type: 'SPLIT'; direction: SplitDirection; sizes: number[]; children: SplitNode[] }; // sizes are fractions of the split, summing to 1
+
+/**
+ * A panel's interior: nested splits, or convex polygons for slanted cuts.
+ * Coordinates are fractions of the panel's art area; slots are numbered in
+ * depth-first order, or in list order for polygons.
+ */
+export type PanelGeometry =
+  | { kind: 'SPLITS'; root: SplitNode }
+  | { kind: 'POLYGONS'; polygons: { x: number; y: number }[][] };
+
+// A panel interior saved with the project to reuse on other panels
+export interface SavedLayout {
+  id: string;
+  name: string;
+  geometry: PanelGeometry;
+}
+
+export type BalloonType = 'SPEECH' | 'THOUGHT' | 'WHISPER' | 'SHOUT' | 'CAPTION' | 'SFX';
+
+// Box in fractions of the panel's art area, from its top left corner
+export interface BalloonPosition {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// One piece of lettering on a panel
+export interface Balloon {
+  id: string;
+  type: BalloonType;
+  text: string;
+  speakerId?: string; // Character who says or thinks it
+  order: number; // Reading order within the panel, from 0
+  position?: BalloonPosition; // Placed by hand; unset balloons flow down the panel
+  tail?: { x: number; y: number }; // Tail tip, same units as position; only drawn on placed balloons
+}
+
 export interface ComicPanel {
   id: string;
   images: ComicImage[]; 
   splitLayout: PanelSplitLayout;
-  caption: string;
-  aspectRatio: '1:1' | '16:9' | '9:16';
+  geometry?: PanelGeometry; // A custom interior, used instead of the splitLayout preset
+  balloons: Balloon[];
+  aspectRatio: '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
   colSpan: 1 | 2 | 3 | 4 | 5 | 6; // How many grid columns this panel takes up
-  overlayType: 'NONE' | 'BUBBLE_LEFT' | 'BUBBLE_RIGHT' | 'THOUGHT' | 'WHISPER' | 'SHOUT' | 'CAPTION_BOX' | 'ONOMATOPOEIA';
 }
 
 export enum GenerationMode {
@@ -34,11 +126,6 @@ export enum GenerationMode {
   STORY = 'STORY'
 }
 
-export interface LoadingState {
-  isLoading: boolean;
-  message: string;
-}
-
 export type ComicStyle = 
   | 'MODERN' 
   | 'SUPERHERO'
@@ -52,6 +139,16 @@ export type ComicStyle =
   | 'SKETCH'
   | 'WATERCOLOR';
 
+// A user-defined art style, saved with the project and offered next to the built-in ComicStyles
+export interface StylePreset {
+  id: string;
+  name: string;
+  prompt: string; // Positive prompt fragment, like the built-in style prompts
+  avoid: string[]; // Things the art must not have
+  thumbnailUrl?: string; // Sample image, generated on demand
+  referenceUrl?: string; // Example art sent with image requests in this style
+}
+
 export enum GridLayout {
   STANDARD = 'STANDARD', // 3-col responsive
   CLASSIC = 'CLASSIC',   // 2-col responsive
@@ -62,8 +159,61 @@ export enum GridLayout {
 
 export type GutterSize = 'NONE' | 'TINY' | 'SMALL' | 'MEDIUM' | 'LARGE' | 'HUGE';
 
+// Art that shows what a character looks like, sent along with image edits
+export interface CharacterReference {
+  id: string;
+  url: string;
+  source: 'UPLOAD' | 'GENERATE';
+  createdAt: number;
+}
+
 export interface Character {
   id: string;
   name: string;
   description: string;
-}
\ No newline at end of file
+  referenceImages?: CharacterReference[]; // Oldest first
+}
+// A single comic page. Each page has its own grid and gutter settings.
+export interface Page {
+  id: string;
+  panels: ComicPanel[];
+  gridLayout: GridLayout;
+  gutterSize: GutterSize;
+}
+
+export interface Chapter {
+  id: string;
+  title: string;
+  pages: Page[];
+}
+
+// Publishing details written into exported archives (the title is the project name)
+export interface ComicMetadata {
+  series: string;
+  issueNumber: string;
+  writer: string;
+  artist: string;
+  summary: string;
+}
+
+export interface ComicProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  chapters: Chapter[];
+  characters: Character[];
+  metadata?: ComicMetadata;
+  outtakes?: ImageCandidate[]; // Rejected candidates kept for later, newest first
+  stylePresets?: StylePreset[];
+  customLayouts?: SavedLayout[]; // Panel interiors saved from the layout editor
+}
+
+// Lightweight listing entry so the project switcher doesn't have to load every image
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  pageCount: number;
+  panelCount: number;
+}